@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { CommandHistoryEntry } from '../../src/types';
+
+const STORAGE_KEY = 'commandHistory.entries';
+const DEFAULT_MAX_ENTRIES = 100;
+// Output is kept for replay only, so store the tail of large logs instead of the whole run
+const MAX_STORED_OUTPUT = 20 * 1024;
+
+export class CommandHistoryManager {
+  private static instance: CommandHistoryManager;
+  private workspaceState?: vscode.Memento;
+  private entries: CommandHistoryEntry[] = [];
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  public readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  private constructor() { }
+
+  public static getInstance(): CommandHistoryManager {
+    if (!CommandHistoryManager.instance) {
+      CommandHistoryManager.instance = new CommandHistoryManager();
+    }
+    return CommandHistoryManager.instance;
+  }
+
+  public setWorkspaceState(workspaceState: vscode.Memento): void {
+    this.workspaceState = workspaceState;
+    this.entries = workspaceState.get<CommandHistoryEntry[]>(STORAGE_KEY, []);
+    this.prune();
+    this._onDidChange.fire();
+  }
+
+  public getEntries(): CommandHistoryEntry[] {
+    return [...this.entries];
+  }
+
+  public getEntry(entryId: string): CommandHistoryEntry | undefined {
+    return this.entries.find(entry => entry.id === entryId);
+  }
+
+  public async record(entry: Omit<CommandHistoryEntry, 'id'>): Promise<CommandHistoryEntry> {
+    const stored: CommandHistoryEntry = {
+      ...entry,
+      id: crypto.randomUUID(),
+      output: entry.output && entry.output.length > MAX_STORED_OUTPUT
+        ? entry.output.slice(entry.output.length - MAX_STORED_OUTPUT)
+        : entry.output
+    };
+
+    // Newest first
+    this.entries.unshift(stored);
+    this.prune();
+    await this.persist();
+    return stored;
+  }
+
+  public async removeEntry(entryId: string): Promise<void> {
+    this.entries = this.entries.filter(entry => entry.id !== entryId);
+    await this.persist();
+  }
+
+  public async clear(): Promise<void> {
+    this.entries = [];
+    await this.persist();
+  }
+
+  private getMaxEntries(): number {
+    const configuration = vscode.workspace.getConfiguration('commands-manager-next.tasks.history');
+    const value = configuration.get<number>('maxEntries', DEFAULT_MAX_ENTRIES);
+    return Number.isFinite(value) && value > 0 ? Math.floor(value) : DEFAULT_MAX_ENTRIES;
+  }
+
+  private prune(): void {
+    const maxEntries = this.getMaxEntries();
+    if (this.entries.length > maxEntries) {
+      this.entries = this.entries.slice(0, maxEntries);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    this._onDidChange.fire();
+    if (!this.workspaceState) {
+      return;
+    }
+    await this.workspaceState.update(STORAGE_KEY, this.entries);
+  }
+
+  public dispose(): void {
+    this._onDidChange.dispose();
+  }
+}
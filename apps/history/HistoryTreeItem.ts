@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { CommandHistoryEntry } from '../../src/types';
+
+export class HistoryTreeItem extends vscode.TreeItem {
+  constructor(public readonly entry: CommandHistoryEntry) {
+    super(entry.label, vscode.TreeItemCollapsibleState.None);
+
+    this.id = `history:${entry.id}`;
+    this.contextValue = entry.output ? 'historyEntryWithOutput' : 'historyEntry';
+    this.iconPath = this.getIcon();
+    this.description = this.getDescription();
+    this.tooltip = this.getTooltip();
+    this.command = {
+      command: 'commands-manager-next.history.showOutput',
+      title: 'Show Output',
+      arguments: [this]
+    };
+  }
+
+  private getIcon(): vscode.ThemeIcon {
+    if (typeof this.entry.exitCode !== 'number') {
+      return new vscode.ThemeIcon('circle-outline');
+    }
+    return this.entry.success
+      ? new vscode.ThemeIcon('check', new vscode.ThemeColor('testing.iconPassed'))
+      : new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+  }
+
+  private getDescription(): string {
+    const started = new Date(this.entry.startTime);
+    const time = started.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const isToday = started.toDateString() === new Date().toDateString();
+    const when = isToday ? time : `${started.toLocaleDateString()} ${time}`;
+    return typeof this.entry.exitCode === 'number' ? `${when} · exit ${this.entry.exitCode}` : when;
+  }
+
+  private getTooltip(): vscode.MarkdownString {
+    const markdown = new vscode.MarkdownString();
+    const durationMs = new Date(this.entry.endTime).getTime() - new Date(this.entry.startTime).getTime();
+
+    markdown.appendMarkdown(`**${this.entry.label}**\n\n`);
+    markdown.appendCodeblock(this.entry.command, 'shell');
+    if (this.entry.cwd) {
+      markdown.appendMarkdown(`\n\nWorking directory: \`${this.entry.cwd}\``);
+    }
+    markdown.appendMarkdown(`\n\nStarted: ${new Date(this.entry.startTime).toLocaleString()}`);
+    markdown.appendMarkdown(`\n\nDuration: ${(durationMs / 1000).toFixed(1)}s`);
+    markdown.appendMarkdown(`\n\nExit code: ${typeof this.entry.exitCode === 'number' ? this.entry.exitCode : 'unknown'}`);
+
+    if (this.entry.variables.length > 0) {
+      markdown.appendMarkdown('\n\nVariables:\n');
+      this.entry.variables.forEach(variable => {
+        markdown.appendMarkdown(`\n- \`${variable.key}\` = \`${variable.value}\``);
+      });
+    }
+
+    return markdown;
+  }
+}
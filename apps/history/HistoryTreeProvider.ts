@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+import { CommandHistoryManager } from './CommandHistoryManager';
+import { HistoryTreeItem } from './HistoryTreeItem';
+
+export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryTreeItem>, vscode.Disposable {
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<HistoryTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private readonly changeListener: vscode.Disposable;
+
+  constructor(private readonly historyManager: CommandHistoryManager) {
+    this.changeListener = this.historyManager.onDidChange(() => this.refresh());
+  }
+
+  public refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  public getTreeItem(element: HistoryTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  public async getChildren(element?: HistoryTreeItem): Promise<HistoryTreeItem[]> {
+    if (element) {
+      return [];
+    }
+
+    return this.historyManager.getEntries().map(entry => new HistoryTreeItem(entry));
+  }
+
+  public dispose(): void {
+    this.changeListener.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+}
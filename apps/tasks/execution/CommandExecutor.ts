@@ -1,9 +1,25 @@
 import * as vscode from 'vscode';
-import { Command, ExecutionResult, ResolvedVariable } from '../../../src/types';
+import { Command, CommandVariable, ExecutionResult, ResolvedVariable, TerminalConfig } from '../../../src/types';
 import { VariableResolver } from '../../../src/variables/VariableResolver';
-import { MissingVariableError, UserCancelledError } from '../../../src/variables/errors';
+import { InteractionRequiredError, MissingVariableError, UserCancelledError } from '../../../src/variables/errors';
+import { SECRET_MASK } from '../../../src/variables/SecretVariableStore';
 import { WebviewManager } from '../../../src/ui/webview/WebviewManager';
 import { TerminalManager } from '../../../src/execution/TerminalManager';
+import { CommandHistoryManager } from '../../history/CommandHistoryManager';
+import { ConfigManager } from '../../../src/config/ConfigManager';
+import { BackgroundProcessManager } from '../../../src/execution/BackgroundProcessManager';
+import { resolveWorkspacePath, substituteWorkspaceFolderVariables } from '../../../src/utils/workspaceFolders';
+import { getConfirmationRequirement, matchesConfirmationText } from '../../../src/execution/confirmation';
+import { CommandPreview, PreviewPlaceholder, describePlaceholder, splitPreviewText } from '../../../src/variables/commandPreview';
+
+export interface CommandExecutionOptions {
+  /** Variable values to reuse instead of prompting, e.g. when re-running from history */
+  presetVariables?: ResolvedVariable[];
+  /** Never prompt or confirm; a run that would have to ask is skipped instead */
+  unattended?: boolean;
+  /** Already confirmed, e.g. a step of a chain the user confirmed as a whole */
+  confirmed?: boolean;
+}
 
 export class CommandExecutor {
   private static instance: CommandExecutor;
@@ -32,25 +48,23 @@ export class CommandExecutor {
     this.webviewManager = webviewManager;
   }
 
-  public async executeCommand(command: Command): Promise<ExecutionResult> {
+  public async executeCommand(command: Command, options: CommandExecutionOptions = {}): Promise<ExecutionResult> {
     try {
-      // Resolve variables if any
-      let resolvedCommand = command.command;
-      const placeholders = this.variableResolver.extractPlaceholders(command.command);
-
-      if (placeholders.length > 0) {
-        const resolvedVariables = await this.variableResolver.resolveCommandVariables(command);
-        resolvedCommand = this.substituteVariables(resolvedCommand, resolvedVariables);
+      if (command.chain && command.chain.steps.length > 0) {
+        return await this.executeChain(command, options);
       }
 
-      // Execute the command
-      await this.terminalManager.executeCommand(resolvedCommand, command.terminal);
-
-      return {
-        success: true,
-        output: `Command executed: ${resolvedCommand}`
-      };
+      return await this.runCommandText(command, options);
     } catch (error) {
+      // Unattended runs show nothing; the caller reports why the run was skipped
+      if (error instanceof InteractionRequiredError || (options.unattended && error instanceof MissingVariableError)) {
+        return {
+          success: false,
+          skipped: true,
+          error: error.message
+        };
+      }
+
       if (error instanceof UserCancelledError) {
         return {
           success: false,
@@ -85,7 +99,290 @@ export class CommandExecutor {
     }
   }
 
-  private substituteVariables(command: string, variables: ResolvedVariable[]): string {
+  private async runCommandText(command: Command, options: CommandExecutionOptions): Promise<ExecutionResult> {
+    // Resolve variables if any
+    let resolvedVariables: ResolvedVariable[] = [];
+    const placeholders = this.variableResolver.extractPlaceholders(this.variableResolver.getPlaceholderSource(command));
+
+    if (placeholders.length > 0) {
+      resolvedVariables = await this.variableResolver.resolveCommandVariables(
+        command,
+        options.presetVariables ?? [],
+        { interactive: !options.unattended }
+      );
+    }
+
+    const workspaceFolder = this.getCommandWorkspaceFolder(command);
+    const resolvedCommand = this.substituteVariables(command.command, resolvedVariables, workspaceFolder);
+    const terminal = this.resolveTerminalConfig(command.terminal, resolvedVariables, workspaceFolder);
+
+    if (!options.confirmed && !await this.confirmRun(command, this.redactSecrets(resolvedCommand, resolvedVariables), options.unattended)) {
+      throw new UserCancelledError();
+    }
+
+    // Execute the command and wait for the process to report back
+    const startTime = Date.now();
+    const result = await this.terminalManager.executeCommand(resolvedCommand, terminal, {
+      commandId: command.id,
+      label: command.label,
+      readiness: command.readiness,
+      restart: command.restart,
+      problemMatcher: command.problemMatcher
+    });
+    const endTime = Date.now();
+
+    await this.recordHistory(command, resolvedCommand, resolvedVariables, terminal.cwd, result, startTime, endTime);
+
+    return {
+      ...result,
+      durationMs: result.durationMs ?? endTime - startTime
+    };
+  }
+
+  /**
+   * Runs the chain steps and then the command's own text, if any. Every variable used
+   * anywhere in the chain is resolved up front so parallel steps never race for prompts
+   * and a value picked once flows into every step that references it.
+   */
+  private async executeChain(command: Command, options: CommandExecutionOptions): Promise<ExecutionResult> {
+    const chain = command.chain!;
+    const steps = await this.loadChainSteps(command, [command.id]);
+    const presets = await this.resolveChainVariables(command, steps.flattened, options);
+
+    // Confirmed before any step runs, against its own text or else the steps it runs
+    const confirmText = command.command.trim()
+      ? this.redactSecrets(this.substituteVariables(command.command, presets, this.getCommandWorkspaceFolder(command)), presets)
+      : steps.direct.map(step => step.label).join(chain.mode === 'parallel' ? ' | ' : ' → ');
+    const asked = !options.confirmed && this.requiresConfirmation(command, confirmText);
+    if (asked && !await this.confirmRun(command, confirmText, options.unattended)) {
+      throw new UserCancelledError();
+    }
+    // Once the chain is confirmed its steps and own text are not asked about again
+    const stepOptions: CommandExecutionOptions = { ...options, presetVariables: presets, confirmed: options.confirmed || asked };
+
+    const startTime = Date.now();
+    const stepResults: Array<{ step: Command; result: ExecutionResult }> = [];
+
+    if (chain.mode === 'parallel') {
+      const results = await Promise.all(
+        steps.direct.map(step => this.executeCommandWithProgress(step, stepOptions))
+      );
+      results.forEach((result, index) => stepResults.push({ step: steps.direct[index], result }));
+    } else {
+      for (const step of steps.direct) {
+        const result = await this.executeCommandWithProgress(step, stepOptions);
+        stepResults.push({ step, result });
+        if (!result.success && chain.onFailure !== 'continue') {
+          break;
+        }
+      }
+    }
+
+    const failed = stepResults.find(({ result }) => !result.success);
+    const shouldStop = failed && chain.onFailure !== 'continue';
+
+    if (command.command.trim() && !shouldStop) {
+      const ownResult = await this.runCommandText(command, stepOptions);
+      if (!failed || !ownResult.success) {
+        return { ...ownResult, durationMs: Date.now() - startTime };
+      }
+    }
+
+    const endTime = Date.now();
+    const result: ExecutionResult = failed
+      ? {
+        success: false,
+        exitCode: failed.result.exitCode,
+        error: `Step "${failed.step.label}" failed${failed.result.error ? `: ${failed.result.error}` : ''}`
+      }
+      : { success: true, exitCode: 0 };
+
+    if (!command.command.trim()) {
+      const summary = stepResults.map(({ step }) => step.label).join(chain.mode === 'parallel' ? ' | ' : ' → ');
+      const workspaceFolder = this.getCommandWorkspaceFolder(command);
+      const cwd = this.resolveTerminalConfig(command.terminal, presets, workspaceFolder).cwd;
+      await this.recordHistory(command, summary, presets, cwd, result, startTime, endTime);
+    }
+
+    return { ...result, durationMs: endTime - startTime };
+  }
+
+  private async loadChainSteps(
+    command: Command,
+    ancestry: string[]
+  ): Promise<{ direct: Command[]; flattened: Command[] }> {
+    if (!this.treeProvider) {
+      throw new Error('Command chains are not available until the command tree has loaded.');
+    }
+
+    const direct: Command[] = [];
+    const flattened: Command[] = [];
+
+    for (const stepId of command.chain?.steps ?? []) {
+      if (ancestry.includes(stepId)) {
+        throw new Error(`Command chain cycle detected: ${[...ancestry, stepId].join(' → ')}`);
+      }
+
+      const found: Command | undefined = await this.treeProvider.findCommandById(stepId);
+      if (!found) {
+        throw new Error(`Step "${stepId}" of "${command.label}" was not found.`);
+      }
+
+      // Variables defined on the parent override the step's own definitions
+      const step = this.withParentVariables(found, command.variables);
+      direct.push(step);
+      flattened.push(step);
+
+      if (step.chain && step.chain.steps.length > 0) {
+        const nested = await this.loadChainSteps(step, [...ancestry, stepId]);
+        flattened.push(...nested.flattened);
+      }
+    }
+
+    return { direct, flattened };
+  }
+
+  private withParentVariables(step: Command, parentVariables?: CommandVariable[]): Command {
+    if (!parentVariables || parentVariables.length === 0) {
+      return step;
+    }
+
+    const merged = new Map((step.variables || []).map(variable => [variable.key, variable] as const));
+    parentVariables.forEach(variable => merged.set(variable.key, variable));
+    return { ...step, variables: Array.from(merged.values()) };
+  }
+
+  private async resolveChainVariables(
+    command: Command,
+    steps: Command[],
+    options: CommandExecutionOptions
+  ): Promise<ResolvedVariable[]> {
+    // Whole variables are carried along so secrets stay flagged for masking
+    const resolved = new Map((options.presetVariables ?? []).map(variable => [variable.key, variable] as const));
+
+    for (const target of [command, ...steps]) {
+      const values = await this.variableResolver.resolveCommandVariables(
+        target,
+        Array.from(resolved.values()),
+        { interactive: !options.unattended }
+      );
+      values.forEach(variable => resolved.set(variable.key, variable));
+    }
+
+    return Array.from(resolved.values());
+  }
+
+  private async recordHistory(
+    command: Command,
+    resolvedCommand: string,
+    variables: ResolvedVariable[],
+    cwd: string | undefined,
+    result: ExecutionResult,
+    startTime: number,
+    endTime: number
+  ): Promise<void> {
+    // Secret values never reach the stored history
+    const redact = (text: string): string => this.redactSecrets(text, variables);
+
+    try {
+      await CommandHistoryManager.getInstance().record({
+        commandId: command.id,
+        label: command.label,
+        command: redact(resolvedCommand),
+        variables: variables.map(variable => variable.secret ? { ...variable, value: SECRET_MASK } : variable),
+        // The folder the run used, resolved against the command's own workspace folder
+        cwd: this.terminalManager.resolveCwd(cwd),
+        startTime: new Date(startTime).toISOString(),
+        endTime: new Date(endTime).toISOString(),
+        exitCode: result.exitCode,
+        success: result.success,
+        output: result.output === undefined ? undefined : redact(result.output)
+      });
+    } catch (error) {
+      // History is best effort and must never fail the run itself
+      const { DebugLogger, DebugTag } = await import('../../../src/utils/DebugLogger');
+      DebugLogger.log(DebugTag.HISTORY, 'Failed to record command history', { error });
+    }
+  }
+
+  private redactSecrets(text: string, variables: ResolvedVariable[]): string {
+    const secrets = variables.filter(variable => variable.secret && variable.value).map(variable => variable.value);
+    return secrets.reduce((current, secret) => current.split(secret).join(SECRET_MASK), text);
+  }
+
+  /**
+   * Asks before a command runs when its `confirm` level says so, or when the
+   * resolved text matches a dangerous pattern. The dialog shows the text
+   * exactly as it will be sent, with secrets masked. Unattended runs that
+   * would need confirming are refused instead.
+   */
+  private requiresConfirmation(command: Command, resolvedCommand: string): boolean {
+    return getConfirmationRequirement(command, resolvedCommand, ConfigManager.getInstance().getDangerDetection()).level !== 'none';
+  }
+
+  private async confirmRun(command: Command, resolvedCommand: string, unattended = false): Promise<boolean> {
+    const requirement = getConfirmationRequirement(command, resolvedCommand, ConfigManager.getInstance().getDangerDetection());
+    if (requirement.level === 'none') {
+      return true;
+    }
+    if (unattended) {
+      const reason = requirement.matched ? ` because it contains "${requirement.matched}"` : '';
+      throw new InteractionRequiredError(`Confirmation is required before it runs${reason}`);
+    }
+
+    if (requirement.level === 'typeLabel') {
+      const input = await vscode.window.showInputBox({
+        title: `Confirm "${command.label}"`,
+        prompt: `Runs: ${resolvedCommand}`,
+        placeHolder: `Type "${command.label}" to run it`,
+        ignoreFocusOut: true,
+        validateInput: value => matchesConfirmationText(value, command.label) ? undefined : `Type "${command.label}" exactly to confirm`
+      });
+      return input !== undefined && matchesConfirmationText(input, command.label);
+    }
+
+    const reason = requirement.matched ? `\n\nFlagged as dangerous because it contains "${requirement.matched}".` : '';
+    const choice = await vscode.window.showWarningMessage(
+      `Run "${command.label}"?`,
+      { modal: true, detail: `${resolvedCommand}${reason}` },
+      'Run'
+    );
+    return choice === 'Run';
+  }
+
+  /**
+   * The folder a command runs against: its explicit binding, otherwise the
+   * workspace root whose commands.json defines it.
+   */
+  private getCommandWorkspaceFolder(command: Command): string | undefined {
+    return command.workspaceFolder || ConfigManager.getInstance().getCommandWorkspaceRoot(command.id);
+  }
+
+  private resolveTerminalConfig(terminal: TerminalConfig, variables: ResolvedVariable[], workspaceFolder?: string): TerminalConfig {
+    const env = terminal.env
+      ? Object.fromEntries(
+        Object.entries(terminal.env).map(([key, value]) => [key, this.substituteVariables(String(value), variables, workspaceFolder)])
+      )
+      : undefined;
+
+    // Relative paths are resolved here so they follow the command's workspace folder
+    const cwd = (terminal.cwd || workspaceFolder)
+      ? resolveWorkspacePath(terminal.cwd ? this.substituteVariables(terminal.cwd, variables, workspaceFolder) : undefined, workspaceFolder)
+      : undefined;
+
+    return {
+      ...terminal,
+      cwd,
+      env,
+      envFile: terminal.envFile ? this.substituteVariables(terminal.envFile, variables, workspaceFolder) : undefined
+    };
+  }
+
+  private substituteVariables(command: string, variables: ResolvedVariable[], workspaceFolder?: string): string {
+    return this.substituteWorkspaceVariables(this.substituteResolvedVariables(command, variables), workspaceFolder);
+  }
+
+  private substituteResolvedVariables(command: string, variables: ResolvedVariable[]): string {
     let result = command;
 
     for (const variable of variables) {
@@ -102,25 +399,12 @@ export class CommandExecutor {
       });
     }
 
-    // Handle workspace variables
-    result = this.substituteWorkspaceVariables(result);
-
     return result;
   }
 
-  private substituteWorkspaceVariables(command: string): string {
-    let result = command;
-    
-    // Replace ${workspaceFolder}
-    if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-      result = result.replace(/\${workspaceFolder}/g, vscode.workspace.workspaceFolders[0].uri.fsPath);
-    }
-
-    // Replace ${workspaceFolderBasename}
-    if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-      const basename = vscode.workspace.workspaceFolders[0].name;
-      result = result.replace(/\${workspaceFolderBasename}/g, basename);
-    }
+  private substituteWorkspaceVariables(command: string, workspaceFolder?: string): string {
+    // Replace ${workspaceFolder}, ${workspaceFolder:name} and ${workspaceFolderBasename}
+    let result = substituteWorkspaceFolderVariables(command, workspaceFolder);
 
     // Replace ${file}
     const activeEditor = vscode.window.activeTextEditor;
@@ -162,17 +446,17 @@ export class CommandExecutor {
     return result;
   }
 
-  public async executeCommandWithProgress(command: Command): Promise<ExecutionResult> {
+  public async executeCommandWithProgress(command: Command, options: CommandExecutionOptions = {}): Promise<ExecutionResult> {
     // Update tree icon to running
     if (this.treeProvider) {
       this.treeProvider.setCommandRunning(command.id);
     }
 
     // Execute command without progress notification to avoid interference with input dialogs
-    const result = await this.executeCommand(command);
+    const result = await this.executeCommand(command, options);
     
-    // Update tree icon based on result
-    if (this.treeProvider) {
+    // Update tree icon based on result; background processes stay running until they exit
+    if (this.treeProvider && !(result.success && BackgroundProcessManager.getInstance().isRunning(command.id))) {
       if (result.success) {
         this.treeProvider.setCommandSuccess(command.id);
       } else {
@@ -183,21 +467,64 @@ export class CommandExecutor {
     return result;
   }
 
-  public async previewCommand(command: Command): Promise<string> {
-    let resolvedCommand = command.command;
+  /**
+   * The command text as it would run, after prompting for its variables.
+   * Secret values are masked so the text can be shown or copied safely.
+   */
+  public async resolveCommandText(command: Command): Promise<string> {
+    const variables = await this.variableResolver.resolveCommandVariables(command);
+    const masked = variables.map(variable => variable.secret ? { ...variable, value: SECRET_MASK } : variable);
+    return this.substituteVariables(command.command, masked, this.getCommandWorkspaceFolder(command));
+  }
 
-    if (command.variables && command.variables.length > 0) {
-      // Show preview with variable placeholders
-      for (const variable of command.variables) {
-        const placeholder = `\${input:${variable.key}}`;
-        const previewValue = `[${variable.label || variable.key}]`;
-        resolvedCommand = resolvedCommand.replace(new RegExp(placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'), previewValue);
+  /**
+   * Dry run: fills in every value known without prompting and reports where
+   * each placeholder gets its value. Prompted and missing placeholders stay in
+   * the text; secrets are masked rather than shown so a preview never hints at
+   * their value.
+   */
+  public previewCommand(command: Command): CommandPreview {
+    const config = ConfigManager.getInstance().getConfig();
+    const workspaceFolder = this.getCommandWorkspaceFolder(command);
+    const source = this.variableResolver.getPlaceholderSource(command);
+
+    const placeholders = this.variableResolver.extractPlaceholders(source)
+      .map(key => describePlaceholder(key, command, config));
+    const workspaceVariables = this.variableResolver.extractWorkspaceVariables(source).map((key): PreviewPlaceholder => {
+      const token = `\${${key}}`;
+      let value = token;
+      try {
+        value = this.substituteWorkspaceVariables(token, workspaceFolder);
+      } catch {
+        // A named folder that is not open; the run refuses it, the preview flags it
       }
-    }
-
-    resolvedCommand = this.substituteWorkspaceVariables(resolvedCommand);
-
-    return resolvedCommand;
+      return value === token
+        ? { key, label: key, source: 'workspace', state: 'missing' }
+        : { key, label: key, source: 'workspace', state: 'resolved', value };
+    });
+
+    const known = placeholders.flatMap(placeholder => {
+      if (placeholder.state === 'resolved') {
+        return [{ key: placeholder.key, value: placeholder.value ?? '' }];
+      }
+      return placeholder.state === 'secret' ? [{ key: placeholder.key, value: SECRET_MASK }] : [];
+    });
+    // Workspace values go in one token at a time so a missing one stays in the text
+    const text = workspaceVariables.reduce(
+      (current, placeholder) => placeholder.state === 'resolved'
+        ? current.split(`\${${placeholder.key}}`).join(placeholder.value ?? '')
+        : current,
+      this.substituteResolvedVariables(command.command, known)
+    );
+    const all = [...placeholders, ...workspaceVariables];
+    const unresolved = all.filter(placeholder => placeholder.state === 'prompt' || placeholder.state === 'missing');
+
+    return {
+      label: command.label,
+      text,
+      segments: splitPreviewText(text, unresolved.map(placeholder => placeholder.key)),
+      placeholders: all
+    };
   }
 
   public dispose(): void {
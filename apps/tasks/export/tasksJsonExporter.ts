@@ -0,0 +1,255 @@
+import { applyEdits, FormattingOptions, modify, parse } from 'jsonc-parser';
+import * as path from 'path';
+import { Command, CommandVariable, SharedList, SharedVariable, TerminalConfig } from '../../../src/types';
+import { describeNumberRange } from '../../../src/variables/validation';
+
+export interface TaskInput {
+  id: string;
+  type: 'promptString' | 'pickString';
+  description: string;
+  default?: string;
+  options?: string[];
+  password?: boolean;
+}
+
+export interface TaskEntry {
+  label: string;
+  type: 'shell';
+  command: string;
+  detail?: string;
+  options?: {
+    cwd?: string;
+    env?: Record<string, string>;
+  };
+  presentation: {
+    reveal: 'always' | 'never';
+    panel: 'shared' | 'dedicated' | 'new';
+  };
+  isBackground?: boolean;
+  problemMatcher?: Command['problemMatcher'];
+  dependsOn?: string[];
+  dependsOrder?: 'parallel' | 'sequence';
+}
+
+export interface TasksExport {
+  tasks: TaskEntry[];
+  inputs: TaskInput[];
+}
+
+export interface ExportContext {
+  workspaceRoot?: string;
+  sharedVariables?: SharedVariable[];
+  sharedLists?: SharedList[];
+  /** Labels of saved commands, so chain steps outside the exported folder still map to dependsOn */
+  labelsById?: Map<string, string>;
+}
+
+const PLACEHOLDER_PATTERN = /\$\{([A-Za-z0-9_]+)(?::[^}]*)?\}|\$([A-Za-z0-9_]+)(?![\w-])/g;
+// ${...} names VS Code resolves itself in tasks.json
+const TASK_VARIABLES = new Set([
+  'workspaceFolder',
+  'workspaceFolderBasename',
+  'file',
+  'fileBasename',
+  'fileDirname',
+  'fileExtname',
+  'relativeFile',
+  'cwd',
+  'lineNumber',
+  'selectedText'
+]);
+
+/**
+ * How each terminal type is approximated in tasks.json. External terminals
+ * have no equivalent, so they get a panel of their own.
+ */
+export function getPresentation(type: TerminalConfig['type']): Pick<TaskEntry, 'presentation' | 'isBackground'> {
+  switch (type) {
+    case 'vscode-current':
+      return { presentation: { reveal: 'always', panel: 'shared' } };
+    case 'background':
+      return { presentation: { reveal: 'never', panel: 'dedicated' }, isBackground: true };
+    case 'vscode-new':
+      return { presentation: { reveal: 'always', panel: 'dedicated' } };
+    default:
+      return { presentation: { reveal: 'always', panel: 'new' } };
+  }
+}
+
+function describeVariable(variable: CommandVariable): string {
+  const base = variable.description || variable.label || variable.key;
+  if (variable.type === 'number' && (variable.min !== undefined || variable.max !== undefined)) {
+    return `${base} (a number ${describeNumberRange(variable.min, variable.max)})`;
+  }
+  if (variable.type === 'multiselect') {
+    return `${base} (separate values with "${variable.separator ?? ','}")`;
+  }
+  return base;
+}
+
+/**
+ * Maps a variable to a tasks.json input. Fixed values have no prompt and are
+ * written into the command instead, so they return undefined.
+ */
+export function toTaskInput(variable: CommandVariable): TaskInput | undefined {
+  const description = describeVariable(variable);
+  const options = variable.value.split('\n').map(option => option.trim()).filter(Boolean);
+
+  switch (variable.type) {
+    case 'fixed':
+      return undefined;
+    case 'options':
+      // Options loaded from a source are only known at run time
+      return options.length > 0 && !variable.source
+        ? { id: variable.key, type: 'pickString', description, options }
+        : { id: variable.key, type: 'promptString', description };
+    case 'boolean':
+      return {
+        id: variable.key,
+        type: 'pickString',
+        description,
+        options: [variable.trueValue ?? 'true', variable.falseValue ?? 'false']
+      };
+    case 'secret':
+      return { id: variable.key, type: 'promptString', description, password: true };
+    case 'multiselect':
+      return { id: variable.key, type: 'promptString', description };
+    default:
+      return variable.value
+        ? { id: variable.key, type: 'promptString', description, default: variable.value }
+        : { id: variable.key, type: 'promptString', description };
+  }
+}
+
+function findVariable(key: string, command: Command, context: ExportContext): CommandVariable | undefined {
+  const own = command.variables?.find(variable => variable.key === key);
+  if (own) {
+    return own;
+  }
+
+  const shared = context.sharedVariables?.find(variable => variable.key === key);
+  if (shared) {
+    return { key, label: shared.label, description: shared.description, value: shared.value, type: shared.secret ? 'secret' : 'fixed' };
+  }
+
+  const list = context.sharedLists?.find(candidate => candidate.key === key);
+  if (list) {
+    return { key, label: list.label, description: list.description, value: list.options.join('\n'), type: 'options', source: list.source };
+  }
+  return undefined;
+}
+
+function toTaskCwd(cwd: string | undefined, workspaceRoot?: string): string | undefined {
+  if (!cwd) {
+    return undefined;
+  }
+  if (!workspaceRoot || !path.isAbsolute(cwd)) {
+    return cwd;
+  }
+
+  const relative = path.relative(workspaceRoot, cwd);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return cwd;
+  }
+  return relative ? `\${workspaceFolder}/${relative.split(path.sep).join('/')}` : '${workspaceFolder}';
+}
+
+/**
+ * Converts saved commands into tasks.json entries. Placeholders become
+ * `${input:key}` references, with one input per prompted variable.
+ */
+export function buildTasksExport(commands: Command[], context: ExportContext = {}): TasksExport {
+  const inputs = new Map<string, TaskInput>();
+
+  const rewrite = (text: string, command: Command): string =>
+    text.replace(PLACEHOLDER_PATTERN, (match, bracedKey: string | undefined, bareKey: string | undefined) => {
+      const key = (bracedKey ?? bareKey)!;
+      if (bracedKey && TASK_VARIABLES.has(key)) {
+        return match;
+      }
+
+      const variable = findVariable(key, command, context);
+      if (!variable) {
+        return match;
+      }
+      const input = toTaskInput(variable);
+      if (!input) {
+        return variable.value;
+      }
+      if (!inputs.has(input.id)) {
+        inputs.set(input.id, input);
+      }
+      return `\${input:${input.id}}`;
+    });
+
+  const tasks = commands.map(command => {
+    const env = command.terminal.env
+      ? Object.fromEntries(Object.entries(command.terminal.env).map(([key, value]) => [key, rewrite(value, command)]))
+      : undefined;
+    const cwd = toTaskCwd(command.terminal.cwd ? rewrite(command.terminal.cwd, command) : undefined, context.workspaceRoot);
+    const dependsOn = (command.chain?.steps ?? [])
+      .map(stepId => context.labelsById?.get(stepId) ?? commands.find(candidate => candidate.id === stepId)?.label)
+      .filter((label): label is string => Boolean(label));
+
+    const task: TaskEntry = {
+      label: command.label,
+      type: 'shell',
+      command: rewrite(command.command, command),
+      ...(command.description ? { detail: command.description } : {}),
+      ...(cwd || env ? { options: { ...(cwd ? { cwd } : {}), ...(env ? { env } : {}) } } : {}),
+      ...getPresentation(command.terminal.type),
+      ...(command.problemMatcher ? { problemMatcher: command.problemMatcher } : {}),
+      ...(dependsOn.length > 0
+        ? { dependsOn, dependsOrder: command.chain?.mode === 'parallel' ? 'parallel' as const : 'sequence' as const }
+        : {})
+    };
+    return task;
+  });
+
+  return { tasks, inputs: Array.from(inputs.values()) };
+}
+
+function detectFormatting(content: string): FormattingOptions {
+  const indent = /^([ \t]+)\S/m.exec(content)?.[1];
+  return {
+    insertSpaces: !indent?.startsWith('\t'),
+    tabSize: indent && !indent.startsWith('\t') ? indent.length : 2,
+    eol: content.includes('\r\n') ? '\r\n' : '\n'
+  };
+}
+
+/**
+ * Writes the export into existing tasks.json text. Tasks with the same label
+ * and inputs with the same id are replaced in place, the rest are appended,
+ * and everything else in the file, comments included, is left untouched.
+ */
+export function mergeTasksJson(content: string, exported: TasksExport): string {
+  let text = content.trim() ? content : '{\n  "version": "2.0.0",\n  "tasks": []\n}\n';
+  const formattingOptions = detectFormatting(text);
+
+  const upsert = (property: 'tasks' | 'inputs', items: Array<TaskEntry | TaskInput>, keyOf: (item: unknown) => string | undefined) => {
+    items.forEach(item => {
+      const existing = parse(text)?.[property];
+      const index = Array.isArray(existing) ? existing.findIndex(candidate => keyOf(candidate) === keyOf(item)) : -1;
+      const jsonPath = Array.isArray(existing) ? [property, index >= 0 ? index : existing.length] : [property];
+      const value = Array.isArray(existing) ? item : [item];
+      text = applyEdits(text, modify(text, jsonPath, value, { formattingOptions, isArrayInsertion: index < 0 }));
+    });
+  };
+
+  if (parse(text)?.version === undefined) {
+    text = applyEdits(text, modify(text, ['version'], '2.0.0', { formattingOptions }));
+  }
+  upsert('tasks', exported.tasks, task => getStringField(task, 'label'));
+  upsert('inputs', exported.inputs, input => getStringField(input, 'id'));
+  return text;
+}
+
+/** Reads a string property of a parsed JSON value, which may hold anything */
+function getStringField(value: unknown, field: string): string | undefined {
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+  const fieldValue = (value as Record<string, unknown>)[field];
+  return typeof fieldValue === 'string' ? fieldValue : undefined;
+}
@@ -0,0 +1,48 @@
+import { Command, CommandSource, CommandVariable } from '../../../src/types';
+
+export interface ImportedEntry {
+  name: string;
+  command: string;
+  description?: string;
+  variables?: CommandVariable[];
+}
+
+export function slugify(input: string, fallback: string): string {
+  const base = input
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return base || fallback;
+}
+
+/**
+ * Builds the read-only commands of a workspace source. Ids are prefixed with
+ * the source so the same name in two files never collides.
+ */
+export function toImportedCommands(source: Exclude<CommandSource, 'config'>, entries: ImportedEntry[], cwd?: string): Command[] {
+  const usedIds = new Set<string>();
+
+  return entries.map((entry, index) => {
+    const base = `${source}-${slugify(entry.name, `entry-${index + 1}`)}`;
+    let id = base;
+    for (let counter = 2; usedIds.has(id); counter++) {
+      id = `${base}-${counter}`;
+    }
+    usedIds.add(id);
+
+    return {
+      id,
+      label: entry.name,
+      command: entry.command,
+      ...(entry.description ? { description: entry.description } : {}),
+      terminal: {
+        type: 'vscode-new',
+        name: entry.name,
+        ...(cwd ? { cwd } : {})
+      },
+      ...(entry.variables?.length ? { variables: entry.variables } : {}),
+      readOnly: true,
+      source
+    };
+  });
+}
@@ -0,0 +1,46 @@
+import { Command, CommandVariable } from '../../../src/types';
+import { ImportedEntry, toImportedCommands } from './importedCommand';
+
+// "name param='default' +rest: dependencies", optionally quiet with a leading @
+const RECIPE_LINE = /^@?([A-Za-z_][A-Za-z0-9_-]*)((?:\s+[^:=\s]+(?:=(?:'[^']*'|"[^"]*"|[^\s:]+))?)*)\s*:(?!=)/;
+const PARAMETER = /([+*$]?)([A-Za-z_][A-Za-z0-9_-]*)(?:=('[^']*'|"[^"]*"|\S+))?/g;
+
+function toVariable(name: string, defaultValue: string | undefined): CommandVariable {
+  const value = defaultValue?.replace(/^(['"])(.*)\1$/, '$2') ?? '';
+  return { key: name.replace(/-/g, '_'), label: name, type: 'text', value };
+}
+
+/**
+ * Lists the public recipes of a justfile. The comment right above a recipe
+ * becomes its description and recipe parameters are asked for as variables.
+ */
+export function convertJustfile(content: string, cwd?: string): Command[] {
+  const entries: ImportedEntry[] = [];
+  let comment: string | undefined;
+  let isPrivate = false;
+
+  content.split(/\r?\n/).forEach(line => {
+    if (/^#(?!!)/.test(line)) {
+      comment = line.replace(/^#\s*/, '').trim() || undefined;
+      return;
+    }
+    if (/^\[.*\bprivate\b.*\]/.test(line)) {
+      isPrivate = true;
+      return;
+    }
+    if (/^\[/.test(line)) {
+      return;
+    }
+
+    const match = /^\s/.test(line) ? null : RECIPE_LINE.exec(line);
+    if (match && !match[1].startsWith('_') && !isPrivate) {
+      const variables = Array.from(match[2].matchAll(PARAMETER), parameter => toVariable(parameter[2], parameter[3]));
+      const args = variables.map(variable => ` "\${${variable.key}}"`).join('');
+      entries.push({ name: match[1], command: `just ${match[1]}${args}`, description: comment, variables });
+    }
+    comment = undefined;
+    isPrivate = false;
+  });
+
+  return toImportedCommands('just', entries, cwd);
+}
@@ -0,0 +1,38 @@
+import { Command } from '../../../src/types';
+import { ImportedEntry, toImportedCommands } from './importedCommand';
+
+// "target: prerequisites ## help", but not variable assignments such as "A := b" or "A ::= b"
+const TARGET_LINE = /^([A-Za-z0-9][A-Za-z0-9_.\-/]*(?:\s+[A-Za-z0-9][A-Za-z0-9_.\-/]*)*)\s*:(?![:=])([^#]*)(?:##\s*(.*))?$/;
+
+/**
+ * Lists the explicit targets of a Makefile. Help comments written as
+ * `target: ## text` or as a `## text` line right above the target become
+ * descriptions; pattern rules and special targets such as .PHONY are skipped.
+ */
+export function convertMakefile(content: string, cwd?: string): Command[] {
+  const entries: ImportedEntry[] = [];
+  const seen = new Set<string>();
+  let pendingHelp: string | undefined;
+
+  content.split(/\r?\n/).forEach(line => {
+    const help = /^##\s*(.*)$/.exec(line);
+    if (help) {
+      pendingHelp = help[1].trim() || undefined;
+      return;
+    }
+
+    const match = TARGET_LINE.exec(line);
+    if (match && !line.startsWith('\t')) {
+      const description = match[3]?.trim() || pendingHelp;
+      match[1].split(/\s+/).forEach(target => {
+        if (!target.includes('%') && !seen.has(target)) {
+          seen.add(target);
+          entries.push({ name: target, command: `make ${target}`, description });
+        }
+      });
+    }
+    pendingHelp = undefined;
+  });
+
+  return toImportedCommands('make', entries, cwd);
+}
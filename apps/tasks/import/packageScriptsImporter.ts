@@ -0,0 +1,32 @@
+import { parse } from 'jsonc-parser';
+import { Command } from '../../../src/types';
+import { toImportedCommands } from './importedCommand';
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn';
+
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm']
+];
+
+/** The package manager whose lockfile is present, npm when there is none */
+export function detectPackageManager(fileNames: string[]): PackageManager {
+  return LOCKFILES.find(([lockfile]) => fileNames.includes(lockfile))?.[1] ?? 'npm';
+}
+
+export function convertPackageJsonScripts(content: string, packageManager: PackageManager, cwd?: string): Command[] {
+  let manifest: { scripts?: Record<string, unknown> } | undefined;
+  try {
+    manifest = parse(content);
+  } catch {
+    return [];
+  }
+
+  const scripts = manifest?.scripts && typeof manifest.scripts === 'object' ? manifest.scripts : {};
+  const entries = Object.entries(scripts)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    .map(([name, script]) => ({ name, command: `${packageManager} run ${name}`, description: script }));
+
+  return toImportedCommands('npm', entries, cwd);
+}
@@ -0,0 +1,65 @@
+import { Command } from '../../../src/types';
+import { ImportedEntry, toImportedCommands } from './importedCommand';
+
+export type PythonRunner = 'uv' | 'poetry' | 'pdm';
+
+const LOCKFILES: Array<[string, PythonRunner]> = [
+  ['uv.lock', 'uv'],
+  ['poetry.lock', 'poetry'],
+  ['pdm.lock', 'pdm']
+];
+
+// Tables holding scripts, with the runner their entries need
+const SCRIPT_TABLES: Record<string, PythonRunner | 'project'> = {
+  'project.scripts': 'project',
+  'tool.poetry.scripts': 'poetry',
+  'tool.pdm.scripts': 'pdm'
+};
+
+/** The tool whose lockfile is present; project scripts are run through it */
+export function detectPythonRunner(fileNames: string[]): PythonRunner | undefined {
+  return LOCKFILES.find(([lockfile]) => fileNames.includes(lockfile))?.[1];
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/**
+ * Reads the `key = value` lines of the script tables. Only this flat subset
+ * of TOML is needed, so no parser is pulled in; inline tables such as
+ * `{ cmd = "..." }` keep their `cmd`, `shell` or `call` value as description.
+ */
+export function readScriptTables(content: string): Array<{ table: string; name: string; value: string }> {
+  const scripts: Array<{ table: string; name: string; value: string }> = [];
+  let table: string | undefined;
+
+  content.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    const header = /^\[([^\[\]]+)\]$/.exec(line);
+    if (header) {
+      table = header[1].trim();
+      return;
+    }
+
+    const entry = /^("[^"]+"|'[^']+'|[A-Za-z0-9_.-]+)\s*=\s*(.+)$/.exec(line);
+    if (!entry || !table || !(table in SCRIPT_TABLES)) {
+      return;
+    }
+
+    const inline = /^\{.*\b(?:cmd|shell|call)\s*=\s*("[^"]*"|'[^']*')/.exec(entry[2]);
+    scripts.push({ table, name: unquote(entry[1]), value: unquote(inline ? inline[1] : entry[2].replace(/\s+#.*$/, '')) });
+  });
+
+  return scripts;
+}
+
+export function convertPyproject(content: string, runner: PythonRunner | undefined, cwd?: string): Command[] {
+  const entries: ImportedEntry[] = readScriptTables(content).map(({ table, name, value }) => {
+    const tableRunner = SCRIPT_TABLES[table];
+    const prefix = tableRunner === 'project' ? runner : tableRunner;
+    return { name, command: prefix ? `${prefix} run ${name}` : name, description: value };
+  });
+
+  return toImportedCommands('pyproject', entries, cwd);
+}
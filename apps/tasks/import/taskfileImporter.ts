@@ -0,0 +1,29 @@
+import * as yaml from 'js-yaml';
+import { Command } from '../../../src/types';
+import { toImportedCommands } from './importedCommand';
+
+interface TaskfileTask {
+  desc?: string;
+  summary?: string;
+  internal?: boolean;
+}
+
+/** Lists the tasks of a Taskfile.yml, leaving out internal ones */
+export function convertTaskfile(content: string, cwd?: string): Command[] {
+  let document: { tasks?: Record<string, TaskfileTask | string[] | string | null> } | undefined;
+  try {
+    document = yaml.load(content) as typeof document;
+  } catch {
+    return [];
+  }
+
+  const tasks = document?.tasks && typeof document.tasks === 'object' ? document.tasks : {};
+  const entries = Object.entries(tasks)
+    .filter(([, task]) => !(task && typeof task === 'object' && !Array.isArray(task) && task.internal))
+    .map(([name, task]) => {
+      const details = task && typeof task === 'object' && !Array.isArray(task) ? task : {};
+      return { name, command: `task ${name}`, description: details.desc ?? details.summary?.split('\n')[0] };
+    });
+
+  return toImportedCommands('taskfile', entries, cwd);
+}
@@ -1,6 +1,7 @@
 import { parse } from 'jsonc-parser';
 import * as path from 'path';
-import { Command } from '../../../src/types';
+import { Command, CommandVariable, ProblemMatcherSetting } from '../../../src/types';
+import { slugify } from './importedCommand';
 
 interface TaskJson {
   label?: string;
@@ -11,20 +12,33 @@ interface TaskJson {
   detail?: string;
   options?: {
     cwd?: string;
+    env?: Record<string, string>;
   };
   presentation?: {
     reveal?: string;
   };
+  isBackground?: boolean;
   problemMatcher?: unknown;
-  dependsOn?: unknown;
+  dependsOn?: string | Array<string | unknown>;
+  dependsOrder?: 'parallel' | 'sequence';
   path?: string;
   notation?: string;
   identifier?: string;
 }
 
+interface TaskInputJson {
+  id?: string;
+  type?: string;
+  description?: string;
+  default?: string;
+  options?: Array<string | { value?: string }>;
+  password?: boolean;
+}
+
 interface TasksFile {
   version?: string;
   tasks?: TaskJson[];
+  inputs?: TaskInputJson[];
 }
 
 function toArray<T>(value: T | T[] | undefined): T[] {
@@ -92,12 +106,65 @@ function buildCommandLine(task: TaskJson): string | undefined {
   return undefined;
 }
 
-function slugify(input: string, fallback: string): string {
-  const base = input
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '');
-  return base || fallback;
+function getDependencyLabels(task: TaskJson): string[] {
+  // Only label references are supported; task identifier objects ({ type, script }) have no stable label to match
+  return toArray(task.dependsOn)
+    .filter((dependency): dependency is string => typeof dependency === 'string' && dependency.trim().length > 0)
+    .map(dependency => dependency.trim());
+}
+
+function getProblemMatcher(task: TaskJson): ProblemMatcherSetting | undefined {
+  // Names and inline definitions are kept; anything else is not a matcher VS Code would run either
+  const matchers = toArray(task.problemMatcher as ProblemMatcherSetting | undefined)
+    .filter(matcher => (typeof matcher === 'string' && matcher.trim().length > 0) ||
+      (Boolean(matcher) && typeof matcher === 'object' && 'pattern' in (matcher as object)));
+  if (matchers.length === 0) {
+    return undefined;
+  }
+  return matchers.length === 1 ? matchers[0] : matchers;
+}
+
+const INPUT_REFERENCE = /\$\{input:([A-Za-z0-9_-]+)\}/g;
+
+/**
+ * Turns a promptString or pickString input into the variable that asks the
+ * same question. Command inputs have no equivalent and stay unresolved.
+ */
+function toCommandVariable(input: TaskInputJson): CommandVariable | undefined {
+  if (!input.id || (input.type !== 'promptString' && input.type !== 'pickString')) {
+    return undefined;
+  }
+
+  const label = input.description || input.id;
+  if (input.type === 'pickString') {
+    const options = (input.options ?? [])
+      .map(option => (typeof option === 'string' ? option : option?.value))
+      .filter((option): option is string => typeof option === 'string');
+    // The default is offered first, like VS Code does
+    const ordered = input.default && options.includes(input.default)
+      ? [input.default, ...options.filter(option => option !== input.default)]
+      : options;
+    return { key: input.id, label, type: 'options', value: ordered.join('\n') };
+  }
+  if (input.password) {
+    return { key: input.id, label, type: 'secret', value: '' };
+  }
+  return { key: input.id, label, type: 'text', value: input.default ?? '' };
+}
+
+/**
+ * Rewrites `${input:id}` references as placeholders of the variables built
+ * from the file's inputs, so tasks exported from saved commands import back.
+ */
+function resolveInputs(text: string, inputs: Map<string, CommandVariable>, used: Map<string, CommandVariable>): string {
+  return text.replace(INPUT_REFERENCE, (match, id: string) => {
+    const variable = inputs.get(id);
+    if (!variable) {
+      return match;
+    }
+    used.set(id, variable);
+    return `\${${id}}`;
+  });
 }
 
 export function convertTasksJsonContent(content: string, workspaceRoot?: string): Command[] {
@@ -115,21 +182,32 @@ export function convertTasksJsonContent(content: string, workspaceRoot?: string)
   const tasksArray: TaskJson[] = Array.isArray((parsed as TasksFile).tasks)
     ? ((parsed as TasksFile).tasks as TaskJson[])
     : toArray(parsed as TaskJson);
+  const inputs = new Map<string, CommandVariable>();
+  toArray((parsed as TasksFile).inputs).forEach(input => {
+    const variable = input && typeof input === 'object' ? toCommandVariable(input) : undefined;
+    if (variable) {
+      inputs.set(variable.key, variable);
+    }
+  });
 
-  const commands: Command[] = [];
   const usedIds = new Set<string>();
+  const idsByLabel = new Map<string, string>();
+  const entries: Array<{ task: TaskJson; id: string; label: string; commandLine?: string; dependencies: string[] }> = [];
 
+  // First pass: assign ids so dependsOn labels can be mapped regardless of declaration order
   tasksArray.forEach((task, index) => {
     if (!task || typeof task !== 'object') {
       return;
     }
 
-    const label = task.label?.trim() || buildCommandLine(task) || `task-${index + 1}`;
     const commandLine = buildCommandLine(task);
-    if (!commandLine) {
+    const dependencies = getDependencyLabels(task);
+    if (!commandLine && dependencies.length === 0) {
       return;
     }
 
+    const label = task.label?.trim() || commandLine || `task-${index + 1}`;
+
     let idBase = slugify(label, `task-${index + 1}`);
     if (task.type) {
       idBase = `${slugify(task.type, 'task')}-${idBase}`;
@@ -142,29 +220,73 @@ export function convertTasksJsonContent(content: string, workspaceRoot?: string)
     }
     usedIds.add(uniqueId);
 
+    if (!idsByLabel.has(label)) {
+      idsByLabel.set(label, uniqueId);
+    }
+    entries.push({ task, id: uniqueId, label, commandLine, dependencies });
+  });
+
+  const commands: Command[] = [];
+
+  entries.forEach(({ task, id, label, commandLine, dependencies }) => {
+    const steps = dependencies
+      .map(dependency => idsByLabel.get(dependency))
+      .filter((stepId): stepId is string => typeof stepId === 'string' && stepId !== id);
+
+    // A pure dependsOn aggregator whose dependencies could not be resolved has nothing to run
+    if (!commandLine && steps.length === 0) {
+      return;
+    }
+
     const terminalName = `VS Code Task: ${label}`;
-    const cwd = task.options?.cwd;
+    const usedInputs = new Map<string, CommandVariable>();
+    const cwd = task.options?.cwd ? resolveInputs(task.options.cwd, inputs, usedInputs) : undefined;
+    const env = task.options?.env && typeof task.options.env === 'object'
+      ? Object.fromEntries(Object.entries(task.options.env)
+        .filter(([, value]) => typeof value === 'string')
+        .map(([key, value]) => [key, resolveInputs(value, inputs, usedInputs)]))
+      : undefined;
     const resolvedCwd =
       cwd && cwd.trim().length > 0
-        ? path.isAbsolute(cwd) || !workspaceRoot
+        ? path.isAbsolute(cwd) || cwd.startsWith('${') || !workspaceRoot
           ? cwd
           : path.join(workspaceRoot, cwd)
         : undefined;
 
     const command: Command = {
-      id: uniqueId,
+      id,
       label,
-      command: commandLine,
+      command: commandLine ? resolveInputs(commandLine, inputs, usedInputs) : '',
       description: `Imported from tasks.json${task.type ? ` (${task.type})` : ''}`,
       terminal: {
-        type: 'vscode-new',
+        // Hidden background tasks are what the exporter writes for background processes
+        type: task.isBackground && task.presentation?.reveal === 'never' ? 'background' : 'vscode-new',
         name: terminalName,
-        ...(resolvedCwd ? { cwd: resolvedCwd } : {})
+        ...(resolvedCwd ? { cwd: resolvedCwd } : {}),
+        ...(env ? { env } : {})
       },
       readOnly: true,
       source: 'vscode-task'
     };
 
+    if (usedInputs.size > 0) {
+      command.variables = Array.from(usedInputs.values());
+    }
+
+    const problemMatcher = getProblemMatcher(task);
+    if (problemMatcher && commandLine) {
+      command.problemMatcher = problemMatcher;
+    }
+
+    if (steps.length > 0) {
+      // VS Code runs dependencies in parallel unless dependsOrder is "sequence"
+      command.chain = {
+        steps,
+        mode: task.dependsOrder === 'sequence' ? 'sequential' : 'parallel',
+        onFailure: 'stop'
+      };
+    }
+
     commands.push(command);
   });
 
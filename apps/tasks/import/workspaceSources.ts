@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Command, CommandSource } from '../../../src/types';
+import { convertPackageJsonScripts, detectPackageManager } from './packageScriptsImporter';
+import { convertMakefile } from './makefileImporter';
+import { convertJustfile } from './justfileImporter';
+import { convertTaskfile } from './taskfileImporter';
+import { convertPyproject, detectPythonRunner } from './pyprojectImporter';
+
+/**
+ * A workspace file whose entries show as a read-only folder, next to the one
+ * imported from tasks.json.
+ */
+export interface WorkspaceCommandSource {
+  source: Exclude<CommandSource, 'config' | 'vscode-task'>;
+  folderName: string;
+  icon: string;
+  description: string;
+  /** Glob, relative to the workspace root, of every file the import depends on */
+  watchPattern: string;
+  load(workspaceRoot: string): Promise<Command[]>;
+}
+
+async function readFirst(workspaceRoot: string, fileNames: string[]): Promise<string | undefined> {
+  for (const fileName of fileNames) {
+    try {
+      return await fs.promises.readFile(path.join(workspaceRoot, fileName), 'utf8');
+    } catch {
+      // Try the next spelling
+    }
+  }
+  return undefined;
+}
+
+async function listFiles(workspaceRoot: string): Promise<string[]> {
+  try {
+    return await fs.promises.readdir(workspaceRoot);
+  } catch {
+    return [];
+  }
+}
+
+export const WORKSPACE_COMMAND_SOURCES: WorkspaceCommandSource[] = [
+  {
+    source: 'npm',
+    folderName: 'package.json',
+    icon: '$(package)',
+    description: 'Package scripts',
+    watchPattern: '{package.json,package-lock.json,pnpm-lock.yaml,yarn.lock}',
+    load: async workspaceRoot => {
+      const content = await readFirst(workspaceRoot, ['package.json']);
+      return content ? convertPackageJsonScripts(content, detectPackageManager(await listFiles(workspaceRoot)), workspaceRoot) : [];
+    }
+  },
+  {
+    source: 'make',
+    folderName: 'Makefile',
+    icon: '$(tools)',
+    description: 'Make targets',
+    watchPattern: '{GNUmakefile,Makefile,makefile}',
+    load: async workspaceRoot => {
+      const content = await readFirst(workspaceRoot, ['GNUmakefile', 'Makefile', 'makefile']);
+      return content ? convertMakefile(content, workspaceRoot) : [];
+    }
+  },
+  {
+    source: 'just',
+    folderName: 'justfile',
+    icon: '$(checklist)',
+    description: 'just recipes',
+    watchPattern: '{justfile,Justfile,.justfile}',
+    load: async workspaceRoot => {
+      const content = await readFirst(workspaceRoot, ['justfile', 'Justfile', '.justfile']);
+      return content ? convertJustfile(content, workspaceRoot) : [];
+    }
+  },
+  {
+    source: 'taskfile',
+    folderName: 'Taskfile',
+    icon: '$(list-unordered)',
+    description: 'Task tasks',
+    watchPattern: '{Taskfile,taskfile}.{yml,yaml}',
+    load: async workspaceRoot => {
+      const content = await readFirst(workspaceRoot, ['Taskfile.yml', 'Taskfile.yaml', 'taskfile.yml', 'taskfile.yaml']);
+      return content ? convertTaskfile(content, workspaceRoot) : [];
+    }
+  },
+  {
+    source: 'pyproject',
+    folderName: 'pyproject.toml',
+    icon: '$(symbol-method)',
+    description: 'Python scripts',
+    watchPattern: '{pyproject.toml,uv.lock,poetry.lock,pdm.lock}',
+    load: async workspaceRoot => {
+      const content = await readFirst(workspaceRoot, ['pyproject.toml']);
+      return content ? convertPyproject(content, detectPythonRunner(await listFiles(workspaceRoot)), workspaceRoot) : [];
+    }
+  }
+];
+
+/** Label shown next to a read-only command, naming the file it comes from */
+export function getSourceFileLabel(source: CommandSource | undefined): string {
+  if (!source || source === 'vscode-task') {
+    return 'tasks.json';
+  }
+  return WORKSPACE_COMMAND_SOURCES.find(candidate => candidate.source === source)?.folderName ?? '';
+}
@@ -1,22 +1,59 @@
 import * as vscode from 'vscode';
 import { Command, Folder, ExecutionState } from '../../../src/types';
+import { BackgroundProcess } from '../../../src/execution/BackgroundProcessManager';
+import { getSourceFileLabel } from '../import/workspaceSources';
+import { describeLayer } from '../../../src/config/layers';
+import { ScheduleManager } from '../../../src/execution/ScheduleManager';
 
 export class CommandTreeItem extends vscode.TreeItem {
   private _executionState: ExecutionState = ExecutionState.Idle;
 
   constructor(
     public readonly item: Command | Folder,
-    public readonly type: 'command' | 'folder',
+    public readonly type: 'command' | 'folder' | 'process' | 'search',
     public readonly parent?: CommandTreeItem,
     public readonly path: number[] = [],
-    public readonly commandIndex?: number
+    public readonly commandIndex?: number,
+    public readonly backgroundProcess?: BackgroundProcess
   ) {
     super(
-      type === 'folder' ? (item as Folder).name : (item as Command).label,
+      type === 'folder' || type === 'search' ? (item as Folder).name : (item as Command).label,
       type === 'folder' ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
     );
 
-    if (type === 'folder') {
+    if (type === 'process') {
+      this.id = `process:${backgroundProcess!.id}`;
+      this.contextValue = 'backgroundProcess';
+      this.tooltip = `${backgroundProcess!.command}\nPID ${backgroundProcess!.pid ?? 'unknown'}, started ${new Date(backgroundProcess!.startTime).toLocaleTimeString()}`;
+      this.iconPath = new vscode.ThemeIcon('pulse');
+      this.description = `PID ${backgroundProcess!.pid ?? '?'}`;
+      this.command = {
+        command: 'commands-manager-next.processes.showOutput',
+        title: 'Show Output',
+        arguments: [this]
+      };
+      return;
+    }
+
+    if (type === 'search') {
+      this.id = 'search';
+      this.contextValue = 'commandSearch';
+      this.tooltip = 'Filter by label, command text, description or tag. Use #tag for a tag and is:favorite for favorites.';
+      this.iconPath = new vscode.ThemeIcon('search');
+      this.command = {
+        command: 'commands-manager-next.tasks.search',
+        title: 'Search Commands'
+      };
+      return;
+    }
+
+    if (this.isRunningProcesses()) {
+      this.id = 'processes';
+    } else if (this.isCommandGroup()) {
+      this.id = `${(item as Folder).source}:${(item as Folder).name}`;
+    } else if (this.isWorkspaceRoot()) {
+      this.id = `root:${(item as Folder).workspaceRoot}`;
+    } else if (type === 'folder') {
       const pathKey = path.length ? path.join('/') : 'root';
       this.id = `folder:${pathKey}`;
     } else {
@@ -27,6 +64,12 @@ export class CommandTreeItem extends vscode.TreeItem {
     if (type === 'command') {
       const command = item as Command;
       this.contextValue = command.readOnly ? 'command.imported' : 'command';
+    } else if (this.isRunningProcesses()) {
+      this.contextValue = 'runningProcesses';
+    } else if (this.isWorkspaceRoot()) {
+      this.contextValue = 'workspaceRoot';
+    } else if (this.isCommandGroup()) {
+      this.contextValue = 'commandGroup';
     } else if (type === 'folder') {
       const folder = item as Folder;
       this.contextValue = folder.readOnly ? 'folder.imported' : 'folder';
@@ -45,18 +88,39 @@ export class CommandTreeItem extends vscode.TreeItem {
   set executionState(state: ExecutionState) {
     this._executionState = state;
     this.iconPath = this.getIcon();
+    this.description = this.getDescription();
   }
 
   private getTooltip(): string {
+    const layer = this.getLayer();
+    const source = layer ? `\nFrom the ${describeLayer(layer)} layer` : '';
     if (this.type === 'command') {
       const command = this.item as Command;
-      return `${command.label}\n${command.description || command.command}`;
+      const schedule = ScheduleManager.getInstance().describeNextRun(command);
+      const template = (command.template ? `\nBased on the template ${command.template}` : '')
+        + (command.tags?.length ? `\nTags: ${command.tags.join(', ')}` : '')
+        + (command.confirm && command.confirm !== 'none' ? '\nAsks for confirmation before running' : '')
+        + (schedule ? `\n${schedule}` : '');
+      const details = command.description || command.command;
+      if (command.chain?.steps.length) {
+        const steps = `Runs ${command.chain.mode === 'parallel' ? 'in parallel' : 'in order'}: ${command.chain.steps.join(', ')}`;
+        return (details ? `${command.label}\n${details}\n${steps}` : `${command.label}\n${steps}`) + template + source;
+      }
+      return `${command.label}\n${details}${template}${source}`;
     } else {
       const folder = this.item as Folder;
-      return folder.name;
+      return `${folder.name}${source}`;
     }
   }
 
+  /** Config layer (team, user, workspace or a nested folder) of the top-level folder holding this item */
+  public getLayer(): string | undefined {
+    if (this.type === 'folder' && (this.item as Folder).layer) {
+      return (this.item as Folder).layer;
+    }
+    return this.parent?.getLayer();
+  }
+
   private getIcon(): vscode.ThemeIcon | string {
     if (this.type === 'folder') {
       const folder = this.item as Folder;
@@ -76,6 +140,8 @@ export class CommandTreeItem extends vscode.TreeItem {
 
       // Override icon based on execution state
       switch (this._executionState) {
+        case ExecutionState.Starting:
+          return new vscode.ThemeIcon('loading~spin');
         case ExecutionState.Running:
           return new vscode.ThemeIcon('sync~spin');
         case ExecutionState.Success:
@@ -91,6 +157,9 @@ export class CommandTreeItem extends vscode.TreeItem {
           : command.icon;
         return new vscode.ThemeIcon(iconName);
       }
+      if (command.chain?.steps.length) {
+        return new vscode.ThemeIcon('list-ordered');
+      }
       // Fallback to terminal type icons
       switch (command.terminal.type) {
         case 'vscode-current':
@@ -101,6 +170,10 @@ export class CommandTreeItem extends vscode.TreeItem {
           return new vscode.ThemeIcon('console');
         case 'external-powershell':
           return new vscode.ThemeIcon('terminal-powershell');
+        case 'external-system':
+          return new vscode.ThemeIcon('link-external');
+        case 'background':
+          return new vscode.ThemeIcon('server-process');
         default:
           return new vscode.ThemeIcon('play');
       }
@@ -111,14 +184,25 @@ export class CommandTreeItem extends vscode.TreeItem {
     if (this.type === 'command') {
       const command = this.item as Command;
       if (command.readOnly) {
-        return 'tasks.json';
+        return getSourceFileLabel(command.source);
       }
-      return command.terminal.type;
+      if (this._executionState === ExecutionState.Starting) {
+        return 'starting';
+      }
+      const favorite = command.favorite ? '★ ' : '';
+      const tags = command.tags?.length ? ` · ${command.tags.map(tag => `#${tag}`).join(' ')}` : '';
+      if (command.chain?.steps.length) {
+        const count = command.chain.steps.length;
+        return `${favorite}${count} ${count === 1 ? 'step' : 'steps'} · ${command.chain.mode ?? 'sequential'}${tags}`;
+      }
+      return `${favorite}${command.terminal.type}${tags}`;
+    } else if (this.isRunningProcesses()) {
+      return (this.item as Folder).description ?? '';
     } else {
       const folder = this.item as Folder;
       const totalCommands = this.countCommands(folder);
       const label = totalCommands === 1 ? 'command' : 'commands';
-      return `${totalCommands} ${label}`;
+      return folder.layer ? `${totalCommands} ${label} · ${describeLayer(folder.layer)}` : `${totalCommands} ${label}`;
     }
   }
 
@@ -149,6 +233,25 @@ export class CommandTreeItem extends vscode.TreeItem {
     return this.type === 'folder';
   }
 
+  // Workspace folder nodes group top-level folders in multi-root workspaces
+  public isWorkspaceRoot(): boolean {
+    return this.type === 'folder' && this.path.length === 0 && !!(this.item as Folder).workspaceRoot;
+  }
+
+  // Virtual folder listing the live background processes
+  public isRunningProcesses(): boolean {
+    return this.type === 'folder' && (this.item as Folder).source === 'processes';
+  }
+
+  // Virtual folder listing favorites, or the commands with one tag when grouping by tag
+  public isCommandGroup(): boolean {
+    return this.type === 'folder' && ((this.item as Folder).source === 'favorites' || (this.item as Folder).source === 'tag');
+  }
+
+  public isProcess(): boolean {
+    return this.type === 'process';
+  }
+
   public getFolderPath(): number[] {
     return [...this.path];
   }
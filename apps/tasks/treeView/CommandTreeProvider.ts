@@ -17,9 +17,27 @@ import {
   moveFolderInConfig,
   pathsEqual
 } from './moveOperations';
+import {
+  CommandFilter,
+  CommandViewMode,
+  LocatedCommand,
+  UNTAGGED_GROUP,
+  folderHasMatch,
+  groupByTag,
+  isEmptyFilter,
+  locateCommands,
+  matchesCommandFilter,
+  parseCommandFilter
+} from './commandFilter';
 import { convertTasksJsonContent } from '../import/tasksJsonImporter';
+import { WORKSPACE_COMMAND_SOURCES, WorkspaceCommandSource } from '../import/workspaceSources';
+import { isMultiRootWorkspace } from '../../../src/utils/workspaceFolders';
+import { BackgroundProcessManager } from '../../../src/execution/BackgroundProcessManager';
+import { TerminalManager } from '../../../src/execution/TerminalManager';
 
 const TREE_MIME_TYPE = 'application/vnd.code.tree.commandmanagertree';
+const FILTER_STATE_KEY = 'commandManagerTree.filter';
+const VIEW_MODE_STATE_KEY = 'commandManagerTree.viewMode';
 
 type DraggedTreeItem =
   | { kind: 'folder'; path: number[] }
@@ -30,14 +48,29 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
   readonly onDidChangeTreeData: vscode.Event<CommandTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
   private configManager: ConfigManager;
+  // Command items by tree item id; a command can be listed more than once, e.g. under favorites
   private commandTreeItems: Map<string, CommandTreeItem> = new Map();
+  // Commands of the favorites and tag groups, by group item id
+  private groupedCommands: Map<string, LocatedCommand[]> = new Map();
+  private searchQuery = '';
+  private viewMode: CommandViewMode = 'folders';
+  // Kept apart from the items so states survive a refresh, which recreates them
+  private executionStates: Map<string, ExecutionState> = new Map();
+  // Commands waiting for their readiness probe; shown as starting over their execution state
+  private startingCommands: Set<string> = new Set();
+  private processListeners: vscode.Disposable[] = [];
   private importedTasks: Command[] = [];
   private tasksWatcher?: vscode.FileSystemWatcher;
+  // Commands read from package.json, Makefile and the other workspace sources, by source
+  private sourceCommands: Map<WorkspaceCommandSource['source'], Command[]> = new Map();
+  private sourceWatchers: vscode.FileSystemWatcher[] = [];
   private workspaceRoot?: string;
   public readonly dragAndDropController: vscode.TreeDragAndDropController<CommandTreeItem>;
 
-  constructor() {
+  constructor(private readonly storage?: vscode.Memento) {
     this.configManager = ConfigManager.getInstance();
+    this.searchQuery = storage?.get<string>(FILTER_STATE_KEY, '') ?? '';
+    this.viewMode = storage?.get<CommandViewMode>(VIEW_MODE_STATE_KEY, 'folders') ?? 'folders';
     this.configManager.setOnConfigChange(() => this.refresh());
     this.workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
     if (!this.workspaceRoot) {
@@ -47,6 +80,28 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
       }
     }
     void this.initializeWorkspaceTasks();
+    void this.initializeWorkspaceSources();
+    const backgroundProcesses = BackgroundProcessManager.getInstance();
+    this.processListeners.push(
+      backgroundProcesses.onDidChange(() => this.refresh()),
+      backgroundProcesses.onDidExit(({ process, exitCode, stopped }) => {
+        if (stopped) {
+          this.setCommandExecutionState(process.commandId, ExecutionState.Idle);
+        } else if (exitCode === 0) {
+          this.setCommandSuccess(process.commandId);
+        } else {
+          this.setCommandError(process.commandId);
+        }
+      }),
+      TerminalManager.getInstance().onDidChangeReadiness(({ commandId, starting }) => {
+        if (starting) {
+          this.startingCommands.add(commandId);
+        } else {
+          this.startingCommands.delete(commandId);
+        }
+        this.setCommandExecutionState(commandId, this.executionStates.get(commandId) ?? ExecutionState.Idle);
+      })
+    );
     this.dragAndDropController = {
       dragMimeTypes: [TREE_MIME_TYPE],
       dropMimeTypes: [TREE_MIME_TYPE],
@@ -78,14 +133,76 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
 
   private async getRootFolders(): Promise<CommandTreeItem[]> {
     const config = this.configManager.getConfig();
-    const items: CommandTreeItem[] = [];
+    const filter = this.getFilter();
+    const items: CommandTreeItem[] = [this.createSearchItem()];
+    this.commandTreeItems.clear();
+    this.groupedCommands.clear();
+
+    const processCount = BackgroundProcessManager.getInstance().getProcesses().length;
+    if (processCount > 0) {
+      const processesFolder: Folder = {
+        name: 'Running Processes',
+        icon: '$(pulse)',
+        description: `${processCount} running`,
+        commands: [],
+        readOnly: true,
+        source: 'processes'
+      };
+      items.push(new CommandTreeItem(processesFolder, 'folder', undefined, [-2]));
+    }
+
+    if (this.viewMode === 'tags') {
+      const located = locateCommands(config.folders).filter(entry => matchesCommandFilter(entry.command, filter));
+      groupByTag(located).forEach(group => {
+        const groupFolder: Folder = {
+          name: group.tag,
+          icon: group.tag === UNTAGGED_GROUP ? '$(circle-slash)' : '$(tag)',
+          commands: group.commands.map(entry => entry.command),
+          readOnly: true,
+          source: 'tag'
+        };
+        items.push(this.createGroupItem(groupFolder, group.commands));
+      });
+    } else {
+      const favorites = locateCommands(config.folders)
+        .filter(entry => entry.command.favorite && matchesCommandFilter(entry.command, filter));
+      if (favorites.length > 0) {
+        const favoritesFolder: Folder = {
+          name: 'Favorites',
+          icon: '$(star-full)',
+          commands: favorites.map(entry => entry.command),
+          readOnly: true,
+          source: 'favorites'
+        };
+        items.push(this.createGroupItem(favoritesFolder, favorites));
+      }
 
-    config.folders.forEach((folder, index) => {
-      const folderItem = new CommandTreeItem(folder, 'folder', undefined, [index]);
-      items.push(folderItem);
-    });
+      if (isMultiRootWorkspace() && config.folders.some(folder => folder.workspaceRoot)) {
+        // One node per workspace folder; its children keep their real paths
+        (vscode.workspace.workspaceFolders ?? []).forEach(workspaceFolder => {
+          const rootFolder: Folder = {
+            name: workspaceFolder.name,
+            icon: '$(root-folder)',
+            commands: [],
+            subfolders: config.folders.filter(folder => folder.workspaceRoot === workspaceFolder.name),
+            readOnly: true,
+            workspaceRoot: workspaceFolder.name
+          };
+          if (isEmptyFilter(filter) || folderHasMatch(rootFolder, filter)) {
+            items.push(new CommandTreeItem(rootFolder, 'folder', undefined, []));
+          }
+        });
+      } else {
+        config.folders.forEach((folder, index) => {
+          if (isEmptyFilter(filter) || folderHasMatch(folder, filter)) {
+            const folderItem = new CommandTreeItem(folder, 'folder', undefined, [index]);
+            items.push(folderItem);
+          }
+        });
+      }
+    }
 
-    if (this.importedTasks.length > 0) {
+    if (this.importedTasks.some(command => matchesCommandFilter(command, filter))) {
       const virtualFolder: Folder = {
         name: 'tasks.json',
         icon: '$(tasklist)',
@@ -98,9 +215,71 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
       items.push(folderItem);
     }
 
+    // Paths below -2 are taken by the workspace sources, in registry order
+    WORKSPACE_COMMAND_SOURCES.forEach((source, index) => {
+      const commands = this.sourceCommands.get(source.source) ?? [];
+      if (!commands.some(command => matchesCommandFilter(command, filter))) {
+        return;
+      }
+      const sourceFolder: Folder = {
+        name: source.folderName,
+        icon: source.icon,
+        description: source.description,
+        commands,
+        readOnly: true,
+        source: source.source
+      };
+      items.push(new CommandTreeItem(sourceFolder, 'folder', undefined, [-3 - index]));
+    });
+
     return items;
   }
 
+  private createSearchItem(): CommandTreeItem {
+    const label = this.searchQuery ? `Search: ${this.searchQuery}` : 'Search commands...';
+    return new CommandTreeItem({ name: label, commands: [] }, 'search');
+  }
+
+  private createGroupItem(folder: Folder, commands: LocatedCommand[]): CommandTreeItem {
+    const item = new CommandTreeItem(folder, 'folder', undefined, []);
+    if (folder.source === 'tag' && folder.name === UNTAGGED_GROUP) {
+      // Keeps the group apart from a tag that happens to be called the same
+      item.id = 'untagged';
+    }
+    this.groupedCommands.set(item.id!, commands);
+    return item;
+  }
+
+  private getFilter(): CommandFilter {
+    return parseCommandFilter(this.searchQuery);
+  }
+
+  public async setSearchQuery(): Promise<void> {
+    const input = await vscode.window.showInputBox({
+      prompt: 'Search commands',
+      placeHolder: 'Type to filter by label, command text, description or tag; #tag and is:favorite narrow it down',
+      value: this.searchQuery
+    });
+
+    if (typeof input === 'undefined') {
+      return;
+    }
+
+    this.searchQuery = input.trim();
+    void this.storage?.update(FILTER_STATE_KEY, this.searchQuery);
+    this.refresh();
+  }
+
+  public getViewMode(): CommandViewMode {
+    return this.viewMode;
+  }
+
+  public toggleViewMode(): void {
+    this.viewMode = this.viewMode === 'folders' ? 'tags' : 'folders';
+    void this.storage?.update(VIEW_MODE_STATE_KEY, this.viewMode);
+    this.refresh();
+  }
+
   private async getFolderChildren(folderElement: CommandTreeItem): Promise<CommandTreeItem[]> {
     const folder = folderElement.getFolder();
     if (!folder) {
@@ -109,9 +288,46 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
 
     const items: CommandTreeItem[] = [];
 
+    if (folderElement.isRunningProcesses()) {
+      return BackgroundProcessManager.getInstance().getProcesses().map(process => new CommandTreeItem(
+        { id: process.commandId, label: process.label, command: process.command, terminal: process.config },
+        'process',
+        folderElement,
+        [],
+        undefined,
+        process
+      ));
+    }
+
+    const filter = this.getFilter();
+    const filtering = !isEmptyFilter(filter);
+
+    if (folderElement.isWorkspaceRoot()) {
+      this.configManager.getConfig().folders.forEach((topLevelFolder, index) => {
+        if (topLevelFolder.workspaceRoot === folder.workspaceRoot && (!filtering || folderHasMatch(topLevelFolder, filter))) {
+          items.push(new CommandTreeItem(topLevelFolder, 'folder', folderElement, [index]));
+        }
+      });
+      return items;
+    }
+
+    if (folderElement.isCommandGroup()) {
+      // Grouped commands keep the path and index of where they are stored, so editing and moving them works
+      (this.groupedCommands.get(folderElement.id!) ?? []).forEach(entry => {
+        const commandItem = this.createCommandItem(entry.command, folderElement, entry.folderPath, entry.index);
+        commandItem.id = `${folderElement.id}/command:${entry.command.id}`;
+        this.trackCommandItem(commandItem);
+        items.push(commandItem);
+      });
+      return items;
+    }
+
     // Add subfolders first
     if (folder.subfolders) {
       folder.subfolders.forEach((subfolder, index) => {
+        if (filtering && !folderHasMatch(subfolder, filter)) {
+          return;
+        }
         const subfolderItem = new CommandTreeItem(subfolder, 'folder', folderElement, [...folderElement.getFolderPath(), index]);
         items.push(subfolderItem);
       });
@@ -119,22 +335,39 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
 
     // Add commands
     folder.commands.forEach((command, index) => {
-      const commandItem = new CommandTreeItem(command, 'command', folderElement, folderElement.getFolderPath(), index);
-      // Track command items for state updates
-      this.commandTreeItems.set(command.id, commandItem);
+      if (filtering && !matchesCommandFilter(command, filter)) {
+        return;
+      }
+      const commandItem = this.createCommandItem(command, folderElement, folderElement.getFolderPath(), index);
+      this.trackCommandItem(commandItem);
       items.push(commandItem);
     });
 
     return items;
   }
 
+  private createCommandItem(command: Command, parent: CommandTreeItem, folderPath: number[], index: number): CommandTreeItem {
+    const commandItem = new CommandTreeItem(command, 'command', parent, folderPath, index);
+    const state = this.getDisplayedState(command.id);
+    if (state !== ExecutionState.Idle) {
+      commandItem.executionState = state;
+    }
+    return commandItem;
+  }
+
+  // Track command items for state updates
+  private trackCommandItem(commandItem: CommandTreeItem): void {
+    this.commandTreeItems.set(commandItem.id!, commandItem);
+  }
+
   public getParent(element: CommandTreeItem): vscode.ProviderResult<CommandTreeItem> {
     return element.parent;
   }
 
   public async findCommandById(commandId: string): Promise<Command | undefined> {
     const config = this.configManager.getConfig();
-    return this.findCommandInFolders(commandId, config.folders);
+    return this.findCommandInFolders(commandId, config.folders)
+      ?? this.getImportedCommands().find(command => command.id === commandId);
   }
 
   private findCommandInFolders(commandId: string, folders: Folder[]): Command | undefined {
@@ -180,7 +413,11 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
 
   public async getAllCommands(): Promise<Command[]> {
     const config = this.configManager.getConfig();
-    return [...this.getAllCommandsFromFolders(config.folders), ...this.importedTasks];
+    return [...this.getAllCommandsFromFolders(config.folders), ...this.getImportedCommands()];
+  }
+
+  private getImportedCommands(): Command[] {
+    return [...this.importedTasks, ...Array.from(this.sourceCommands.values()).flat()];
   }
 
   private getAllCommandsFromFolders(folders: Folder[]): Command[] {
@@ -217,11 +454,30 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
   }
 
   public setCommandExecutionState(commandId: string, state: ExecutionState): void {
-    const treeItem = this.commandTreeItems.get(commandId);
-    if (treeItem) {
-      treeItem.executionState = state;
-      this._onDidChangeTreeData.fire(treeItem);
+    // A command with a live background process keeps showing as running
+    if (BackgroundProcessManager.getInstance().isRunning(commandId)) {
+      state = ExecutionState.Running;
+    }
+
+    if (state === ExecutionState.Idle) {
+      this.executionStates.delete(commandId);
+    } else {
+      this.executionStates.set(commandId, state);
+    }
+
+    this.commandTreeItems.forEach(treeItem => {
+      if (treeItem.getCommand()?.id === commandId) {
+        treeItem.executionState = this.getDisplayedState(commandId);
+        this._onDidChangeTreeData.fire(treeItem);
+      }
+    });
+  }
+
+  private getDisplayedState(commandId: string): ExecutionState {
+    if (this.startingCommands.has(commandId)) {
+      return ExecutionState.Starting;
     }
+    return this.executionStates.get(commandId) ?? ExecutionState.Idle;
   }
 
   public setCommandRunning(commandId: string): void {
@@ -296,7 +552,7 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
       }
     }
 
-    if (!dragItems || dragItems.length === 0) {
+    if (!dragItems || dragItems.length === 0 || target?.isCommandGroup()) {
       return;
     }
 
@@ -305,6 +561,19 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
 
     const dropPosition = this.extractDropPosition(dataTransfer);
 
+    if (target?.isWorkspaceRoot()) {
+      // Dropping a top-level folder on a workspace folder moves it to that root's commands.json
+      const workspaceRoot = target.getFolder()!.workspaceRoot;
+      for (const item of dragItems) {
+        const folder = item.kind === 'folder' && item.path.length === 1 ? config.folders[item.path[0]] : undefined;
+        if (folder && folder.workspaceRoot !== workspaceRoot) {
+          folder.workspaceRoot = workspaceRoot;
+          changed = true;
+        }
+      }
+      dragItems = [];
+    }
+
     for (const item of dragItems) {
       if (item.kind === 'command') {
         if (this.moveCommand(config, item, target, dropPosition)) {
@@ -595,6 +864,23 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
     }
   }
 
+  /** Changes the stored command behind a tree item, such as its tags or favorite flag, and saves */
+  public async updateCommand(item: CommandTreeItem, update: (command: Command) => void): Promise<void> {
+    const command = item.getCommand();
+    if (!command || command.readOnly) {
+      return;
+    }
+
+    const config = this.configManager.getConfig();
+    const stored = getFolderAtPath(config, item.getFolderPath())?.commands.find(existing => existing.id === command.id);
+    if (!stored) {
+      return;
+    }
+
+    update(stored);
+    await this.saveAndRefresh(config);
+  }
+
   public async saveAndRefresh(config: CommandConfig): Promise<void> {
     await this.configManager.saveConfig(config);
     this.refresh();
@@ -618,8 +904,9 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
           return;
         }
         const indent = depth > 0 ? `${'  '.repeat(depth - 1)}• ` : '';
+        const rootSuffix = depth === 0 && folder.workspaceRoot && isMultiRootWorkspace() ? ` (${folder.workspaceRoot})` : '';
         items.push({
-          label: `${indent}${folder.name}`,
+          label: `${indent}${folder.name}${rootSuffix}`,
           path: currentPath
         });
 
@@ -638,6 +925,8 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
     this.commandTreeItems.clear();
     this.configManager = null as any;
     this.tasksWatcher?.dispose();
+    this.sourceWatchers.forEach(watcher => watcher.dispose());
+    this.processListeners.forEach(listener => listener.dispose());
   }
 
   private async initializeWorkspaceTasks(): Promise<void> {
@@ -683,6 +972,33 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
     });
   }
 
+  private async initializeWorkspaceSources(): Promise<void> {
+    if (!this.workspaceRoot) {
+      return;
+    }
+
+    const workspaceRoot = this.workspaceRoot;
+    await Promise.all(WORKSPACE_COMMAND_SOURCES.map(async source => {
+      const reload = () => void this.reloadWorkspaceSource(source, workspaceRoot);
+      const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceRoot, source.watchPattern));
+      watcher.onDidChange(reload);
+      watcher.onDidCreate(reload);
+      watcher.onDidDelete(reload);
+      this.sourceWatchers.push(watcher);
+      await this.reloadWorkspaceSource(source, workspaceRoot);
+    }));
+  }
+
+  private async reloadWorkspaceSource(source: WorkspaceCommandSource, workspaceRoot: string): Promise<void> {
+    try {
+      this.sourceCommands.set(source.source, await source.load(workspaceRoot));
+    } catch {
+      // Like tasks.json, a file that does not parse is skipped until it is fixed
+      this.sourceCommands.delete(source.source);
+    }
+    this.refresh();
+  }
+
   private getTasksFileUri(): vscode.Uri | undefined {
     if (!this.workspaceRoot) {
       return undefined;
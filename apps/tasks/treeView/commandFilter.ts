@@ -0,0 +1,120 @@
+import { Command, Folder } from '../../../src/types';
+
+/** How the Commands tree lists commands: under their folders, or under each of their tags */
+export type CommandViewMode = 'folders' | 'tags';
+
+/** Group holding the commands without tags when the tree is grouped by tag */
+export const UNTAGGED_GROUP = 'Untagged';
+
+export interface CommandFilter {
+  /** Words that must each appear in the label, command text, description or a tag */
+  terms: string[];
+  /** Tags given as `#name` or `tag:name`; a command needs all of them */
+  tags: string[];
+  /** Set by `is:favorite` */
+  favoritesOnly: boolean;
+}
+
+/** A command and where it is stored, so items in grouped views can still be edited and moved */
+export interface LocatedCommand {
+  command: Command;
+  folderPath: number[];
+  index: number;
+}
+
+export interface TagGroup {
+  tag: string;
+  commands: LocatedCommand[];
+}
+
+export function parseCommandFilter(query: string): CommandFilter {
+  const filter: CommandFilter = { terms: [], tags: [], favoritesOnly: false };
+  query.trim().split(/\s+/).filter(Boolean).forEach(token => {
+    const lower = token.toLowerCase();
+    if (lower === 'is:favorite' || lower === 'is:favourite') {
+      filter.favoritesOnly = true;
+    } else if (lower.startsWith('tag:') && lower.length > 4) {
+      filter.tags.push(lower.slice(4));
+    } else if (lower.startsWith('#') && lower.length > 1) {
+      filter.tags.push(lower.slice(1));
+    } else {
+      filter.terms.push(lower);
+    }
+  });
+  return filter;
+}
+
+export function isEmptyFilter(filter: CommandFilter): boolean {
+  return filter.terms.length === 0 && filter.tags.length === 0 && !filter.favoritesOnly;
+}
+
+/** Cleans tags typed as a comma-separated list: trims them, drops a leading # and removes duplicates */
+export function normalizeTags(tags: string | string[]): string[] {
+  const list = Array.isArray(tags) ? tags : tags.split(',');
+  const seen = new Set<string>();
+  return list
+    .map(tag => tag.trim().replace(/^#/, ''))
+    .filter(tag => {
+      if (!tag || seen.has(tag.toLowerCase())) {
+        return false;
+      }
+      seen.add(tag.toLowerCase());
+      return true;
+    });
+}
+
+export function matchesCommandFilter(command: Command, filter: CommandFilter): boolean {
+  if (filter.favoritesOnly && !command.favorite) {
+    return false;
+  }
+
+  const tags = (command.tags ?? []).map(tag => tag.toLowerCase());
+  if (!filter.tags.every(tag => tags.includes(tag))) {
+    return false;
+  }
+
+  const text = [command.label, command.command, command.description ?? '', ...tags].join('\n').toLowerCase();
+  return filter.terms.every(term => text.includes(term));
+}
+
+/** Whether the folder or one of its subfolders holds a command the filter keeps */
+export function folderHasMatch(folder: Folder, filter: CommandFilter): boolean {
+  return folder.commands.some(command => matchesCommandFilter(command, filter))
+    || (folder.subfolders ?? []).some(subfolder => folderHasMatch(subfolder, filter));
+}
+
+export function locateCommands(folders: Folder[], parentPath: number[] = []): LocatedCommand[] {
+  return folders.flatMap((folder, folderIndex) => {
+    const folderPath = [...parentPath, folderIndex];
+    return [
+      ...folder.commands.map((command, index) => ({ command, folderPath, index })),
+      ...locateCommands(folder.subfolders ?? [], folderPath)
+    ];
+  });
+}
+
+/**
+ * Groups commands under each of their tags, sorted by tag, with the
+ * untagged ones last. A command with several tags is in several groups.
+ */
+export function groupByTag(commands: LocatedCommand[]): TagGroup[] {
+  const groups = new Map<string, TagGroup>();
+  const untagged: LocatedCommand[] = [];
+
+  commands.forEach(entry => {
+    const tags = normalizeTags(entry.command.tags ?? []);
+    if (tags.length === 0) {
+      untagged.push(entry);
+    }
+    tags.forEach(tag => {
+      const key = tag.toLowerCase();
+      if (!groups.has(key)) {
+        groups.set(key, { tag, commands: [] });
+      }
+      groups.get(key)!.commands.push(entry);
+    });
+  });
+
+  const sorted = Array.from(groups.values()).sort((a, b) => a.tag.localeCompare(b.tag));
+  return untagged.length > 0 ? [...sorted, { tag: UNTAGGED_GROUP, commands: untagged }] : sorted;
+}
@@ -4,6 +4,7 @@ import { ConfigManager } from '../../src/config/ConfigManager';
 import { TerminalManager } from '../../src/execution/TerminalManager';
 import { TerminalConfig, TestRunnerConfig } from '../../src/types';
 import { getResolver } from './resolvers/TestExecutionResolver';
+import { getWorkspaceFolder, resolveWorkspacePath } from '../../src/utils/workspaceFolders';
 
 export interface DiscoveredTest {
   id: string;
@@ -173,7 +174,7 @@ export class TestRunnerManager {
       exclude: excludeGlob
     });
     
-    const files = await vscode.workspace.findFiles(includeGlob, excludeGlob);
+    const files = await vscode.workspace.findFiles(this.getDiscoveryPattern(config, includeGlob), excludeGlob);
     
     DebugLogger.log(DebugTag.DISCOVERY, `Found ${files.length} files matching file type`, {
       fileCount: files.length
@@ -272,7 +273,7 @@ export class TestRunnerManager {
     const includeGlob = this.getGlobForFileType(config.fileType);
     const excludeGlob = this.getIgnorePatterns(config.fileType);
     
-    const files = await vscode.workspace.findFiles(includeGlob, excludeGlob);
+    const files = await vscode.workspace.findFiles(this.getDiscoveryPattern(config, includeGlob), excludeGlob);
     
     const patternEntries = config.fileNamePattern
       .split(/\r?\n/)
@@ -383,11 +384,37 @@ export class TestRunnerManager {
     }
   }
 
+  /**
+   * The workspace folder a runner belongs to: its explicit binding, then the root
+   * whose commands.json defines it, then the folder owning `resource`.
+   */
+  private getRunnerWorkspaceFolder(config: TestRunnerConfig, resource?: vscode.Uri): vscode.WorkspaceFolder | undefined {
+    const boundFolder = config.workspaceFolder || ConfigManager.getInstance().getTestRunnerWorkspaceRoot(config.id);
+    return getWorkspaceFolder(boundFolder, resource);
+  }
+
+  private getDiscoveryPattern(config: TestRunnerConfig, includeGlob: string): vscode.GlobPattern {
+    // Unbound runners search every workspace folder
+    if (!config.workspaceFolder && !ConfigManager.getInstance().getTestRunnerWorkspaceRoot(config.id)) {
+      return includeGlob;
+    }
+
+    const workspaceFolder = this.getRunnerWorkspaceFolder(config);
+    return workspaceFolder ? new vscode.RelativePattern(workspaceFolder, includeGlob) : includeGlob;
+  }
+
+  private resolveRunnerWorkingDirectory(config: TestRunnerConfig, resource?: vscode.Uri): string | undefined {
+    return resolveWorkspacePath(config.workingDirectory || undefined, this.getRunnerWorkspaceFolder(config, resource)?.name);
+  }
+
   public async runTest(config: TestRunnerConfig, testName: string, additionalReplacements?: Record<string, string>): Promise<void> {
     const terminalConfig: TerminalConfig = {
       type: 'vscode-new',
       name: config.terminalName || config.title,
-      cwd: config.workingDirectory || undefined
+      cwd: this.resolveRunnerWorkingDirectory(
+        config,
+        additionalReplacements?.file ? vscode.Uri.file(additionalReplacements.file) : undefined
+      )
     };
 
     // Extract test case (class name) from test name
@@ -427,13 +454,14 @@ export class TestRunnerManager {
       // Determine base path for Python module resolution
       // If workingDirectory is set, use it as the base; otherwise use workspace root
       let basePath = '';
-      if (config.workingDirectory && vscode.workspace.workspaceFolders?.[0]) {
-        // Resolve working directory relative to workspace root
-        const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath.replace(/\\/g, '/');
+      const workspaceFolder = this.getRunnerWorkspaceFolder(config, vscode.Uri.file(filePath));
+      if (config.workingDirectory && workspaceFolder) {
+        // Resolve working directory relative to the runner's workspace folder
+        const workspaceRoot = workspaceFolder.uri.fsPath.replace(/\\/g, '/');
         const workingDir = path.resolve(workspaceRoot, config.workingDirectory).replace(/\\/g, '/');
         basePath = workingDir;
-      } else if (vscode.workspace.workspaceFolders?.[0]) {
-        basePath = vscode.workspace.workspaceFolders[0].uri.fsPath.replace(/\\/g, '/');
+      } else if (workspaceFolder) {
+        basePath = workspaceFolder.uri.fsPath.replace(/\\/g, '/');
       }
       
       if (basePath && normalizedPath.startsWith(basePath)) {
@@ -442,8 +470,8 @@ export class TestRunnerManager {
       }
       
       // For test_path, use workspace-relative path
-      if (vscode.workspace.workspaceFolders?.[0]) {
-        const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath.replace(/\\/g, '/');
+      if (workspaceFolder) {
+        const workspaceRoot = workspaceFolder.uri.fsPath.replace(/\\/g, '/');
         if (normalizedPath.startsWith(workspaceRoot)) {
           relativePath = normalizedPath.substring(workspaceRoot.length + 1); // +1 to remove leading /
           relativePath = relativePath.replace(/\.[^.]+$/, ''); // Remove extension from relative path
@@ -516,7 +544,7 @@ export class TestRunnerManager {
     const terminalConfig: TerminalConfig = {
       type: 'vscode-new',
       name: config.terminalName || config.title,
-      cwd: config.workingDirectory || undefined
+      cwd: this.resolveRunnerWorkingDirectory(config, tests[0].file)
     };
 
     // Get file path from first test for other variables
@@ -530,8 +558,9 @@ export class TestRunnerManager {
     const testFile = filenameWithExt.replace(/\.[^.]+$/, '');
 
     let testPath = '';
-    if (vscode.workspace.workspaceFolders?.[0]) {
-      const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath.replace(/\\/g, '/');
+    const workspaceFolder = this.getRunnerWorkspaceFolder(config, firstTest.file);
+    if (workspaceFolder) {
+      const workspaceRoot = workspaceFolder.uri.fsPath.replace(/\\/g, '/');
       if (normalizedPath.startsWith(workspaceRoot)) {
         testPath = normalizedPath.substring(workspaceRoot.length + 1).replace(/\.[^.]+$/, '');
       }
@@ -594,7 +623,7 @@ export class TestRunnerManager {
     const terminalConfig: TerminalConfig = {
       type: 'vscode-new',
       name: config.terminalName || config.title,
-      cwd: config.workingDirectory || undefined
+      cwd: this.resolveRunnerWorkingDirectory(config, tests[0].file)
     };
 
     // Get file path from first test for other variables
@@ -608,8 +637,9 @@ export class TestRunnerManager {
     const testFile = filenameWithExt.replace(/\.[^.]+$/, '');
 
     let testPath = '';
-    if (vscode.workspace.workspaceFolders?.[0]) {
-      const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath.replace(/\\/g, '/');
+    const workspaceFolder = this.getRunnerWorkspaceFolder(config, firstTest.file);
+    if (workspaceFolder) {
+      const workspaceRoot = workspaceFolder.uri.fsPath.replace(/\\/g, '/');
       if (normalizedPath.startsWith(workspaceRoot)) {
         testPath = normalizedPath.substring(workspaceRoot.length + 1);
         testPath = testPath.replace(/\.[^.]+$/, '');
@@ -640,7 +670,10 @@ export class TestRunnerManager {
     const terminalConfig: TerminalConfig = {
       type: 'vscode-new',
       name: terminalName,
-      cwd: config.workingDirectory || undefined
+      cwd: this.resolveRunnerWorkingDirectory(
+        config,
+        additionalReplacements?.file ? vscode.Uri.file(additionalReplacements.file) : undefined
+      )
     };
 
     // Build all test variables from file path
@@ -672,13 +705,14 @@ export class TestRunnerManager {
       // Determine base path for Python module resolution
       // If workingDirectory is set, use it as the base; otherwise use workspace root
       let basePath = '';
-      if (config.workingDirectory && vscode.workspace.workspaceFolders?.[0]) {
-        // Resolve working directory relative to workspace root
-        const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath.replace(/\\/g, '/');
+      const workspaceFolder = this.getRunnerWorkspaceFolder(config, vscode.Uri.file(filePath));
+      if (config.workingDirectory && workspaceFolder) {
+        // Resolve working directory relative to the runner's workspace folder
+        const workspaceRoot = workspaceFolder.uri.fsPath.replace(/\\/g, '/');
         const workingDir = path.resolve(workspaceRoot, config.workingDirectory).replace(/\\/g, '/');
         basePath = workingDir;
-      } else if (vscode.workspace.workspaceFolders?.[0]) {
-        basePath = vscode.workspace.workspaceFolders[0].uri.fsPath.replace(/\\/g, '/');
+      } else if (workspaceFolder) {
+        basePath = workspaceFolder.uri.fsPath.replace(/\\/g, '/');
       }
       
       if (basePath && normalizedPath.startsWith(basePath)) {
@@ -687,8 +721,8 @@ export class TestRunnerManager {
       }
       
       // For test_path, use workspace-relative path
-      if (vscode.workspace.workspaceFolders?.[0]) {
-        const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath.replace(/\\/g, '/');
+      if (workspaceFolder) {
+        const workspaceRoot = workspaceFolder.uri.fsPath.replace(/\\/g, '/');
         if (normalizedPath.startsWith(workspaceRoot)) {
           relativePath = normalizedPath.substring(workspaceRoot.length + 1); // +1 to remove leading /
           relativePath = relativePath.replace(/\.[^.]+$/, ''); // Remove extension from relative path
@@ -723,7 +757,10 @@ export class TestRunnerManager {
     const terminalConfig: TerminalConfig = {
       type: 'vscode-new',
       name: config.terminalName || config.title,
-      cwd: config.workingDirectory || undefined
+      cwd: this.resolveRunnerWorkingDirectory(
+        config,
+        additionalReplacements?.file ? vscode.Uri.file(additionalReplacements.file) : undefined
+      )
     };
 
     // Build all test variables from file path
@@ -755,13 +792,14 @@ export class TestRunnerManager {
       // Determine base path for Python module resolution
       // If workingDirectory is set, use it as the base; otherwise use workspace root
       let basePath = '';
-      if (config.workingDirectory && vscode.workspace.workspaceFolders?.[0]) {
-        // Resolve working directory relative to workspace root
-        const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath.replace(/\\/g, '/');
+      const workspaceFolder = this.getRunnerWorkspaceFolder(config, vscode.Uri.file(filePath));
+      if (config.workingDirectory && workspaceFolder) {
+        // Resolve working directory relative to the runner's workspace folder
+        const workspaceRoot = workspaceFolder.uri.fsPath.replace(/\\/g, '/');
         const workingDir = path.resolve(workspaceRoot, config.workingDirectory).replace(/\\/g, '/');
         basePath = workingDir;
-      } else if (vscode.workspace.workspaceFolders?.[0]) {
-        basePath = vscode.workspace.workspaceFolders[0].uri.fsPath.replace(/\\/g, '/');
+      } else if (workspaceFolder) {
+        basePath = workspaceFolder.uri.fsPath.replace(/\\/g, '/');
       }
       
       if (basePath && normalizedPath.startsWith(basePath)) {
@@ -770,8 +808,8 @@ export class TestRunnerManager {
       }
       
       // For test_path, use workspace-relative path
-      if (vscode.workspace.workspaceFolders?.[0]) {
-        const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath.replace(/\\/g, '/');
+      if (workspaceFolder) {
+        const workspaceRoot = workspaceFolder.uri.fsPath.replace(/\\/g, '/');
         if (normalizedPath.startsWith(workspaceRoot)) {
           relativePath = normalizedPath.substring(workspaceRoot.length + 1); // +1 to remove leading /
           relativePath = relativePath.replace(/\.[^.]+$/, ''); // Remove extension from relative path
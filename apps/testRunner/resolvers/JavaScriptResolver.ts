@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { TestExecutionResolver, getModulePath } from './TestExecutionResolver';
+import { getWorkspaceFolder } from '../../../src/utils/workspaceFolders';
 import { DiscoveredTest } from '../TestRunnerManager';
 
 export class JavaScriptResolver implements TestExecutionResolver {
@@ -12,8 +13,9 @@ export class JavaScriptResolver implements TestExecutionResolver {
     // For JavaScript, return the file path (relative to workspace or working directory)
     const firstTest = tests[0];
     
-    if (config.workingDirectory && vscode.workspace.workspaceFolders?.[0]) {
-      const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath;
+    const workspaceFolder = getWorkspaceFolder(undefined, firstTest.file);
+    if (config.workingDirectory && workspaceFolder) {
+      const workspaceRoot = workspaceFolder.uri.fsPath;
       const workingDir = path.resolve(workspaceRoot, config.workingDirectory);
       const relativePath = path.relative(workingDir, firstTest.file.fsPath);
       return relativePath.replace(/\\/g, '/');
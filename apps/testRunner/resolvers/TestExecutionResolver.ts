@@ -1,6 +1,7 @@
 import { DiscoveredTest } from '../TestRunnerManager';
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { getWorkspaceFolder } from '../../../src/utils/workspaceFolders';
 
 /**
  * Base interface for test execution resolvers.
@@ -34,7 +35,9 @@ export interface TestExecutionResolver {
  * Helper function to get the workspace-relative module path for a file.
  */
 export function getModulePath(fileUri: vscode.Uri, workingDirectory?: string): string {
-  if (!vscode.workspace.workspaceFolders?.[0]) {
+  // In multi-root workspaces the path is relative to the folder that owns the file
+  const workspaceFolder = getWorkspaceFolder(undefined, fileUri);
+  if (!workspaceFolder) {
     // Fallback: try to use asRelativePath if available
     try {
       const relativePath = vscode.workspace.asRelativePath(fileUri, false);
@@ -45,7 +48,7 @@ export function getModulePath(fileUri: vscode.Uri, workingDirectory?: string): s
     }
   }
 
-  const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath.replace(/\\/g, '/');
+  const workspaceRoot = workspaceFolder.uri.fsPath.replace(/\\/g, '/');
   const filePath = fileUri.fsPath.replace(/\\/g, '/');
   
   // If workingDirectory is specified, use it as the base (to exclude it from module path)
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import { ConfigManager } from '../../src/config/ConfigManager';
 import { Timer, TimerFolder, TimeTrackerConfig, SubTimer } from '../../src/types';
 import * as crypto from 'crypto';
+import * as path from 'path';
 import { TimerHelpers } from './utils/TimerHelpers';
 
 export class TimeTrackerManager {
@@ -796,13 +797,41 @@ export class TimeTrackerManager {
       // Not a git repo or git not available
     }
 
-    // Watch .git/HEAD file for branch changes
-    const headWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceFolders[0], '.git/HEAD'));
+    // Watch every repository in the workspace; roots of a monorepo share one
+    for (const repository of this.getGitRepositories(workspaceFolders)) {
+      this.watchGitRepository(repository.gitDir, repository.cwd);
+    }
+  }
+
+  private getGitRepositories(workspaceFolders: readonly vscode.WorkspaceFolder[]): Array<{ gitDir: string; cwd: string }> {
+    const { execSync } = require('child_process');
+    const repositories = new Map<string, string>();
+
+    for (const folder of workspaceFolders) {
+      let gitDir = path.join(folder.uri.fsPath, '.git');
+      try {
+        gitDir = execSync('git rev-parse --absolute-git-dir', { cwd: folder.uri.fsPath, encoding: 'utf8' }).trim();
+      } catch (error) {
+        // Not a git repo yet; watch where one would be created
+      }
+      if (!repositories.has(gitDir)) {
+        repositories.set(gitDir, folder.uri.fsPath);
+      }
+    }
+
+    return Array.from(repositories, ([gitDir, cwd]) => ({ gitDir, cwd }));
+  }
+
+  private watchGitRepository(gitDir: string, cwd: string): void {
+    const gitDirUri = vscode.Uri.file(gitDir);
+
+    // Watch HEAD for branch changes
+    const headWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(gitDirUri, 'HEAD'));
     
     headWatcher.onDidChange(async () => {
       try {
         const { execSync } = require('child_process');
-        const newBranch = execSync('git rev-parse --abbrev-ref HEAD', { cwd: workspaceFolders[0].uri.fsPath, encoding: 'utf8' }).trim();
+        const newBranch = execSync('git rev-parse --abbrev-ref HEAD', { cwd, encoding: 'utf8' }).trim();
         if (newBranch !== this.currentBranch) {
           await this.handleBranchCheckout(newBranch);
         }
@@ -811,14 +840,14 @@ export class TimeTrackerManager {
       }
     });
 
-    // Watch .git/logs/HEAD for commits
-    const logsWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceFolders[0], '.git/logs/HEAD'));
+    // Watch logs/HEAD for commits
+    const logsWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(gitDirUri, 'logs/HEAD'));
     let lastCommitHash: string | undefined;
     
     // Get initial commit hash
     try {
       const { execSync } = require('child_process');
-      const result = execSync('git rev-parse HEAD', { cwd: workspaceFolders[0].uri.fsPath, encoding: 'utf8' }).trim();
+      const result = execSync('git rev-parse HEAD', { cwd, encoding: 'utf8' }).trim();
       lastCommitHash = result;
     } catch (error) {
       // Ignore
@@ -827,12 +856,12 @@ export class TimeTrackerManager {
     logsWatcher.onDidChange(async () => {
       try {
         const { execSync } = require('child_process');
-        const currentCommitHash = execSync('git rev-parse HEAD', { cwd: workspaceFolders[0].uri.fsPath, encoding: 'utf8' }).trim();
+        const currentCommitHash = execSync('git rev-parse HEAD', { cwd, encoding: 'utf8' }).trim();
         
         // Only process if commit hash changed (new commit)
         if (currentCommitHash !== lastCommitHash && lastCommitHash) {
           // Get the commit message
-          const commitMessage = execSync('git log -1 --pretty=%B', { cwd: workspaceFolders[0].uri.fsPath, encoding: 'utf8' }).trim();
+          const commitMessage = execSync('git log -1 --pretty=%B', { cwd, encoding: 'utf8' }).trim();
           await this.handleCommit(commitMessage);
         }
         
@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import { getConfigFileIssues, getConfigFileKind } from './configDiagnostics';
+
+const VALIDATION_DELAY_MS = 300;
+
+/**
+ * Shows the checks made when the configuration is loaded as diagnostics on
+ * the open commands.json and commands-timer.json files, while they are edited.
+ */
+export class ConfigDiagnosticsProvider implements vscode.Disposable {
+  private readonly diagnostics = vscode.languages.createDiagnosticCollection('commands-manager-next');
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly pending = new Map<string, NodeJS.Timeout>();
+
+  constructor() {
+    this.disposables.push(
+      this.diagnostics,
+      vscode.workspace.onDidOpenTextDocument(document => this.validate(document)),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleValidation(event.document)),
+      vscode.workspace.onDidCloseTextDocument(document => {
+        clearTimeout(this.pending.get(document.uri.toString()));
+        this.pending.delete(document.uri.toString());
+        this.diagnostics.delete(document.uri);
+      })
+    );
+    vscode.workspace.textDocuments.forEach(document => this.validate(document));
+  }
+
+  public dispose(): void {
+    this.pending.forEach(timer => clearTimeout(timer));
+    this.pending.clear();
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+
+  private scheduleValidation(document: vscode.TextDocument): void {
+    if (!getConfigFileKind(document.uri.fsPath)) {
+      return;
+    }
+
+    const key = document.uri.toString();
+    clearTimeout(this.pending.get(key));
+    this.pending.set(key, setTimeout(() => {
+      this.pending.delete(key);
+      this.validate(document);
+    }, VALIDATION_DELAY_MS));
+  }
+
+  private validate(document: vscode.TextDocument): void {
+    const kind = document.uri.scheme === 'file' ? getConfigFileKind(document.uri.fsPath) : undefined;
+    if (!kind || document.isClosed) {
+      return;
+    }
+
+    const diagnostics = getConfigFileIssues(document.getText(), kind).map(issue => {
+      const range = new vscode.Range(document.positionAt(issue.offset), document.positionAt(issue.offset + issue.length));
+      const severity = issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning;
+      const diagnostic = new vscode.Diagnostic(range, issue.message, severity);
+      diagnostic.source = 'Commands Manager Next';
+      return diagnostic;
+    });
+    this.diagnostics.set(document.uri, diagnostics);
+  }
+}
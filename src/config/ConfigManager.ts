@@ -2,11 +2,47 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
-import { CommandConfig, TimeTrackerConfig } from '../types';
+import { CommandConfig, Folder, TimeTrackerConfig } from '../types';
 import { getDefaultConfig, validateConfig, getDefaultTimeTrackerConfig, validateTimeTrackerConfig } from './schema';
+import {
+  CONFIG_MIGRATIONS,
+  CURRENT_CONFIG_SCHEMA_VERSION,
+  CURRENT_TIME_TRACKER_SCHEMA_VERSION,
+  formatMigrationReport,
+  getMigrationBackupPath,
+  getSchemaVersion,
+  migrateDocument,
+  MigrationStep,
+  TIME_TRACKER_MIGRATIONS
+} from './migrations';
+import { ConfigLayer, getFolderLayerId, mergeLayers, MergedLayers, splitLayers } from './layers';
+import { collapseTemplates, expandTemplates } from './templates';
+import { mergeRootConfig, RootContribution, serializeConfig, splitRootConfigs } from './workspaceRoots';
+import { DangerDetection, DEFAULT_DANGEROUS_PATTERNS } from '../execution/confirmation';
 
 type StorageLocation = 'workspace' | 'global' | 'both';
 
+export const ROLLBACK_MIGRATION_COMMAND = 'commands-manager-next.tasks.rollbackConfigMigration';
+
+export interface MigrationBackup {
+  filePath: string;
+  backupPath: string;
+}
+
+const MIGRATIONS: Record<'config' | 'timeTracker', { steps: MigrationStep[]; target: number }> = {
+  config: { steps: CONFIG_MIGRATIONS, target: CURRENT_CONFIG_SCHEMA_VERSION },
+  timeTracker: { steps: TIME_TRACKER_MIGRATIONS, target: CURRENT_TIME_TRACKER_SCHEMA_VERSION }
+};
+
+// commands.json files of folders nested in the workspace, each loaded as its own layer
+const NESTED_CONFIG_GLOB = '**/.vscode/commands/commands.json';
+const MAX_NESTED_CONFIGS = 100;
+
+interface AdditionalWorkspaceRoot {
+  name: string;
+  configPath: string;
+}
+
 export class ConfigManager {
   private static instance: ConfigManager | undefined;
   private config: CommandConfig;
@@ -14,6 +50,14 @@ export class ConfigManager {
   private globalConfigPath: string;
   private watcher?: vscode.FileSystemWatcher;
   private globalWatcher?: vscode.FileSystemWatcher;
+  private rootWatchers: vscode.FileSystemWatcher[] = [];
+  private rootContributions = new Map<string, RootContribution>();
+  // Layers behind the current config; empty when a single file is loaded
+  private layers: ConfigLayer[] = [];
+  private layerMerge?: Pick<MergedLayers, 'shadowed' | 'contributions'>;
+  private layerWatchers: vscode.FileSystemWatcher[] = [];
+  private watchedLayerFiles = '';
+  private nestedConfigWatcher?: vscode.FileSystemWatcher;
   private onConfigChangeCallbacks: Array<() => void> = [];
   private timeTrackerConfig: TimeTrackerConfig;
   private timeTrackerConfigPath: string;
@@ -22,8 +66,15 @@ export class ConfigManager {
   private globalTimeTrackerWatcher?: vscode.FileSystemWatcher;
   private onTimeTrackerChangeCallbacks: Array<() => void> = [];
   private pendingMigratedTimeTracker?: TimeTrackerConfig;
+  private lastPlatformWarnings = '';
   private legacyConfigPath: string;
   private legacyTimeTrackerPath: string;
+  private migrationChannel?: vscode.OutputChannel;
+  // Set by a rollback, so the restored files are not upgraded again right away
+  private migrationsPaused = false;
+  private migrationNoticeShown = false;
+  // Layers upgraded in memory are re-read on every load; their report is logged once
+  private reportedInMemoryMigrations = new Set<string>();
 
   private constructor() {
     const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
@@ -61,6 +112,45 @@ export class ConfigManager {
     return config.get<boolean>('preferGlobalCommands', false);
   }
 
+  private shouldLoadNestedFolders(): boolean {
+    const config = vscode.workspace.getConfiguration('commands-manager-next.tasks');
+    return config.get<boolean>('layers.nestedFolders', true);
+  }
+
+  /** The team file from the settings; a directory stands for the commands.json inside it */
+  private getTeamConfigPath(): string | undefined {
+    const config = vscode.workspace.getConfiguration('commands-manager-next.tasks');
+    const configured = config.get<string>('layers.teamPath', '').trim();
+    if (!configured) {
+      return undefined;
+    }
+
+    const expanded = configured.startsWith('~') ? path.join(os.homedir(), configured.slice(1)) : configured;
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!path.isAbsolute(expanded) && !workspaceRoot) {
+      return undefined;
+    }
+
+    const resolved = path.resolve(workspaceRoot ?? '', expanded);
+    const teamPath = path.extname(resolved).toLowerCase() === '.json' ? resolved : path.join(resolved, 'commands.json');
+    // Pointing the team setting at one of our own files would load it twice
+    return teamPath === this.configPath || teamPath === this.globalConfigPath ? undefined : teamPath;
+  }
+
+  /** Dangerous-command detection from the settings: the built-in patterns plus the user's own */
+  public getDangerDetection(): DangerDetection {
+    const config = vscode.workspace.getConfiguration('commands-manager-next.tasks');
+    const extra = config.get<string[]>('confirm.dangerousPatterns', []);
+    return {
+      enabled: config.get<boolean>('confirm.detectDangerous', true),
+      patterns: [...DEFAULT_DANGEROUS_PATTERNS, ...(Array.isArray(extra) ? extra.filter(pattern => typeof pattern === 'string') : [])]
+    };
+  }
+
+  private getPrimaryLayerId(): string {
+    return this.getStorageLocation() === 'global' ? 'user' : 'workspace';
+  }
+
   private shouldAutoCreateDirectory(): boolean {
     const config = vscode.workspace.getConfiguration('commands-manager-next.tasks');
     return config.get<boolean>('autoCreateCommandsDirectory', true);
@@ -203,6 +293,16 @@ export class ConfigManager {
     // Setup configuration change listener for sync
     vscode.workspace.onDidChangeConfiguration(async (event) => {
       await this.handleSyncConfigChange(event);
+      if (event.affectsConfiguration('commands-manager-next.tasks.layers')) {
+        await this.loadConfig();
+        this.notifyConfigChange();
+      }
+    });
+    // Roots added to or removed from a multi-root workspace change which files are merged
+    vscode.workspace.onDidChangeWorkspaceFolders(async () => {
+      this.setupWorkspaceRootWatchers();
+      await this.loadConfig();
+      this.notifyConfigChange();
     });
     // Prime in-memory caches from disk so downstream consumers have data immediately.
     await this.loadConfig();
@@ -234,30 +334,41 @@ export class ConfigManager {
     // Update version and timestamp
     const version = (this.config.version || 0) + 1;
     config.version = version;
+    config.schemaVersion = Math.max(getSchemaVersion(config), CURRENT_CONFIG_SCHEMA_VERSION);
     config.lastModified = new Date().toISOString();
 
     const storageLocation = this.getStorageLocation();
 
+    // Folders of the other layers go back to their own files. A config without
+    // layer tags, such as an import or a backup, only replaces the primary file.
+    const layered = this.layers.length > 1 && config.folders.some(folder => folder.layer);
+    // Commands based on a template only store what they override
+    const storedConfig = collapseTemplates(config);
+    const primaryConfig = layered ? await this.writeLayers(storedConfig) : storedConfig;
+
     // Save to appropriate location(s)
     if (storageLocation === 'workspace') {
-      await this.writeCommandsConfigToDisk(config);
+      await this.writeWorkspaceConfigs(primaryConfig);
       // Check if we should copy to global (incrementally)
       if (this.shouldCopyWorkspaceToGlobal()) {
-        await this.incrementalCopyToGlobal(config);
+        await this.incrementalCopyToGlobal(primaryConfig);
       }
     } else if (storageLocation === 'global') {
-      await this.writeGlobalCommandsConfigToDisk(config);
+      await this.writeGlobalCommandsConfigToDisk(primaryConfig);
       // Check if we should copy to workspace (incrementally)
       if (this.shouldCopyGlobalToWorkspace()) {
-        await this.incrementalCopyToWorkspace(config);
+        await this.incrementalCopyToWorkspace(primaryConfig);
       }
     } else if (storageLocation === 'both') {
-      // When in 'both' mode, save to workspace by default
-      // User can manually edit global config if needed
-      await this.writeCommandsConfigToDisk(config);
+      // The global file is the user layer and was written above
+      await this.writeWorkspaceConfigs(primaryConfig);
     }
 
-    this.config = config;
+    // Resolve again so a changed template reaches its commands right away
+    const savedConfig = expandTemplates(storedConfig);
+    this.tagLayers(savedConfig);
+    this.tagWorkspaceRoots(savedConfig);
+    this.config = savedConfig;
     this.notifyConfigChange();
   }
 
@@ -414,6 +525,19 @@ export class ConfigManager {
       merged.folders = mergeItems(merged.folders, source.folders);
     }
 
+    // Merge templates, which copied commands may reference
+    if (source.templates && source.templates.length > 0) {
+      if (!merged.templates) {
+        merged.templates = [];
+      }
+      const existingTemplateIds = new Set(merged.templates.map(t => t.id));
+      for (const template of source.templates) {
+        if (!existingTemplateIds.has(template.id)) {
+          merged.templates.push(template);
+        }
+      }
+    }
+
     // Merge test runners - add test runners with distinct IDs
     if (source.testRunners && source.testRunners.length > 0) {
       if (!merged.testRunners) {
@@ -480,18 +604,15 @@ export class ConfigManager {
       // Load workspace config if needed
       if (storageLocation === 'workspace' || storageLocation === 'both') {
         await this.ensureCommandsDirectoryExists();
-        await this.migrateLegacyConfigIfNeeded();
+        await this.moveLegacyFileIfNeeded(this.legacyConfigPath, this.configPath);
 
         if (fs.existsSync(this.configPath)) {
           const configData = await fs.promises.readFile(this.configPath, 'utf8');
-          const parsedConfig = JSON.parse(configData);
-
-          // Handle time tracker migration before validation
-          let extractedTimeTracker: TimeTrackerConfig | undefined;
-          if (parsedConfig.timeTracker) {
-            extractedTimeTracker = parsedConfig.timeTracker;
-            delete parsedConfig.timeTracker;
-          }
+          const rawConfig = JSON.parse(configData);
+          // Old versions kept the time tracker here; the migration drops it from this file
+          const extractedTimeTracker: TimeTrackerConfig | undefined = rawConfig.timeTracker;
+          const parsedConfig = await this.migrateFile(this.configPath, rawConfig, 'config');
+          delete parsedConfig.timeTracker;
 
           const validation = validateConfig(parsedConfig);
 
@@ -520,7 +641,7 @@ export class ConfigManager {
         if (fs.existsSync(this.globalConfigPath)) {
           try {
             const configData = await fs.promises.readFile(this.globalConfigPath, 'utf8');
-            const parsedConfig = JSON.parse(configData);
+            const parsedConfig = await this.migrateFile(this.globalConfigPath, JSON.parse(configData), 'config');
 
             const validation = validateConfig(parsedConfig);
 
@@ -555,38 +676,33 @@ export class ConfigManager {
         }
       }
 
-      // Merge configs based on storage location and preferences
-      if (storageLocation === 'workspace') {
-        // If preferGlobal is enabled and global config exists, use it as base
-        if (preferGlobal && globalConfig) {
-          this.config = this.mergeConfigs(globalConfig, workspaceConfig);
-        } else {
-          this.config = workspaceConfig || getDefaultConfig();
-        }
-        if (!workspaceConfig) {
-          await this.writeCommandsConfigToDisk(this.config);
-        }
-      } else if (storageLocation === 'global') {
-        this.config = globalConfig || getDefaultConfig();
+      let primaryConfig: CommandConfig;
+      if (storageLocation === 'global') {
+        primaryConfig = globalConfig || getDefaultConfig();
         if (!globalConfig) {
-          await this.writeGlobalCommandsConfigToDisk(this.config);
+          await this.writeGlobalCommandsConfigToDisk(primaryConfig);
         }
-      } else if (storageLocation === 'both') {
-        // Merge both configs
-        if (preferGlobal && globalConfig) {
-          // Global commands as base, workspace commands added
-          this.config = this.mergeConfigs(globalConfig, workspaceConfig);
-        } else if (workspaceConfig) {
-          // Workspace commands as base, global commands added
-          this.config = this.mergeConfigs(workspaceConfig, globalConfig);
-        } else if (globalConfig) {
-          this.config = globalConfig;
-        } else {
-          this.config = getDefaultConfig();
-          await this.writeCommandsConfigToDisk(this.config);
+      } else {
+        primaryConfig = workspaceConfig || getDefaultConfig();
+        // In 'both' mode an existing global file is enough to start with
+        if (!workspaceConfig && (storageLocation === 'workspace' || !globalConfig)) {
+          await this.writeCommandsConfigToDisk(primaryConfig);
         }
       }
 
+      const layers = await this.collectLayers(storageLocation, primaryConfig, storageLocation === 'global' ? undefined : globalConfig);
+      if (layers.length > 1) {
+        const merged = mergeLayers(layers, this.getPrimaryLayerId());
+        this.config = merged.config;
+        this.layers = layers;
+        this.layerMerge = merged;
+      } else {
+        this.config = primaryConfig;
+        this.layers = [];
+        this.layerMerge = undefined;
+      }
+      this.setupLayerWatchers();
+
       // Ensure essential arrays exist
       if (!this.config.testRunners) {
         this.config.testRunners = [];
@@ -594,6 +710,14 @@ export class ConfigManager {
       if (!this.config.pinnedCommands) {
         this.config.pinnedCommands = [];
       }
+
+      this.rootContributions.clear();
+      if (storageLocation !== 'global') {
+        await this.mergeAdditionalRoots();
+      }
+      this.tagWorkspaceRoots(this.config);
+      this.config = expandTemplates(this.config);
+      this.reportPlatformWarnings();
     } catch (error) {
       // Check if it's just a file-not-found error (first run scenario)
       const isFileNotFound = error instanceof Error &&
@@ -606,6 +730,8 @@ export class ConfigManager {
       }
 
       this.config = getDefaultConfig();
+      this.layers = [];
+      this.layerMerge = undefined;
 
       // Save to appropriate location based on storage setting
       const storageLocation = this.getStorageLocation();
@@ -622,91 +748,273 @@ export class ConfigManager {
     }
   }
 
-  private mergeConfigs(baseConfig: CommandConfig, additionalConfig?: CommandConfig): CommandConfig {
-    if (!additionalConfig) {
-      return baseConfig;
+  private getAdditionalRoots(): AdditionalWorkspaceRoot[] {
+    // An explicit config root replaces per-folder storage entirely
+    if (process.env.COMMAND_MANAGER_CONFIG_ROOT) {
+      return [];
     }
 
-    // Create a deep copy of base config
-    const merged: CommandConfig = JSON.parse(JSON.stringify(baseConfig));
+    return (vscode.workspace.workspaceFolders ?? []).slice(1).map(folder => ({
+      name: folder.name,
+      configPath: path.join(folder.uri.fsPath, '.vscode', 'commands', 'commands.json')
+    }));
+  }
 
-    // Merge folders - add additional folders with distinct names
-    if (additionalConfig.folders && additionalConfig.folders.length > 0) {
-      const baseFolderNames = new Set(merged.folders.map(f => f.name));
-      for (const folder of additionalConfig.folders) {
-        if (!baseFolderNames.has(folder.name)) {
-          merged.folders.push(folder);
-        }
-      }
+  private async readAdditionalRootConfig(root: AdditionalWorkspaceRoot): Promise<CommandConfig | undefined> {
+    if (!fs.existsSync(root.configPath)) {
+      return undefined;
     }
 
-    // Merge test runners - add additional test runners with distinct IDs
-    if (additionalConfig.testRunners && additionalConfig.testRunners.length > 0) {
-      if (!merged.testRunners) {
-        merged.testRunners = [];
+    try {
+      const parsedConfig = await this.migrateFile(root.configPath, JSON.parse(await fs.promises.readFile(root.configPath, 'utf8')), 'config');
+      const validation = validateConfig(parsedConfig);
+      if (!validation.valid) {
+        vscode.window.showWarningMessage(
+          `Invalid configuration file in workspace folder "${root.name}": ${validation.errors.join(', ')}.`
+        );
+        return undefined;
       }
-      const baseRunnerIds = new Set(merged.testRunners.map(r => r.id));
-      for (const runner of additionalConfig.testRunners) {
-        if (!baseRunnerIds.has(runner.id)) {
-          merged.testRunners.push(runner);
-        }
+      return parsedConfig;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showWarningMessage(`Failed to load configuration for workspace folder "${root.name}": ${message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Appends the commands.json of every secondary workspace folder. Folders are
+   * tagged with their root; shared entries already defined earlier keep their
+   * first definition.
+   */
+  private async mergeAdditionalRoots(): Promise<void> {
+    for (const root of this.getAdditionalRoots()) {
+      const rootConfig = await this.readAdditionalRootConfig(root);
+      if (rootConfig) {
+        this.rootContributions.set(root.name, mergeRootConfig(this.config, root.name, rootConfig));
       }
     }
+  }
+
+  private reportPlatformWarnings(): void {
+    const { warnings } = validateConfig(this.config);
+    const summary = warnings.join(' ');
+    // Reloads happen on every save, so only speak up when something changed
+    if (summary && summary !== this.lastPlatformWarnings) {
+      vscode.window.showWarningMessage(summary);
+    }
+    this.lastPlatformWarnings = summary;
+  }
 
-    // Merge pinned commands
-    if (additionalConfig.pinnedCommands && additionalConfig.pinnedCommands.length > 0) {
-      if (!merged.pinnedCommands) {
-        merged.pinnedCommands = [];
+  /**
+   * In a multi-root workspace every top-level folder belongs to a root; folders
+   * without a tag live in the first root's commands.json.
+   */
+  private tagWorkspaceRoots(config: CommandConfig): void {
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    if (workspaceFolders.length < 2 || this.getAdditionalRoots().length === 0) {
+      return;
+    }
+
+    const primaryName = workspaceFolders[0].name;
+    for (const folder of config.folders) {
+      if (!folder.workspaceRoot) {
+        folder.workspaceRoot = primaryName;
       }
-      const basePinnedIds = new Set(merged.pinnedCommands);
-      for (const pinnedId of additionalConfig.pinnedCommands) {
-        if (!basePinnedIds.has(pinnedId)) {
-          merged.pinnedCommands.push(pinnedId);
-        }
+    }
+  }
+
+  private async writeWorkspaceConfigs(config: CommandConfig): Promise<void> {
+    const roots = this.getAdditionalRoots();
+    if (roots.length === 0) {
+      await this.writeCommandsConfigToDisk(config);
+      return;
+    }
+
+    const split = splitRootConfigs(config, roots.map(root => root.name), this.rootContributions);
+    await this.writeCommandsConfigToDisk(split.primary);
+
+    for (const root of roots) {
+      const rootConfig = split.roots.get(root.name);
+      if (rootConfig) {
+        await fs.promises.mkdir(path.dirname(root.configPath), { recursive: true });
+        await fs.promises.writeFile(root.configPath, serializeConfig(rootConfig), 'utf8');
       }
     }
+  }
 
-    // Merge shared variables
-    if (additionalConfig.sharedVariables && additionalConfig.sharedVariables.length > 0) {
-      if (!merged.sharedVariables) {
-        merged.sharedVariables = [];
+  /**
+   * Returns the workspace folder whose commands.json defines the command, or
+   * undefined outside multi-root workspaces.
+   */
+  public getCommandWorkspaceRoot(commandId: string): string | undefined {
+    const containsCommand = (folder: Folder): boolean =>
+      folder.commands.some(command => command.id === commandId) ||
+      (folder.subfolders ?? []).some(containsCommand);
+
+    return this.config.folders.find(containsCommand)?.workspaceRoot;
+  }
+
+  public getTestRunnerWorkspaceRoot(runnerId: string): string | undefined {
+    for (const [rootName, contribution] of this.rootContributions) {
+      if (contribution.testRunners.has(runnerId)) {
+        return rootName;
       }
-      const baseVarKeys = new Set(merged.sharedVariables.map(v => v.key));
-      for (const variable of additionalConfig.sharedVariables) {
-        if (!baseVarKeys.has(variable.key)) {
-          merged.sharedVariables.push(variable);
+    }
+    return undefined;
+  }
+
+  /**
+   * Lists the layers to merge, in the order the tree shows them. Team
+   * commands are the easiest to override and nested folders the hardest;
+   * preferGlobalCommands lets the user file override the workspace file.
+   */
+  private async collectLayers(
+    storageLocation: StorageLocation,
+    primaryConfig: CommandConfig,
+    globalConfig?: CommandConfig
+  ): Promise<ConfigLayer[]> {
+    const preferGlobal = this.shouldPreferGlobalCommands();
+    const primaryLayer: ConfigLayer = storageLocation === 'global'
+      ? { id: 'user', kind: 'user', filePath: this.globalConfigPath, precedence: 2, config: primaryConfig }
+      : { id: 'workspace', kind: 'workspace', filePath: this.configPath, precedence: preferGlobal ? 1 : 2, config: primaryConfig };
+    const userLayer: ConfigLayer | undefined = globalConfig
+      ? { id: 'user', kind: 'user', filePath: this.globalConfigPath, precedence: preferGlobal ? 2 : 1, config: globalConfig }
+      : undefined;
+
+    const folderLayers: ConfigLayer[] = [];
+    if (storageLocation !== 'global') {
+      for (const filePath of await this.findNestedFolderConfigs()) {
+        const relativePath = vscode.workspace.asRelativePath(path.dirname(path.dirname(path.dirname(filePath))));
+        const config = await this.readLayerConfig(filePath, `folder "${relativePath}"`);
+        if (config) {
+          folderLayers.push({ id: getFolderLayerId(relativePath), kind: 'folder', filePath, precedence: 3, config });
         }
       }
     }
 
-    // Merge shared lists
-    if (additionalConfig.sharedLists && additionalConfig.sharedLists.length > 0) {
-      if (!merged.sharedLists) {
-        merged.sharedLists = [];
+    const teamPath = this.getTeamConfigPath();
+    const teamConfig = teamPath ? await this.readLayerConfig(teamPath, 'team') : undefined;
+    const teamLayer: ConfigLayer | undefined = teamPath && teamConfig
+      ? { id: 'team', kind: 'team', filePath: teamPath, precedence: 0, config: teamConfig }
+      : undefined;
+
+    const ordered = preferGlobal
+      ? [userLayer, primaryLayer, ...folderLayers, teamLayer]
+      : [primaryLayer, ...folderLayers, userLayer, teamLayer];
+    return ordered.filter((layer): layer is ConfigLayer => Boolean(layer));
+  }
+
+  private async findNestedFolderConfigs(): Promise<string[]> {
+    // An explicit config root replaces per-folder storage entirely
+    if (process.env.COMMAND_MANAGER_CONFIG_ROOT || !this.shouldLoadNestedFolders() || !vscode.workspace.workspaceFolders?.length) {
+      return [];
+    }
+
+    const ownFiles = new Set([this.configPath, ...this.getAdditionalRoots().map(root => root.configPath)].map(filePath => path.normalize(filePath)));
+    const uris = await vscode.workspace.findFiles(NESTED_CONFIG_GLOB, '**/node_modules/**', MAX_NESTED_CONFIGS);
+    return uris
+      .map(uri => path.normalize(uri.fsPath))
+      .filter(filePath => !ownFiles.has(filePath))
+      .sort();
+  }
+
+  private async readLayerConfig(filePath: string, description: string): Promise<CommandConfig | undefined> {
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    try {
+      // Team and folder files belong to someone else, so they are only upgraded in memory
+      const parsedConfig = await this.migrateFile(filePath, JSON.parse(await fs.promises.readFile(filePath, 'utf8')), 'config', false);
+      const validation = validateConfig(parsedConfig);
+      if (!validation.valid) {
+        vscode.window.showWarningMessage(`Invalid ${description} configuration file: ${validation.errors.join(', ')}.`);
+        return undefined;
       }
-      const baseListKeys = new Set(merged.sharedLists.map(l => l.key));
-      for (const list of additionalConfig.sharedLists) {
-        if (!baseListKeys.has(list.key)) {
-          merged.sharedLists.push(list);
-        }
+      return parsedConfig;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showWarningMessage(`Failed to load the ${description} configuration: ${message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Writes the folders and shared entries of every other layer back to its
+   * file and returns the part that belongs to the primary file. Layers whose
+   * content did not change are not touched.
+   */
+  private async writeLayers(config: CommandConfig): Promise<CommandConfig> {
+    const primaryLayerId = this.getPrimaryLayerId();
+    const parts = splitLayers(config, this.layers.map(layer => layer.id), primaryLayerId, this.layerMerge!);
+    const contentOf = (layerConfig: CommandConfig) => JSON.stringify([
+      layerConfig.folders,
+      layerConfig.templates ?? [],
+      layerConfig.sharedVariables ?? [],
+      layerConfig.sharedLists ?? [],
+      layerConfig.testRunners ?? [],
+      layerConfig.pinnedCommands ?? []
+    ]);
+
+    for (const layer of this.layers) {
+      const part = parts.get(layer.id)!;
+      if (layer.id === primaryLayerId) {
+        layer.config = part;
+        continue;
       }
+
+      const next: CommandConfig = {
+        ...layer.config,
+        folders: part.folders,
+        templates: part.templates ?? [],
+        sharedVariables: part.sharedVariables ?? [],
+        sharedLists: part.sharedLists ?? [],
+        testRunners: part.testRunners ?? [],
+        pinnedCommands: part.pinnedCommands ?? []
+      };
+      if (contentOf(next) === contentOf(layer.config)) {
+        continue;
+      }
+
+      next.version = (layer.config.version || 0) + 1;
+      next.schemaVersion = Math.max(getSchemaVersion(layer.config), CURRENT_CONFIG_SCHEMA_VERSION);
+      next.lastModified = config.lastModified;
+      await fs.promises.mkdir(path.dirname(layer.filePath), { recursive: true });
+      await fs.promises.writeFile(layer.filePath, serializeConfig(next), 'utf8');
+      layer.config = next;
     }
 
-    return merged;
+    return parts.get(primaryLayerId)!;
+  }
+
+  /** New top-level folders belong to the primary layer */
+  private tagLayers(config: CommandConfig): void {
+    if (this.layers.length < 2) {
+      return;
+    }
+
+    const primaryLayerId = this.getPrimaryLayerId();
+    for (const folder of config.folders) {
+      if (!folder.layer && !folder.workspaceRoot) {
+        folder.layer = primaryLayerId;
+      }
+    }
   }
 
   private async loadTimeTrackerConfig(): Promise<void> {
     try {
       if (this.pendingMigratedTimeTracker) {
         // First activation after migration: merge and persist into the dedicated file.
-        this.timeTrackerConfig = this.mergeWithDefaultTimeTracker(this.pendingMigratedTimeTracker);
+        const { document } = migrateDocument(this.pendingMigratedTimeTracker, TIME_TRACKER_MIGRATIONS, CURRENT_TIME_TRACKER_SCHEMA_VERSION);
+        this.timeTrackerConfig = this.mergeWithDefaultTimeTracker(document);
         this.pendingMigratedTimeTracker = undefined;
         await this.saveTimeTrackerConfig(this.timeTrackerConfig, { suppressNotification: true });
         return;
       }
 
       await this.ensureCommandsDirectoryExists(true);
-      await this.migrateLegacyTimeTrackerIfNeeded();
+      await this.moveLegacyFileIfNeeded(this.legacyTimeTrackerPath, this.timeTrackerConfigPath);
 
       const fileExists = fs.existsSync(this.timeTrackerConfigPath);
 
@@ -743,6 +1051,7 @@ export class ConfigManager {
         return;
       }
 
+      parsedConfig = await this.migrateFile(this.timeTrackerConfigPath, parsedConfig, 'timeTracker');
       const validation = validateTimeTrackerConfig(parsedConfig);
 
       if (validation.valid) {
@@ -857,13 +1166,76 @@ export class ConfigManager {
         this.notifyConfigChange();
       });
     }
+
+    // Folders that get a commands.json later become layers too; changes are watched per file
+    if (storageLocation !== 'global') {
+      this.nestedConfigWatcher = vscode.workspace.createFileSystemWatcher(NESTED_CONFIG_GLOB, false, true, true);
+      this.nestedConfigWatcher.onDidCreate(async () => {
+        await this.loadConfig();
+        this.notifyConfigChange();
+      });
+    }
+
+    this.setupWorkspaceRootWatchers();
+  }
+
+  private setupWorkspaceRootWatchers(): void {
+    this.rootWatchers.forEach(watcher => watcher.dispose());
+    this.rootWatchers = [];
+
+    if (this.getStorageLocation() === 'global') {
+      return;
+    }
+
+    for (const root of this.getAdditionalRoots()) {
+      const watcher = vscode.workspace.createFileSystemWatcher(root.configPath);
+      const reload = async () => {
+        await this.loadConfig();
+        this.notifyConfigChange();
+      };
+      watcher.onDidChange(reload);
+      watcher.onDidCreate(reload);
+      watcher.onDidDelete(reload);
+      this.rootWatchers.push(watcher);
+    }
+  }
+
+  /** Watches the team and nested folder files of the last load */
+  private setupLayerWatchers(): void {
+    const teamPath = this.getTeamConfigPath();
+    const files = [
+      ...(teamPath ? [teamPath] : []),
+      ...this.layers.filter(layer => layer.kind === 'folder').map(layer => layer.filePath)
+    ];
+    const key = files.join('\n');
+    if (key === this.watchedLayerFiles) {
+      return;
+    }
+
+    this.watchedLayerFiles = key;
+    this.layerWatchers.forEach(watcher => watcher.dispose());
+    this.layerWatchers = files.map(filePath => {
+      const watcher = vscode.workspace.createFileSystemWatcher(filePath);
+      const reload = async () => {
+        await this.loadConfig();
+        this.notifyConfigChange();
+      };
+      watcher.onDidChange(reload);
+      watcher.onDidCreate(reload);
+      watcher.onDidDelete(reload);
+      return watcher;
+    });
   }
 
   public dispose(): void {
     this.watcher?.dispose();
+    this.layerWatchers.forEach(watcher => watcher.dispose());
+    this.nestedConfigWatcher?.dispose();
     this.globalWatcher?.dispose();
+    this.rootWatchers.forEach(watcher => watcher.dispose());
     this.timeTrackerWatcher?.dispose();
     this.globalTimeTrackerWatcher?.dispose();
+    this.migrationChannel?.dispose();
   }
 
   public async openConfigFile(): Promise<void> {
@@ -926,7 +1298,8 @@ export class ConfigManager {
       folders: Array.isArray(config.folders) ? config.folders : [],
       ignoredBranches: Array.isArray(config.ignoredBranches) ? config.ignoredBranches : [],
       autoCreateOnBranchCheckout: config.autoCreateOnBranchCheckout !== undefined ? config.autoCreateOnBranchCheckout : true,
-      enabled: config.enabled !== undefined ? config.enabled : true
+      enabled: config.enabled !== undefined ? config.enabled : true,
+      schemaVersion: Math.max(getSchemaVersion(config), CURRENT_TIME_TRACKER_SCHEMA_VERSION)
     };
   }
 
@@ -1097,50 +1470,127 @@ export class ConfigManager {
 
   private async writeCommandsConfigToDisk(config: CommandConfig): Promise<void> {
     await this.ensureCommandsDirectoryExists();
-    const configJson = JSON.stringify(config, null, 2);
-    await fs.promises.writeFile(this.configPath, configJson, 'utf8');
+    await fs.promises.writeFile(this.configPath, serializeConfig(config), 'utf8');
   }
 
   private async writeGlobalCommandsConfigToDisk(config: CommandConfig): Promise<void> {
     await this.ensureGlobalDirectoryExists();
-    const configJson = JSON.stringify(config, null, 2);
-    await fs.promises.writeFile(this.globalConfigPath, configJson, 'utf8');
+    await fs.promises.writeFile(this.globalConfigPath, serializeConfig(config), 'utf8');
   }
 
-  private async migrateLegacyConfigIfNeeded(): Promise<void> {
-    if (fs.existsSync(this.configPath) || !fs.existsSync(this.legacyConfigPath)) {
+  /** Moves a file from the pre-`commands/` layout into place, unless the new one already exists */
+  private async moveLegacyFileIfNeeded(legacyPath: string, targetPath: string): Promise<void> {
+    if (fs.existsSync(targetPath) || !fs.existsSync(legacyPath)) {
       return;
     }
 
     try {
       // Ensure target directory exists before attempting migration
-      const commandsDir = path.dirname(this.configPath);
-      if (!fs.existsSync(commandsDir)) {
-        await fs.promises.mkdir(commandsDir, { recursive: true });
-      }
-      await fs.promises.copyFile(this.legacyConfigPath, this.configPath);
-      await fs.promises.unlink(this.legacyConfigPath);
+      await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+      await fs.promises.copyFile(legacyPath, targetPath);
+      await fs.promises.unlink(legacyPath);
+      this.reportMigration([`Moved ${legacyPath} to ${targetPath}`]);
     } catch {
       // Best effort migration; ignore failures.
     }
   }
 
-  private async migrateLegacyTimeTrackerIfNeeded(): Promise<void> {
-    if (fs.existsSync(this.timeTrackerConfigPath) || !fs.existsSync(this.legacyTimeTrackerPath)) {
-      return;
+  /**
+   * Upgrades a parsed file to the current schema and, when `persist` is set,
+   * writes it back after copying the original next to it so the upgrade can
+   * be rolled back. When the backup cannot be written the file is only
+   * upgraded in memory.
+   */
+  private async migrateFile<T>(filePath: string, parsed: T, kind: keyof typeof MIGRATIONS, persist = true): Promise<T> {
+    if (this.migrationsPaused) {
+      return parsed;
     }
 
-    try {
-      // Ensure target directory exists before attempting migration
-      const commandsDir = path.dirname(this.timeTrackerConfigPath);
-      if (!fs.existsSync(commandsDir)) {
-        await fs.promises.mkdir(commandsDir, { recursive: true });
+    const { steps, target } = MIGRATIONS[kind];
+    const result = migrateDocument(parsed, steps, target);
+    if (!result.migrated) {
+      return parsed;
+    }
+
+    if (!persist) {
+      if (!this.reportedInMemoryMigrations.has(filePath)) {
+        this.reportedInMemoryMigrations.add(filePath);
+        this.reportMigration([...formatMigrationReport(filePath, result), '  Not written: the file is not owned by this workspace']);
       }
-      await fs.promises.copyFile(this.legacyTimeTrackerPath, this.timeTrackerConfigPath);
-      await fs.promises.unlink(this.legacyTimeTrackerPath);
+      return result.document;
+    }
+
+    const backupPath = getMigrationBackupPath(filePath);
+    try {
+      await fs.promises.copyFile(filePath, backupPath);
     } catch {
-      // Best effort migration; ignore failures.
+      this.reportMigration([...formatMigrationReport(filePath, result), '  Not written: the original could not be backed up']);
+      return result.document;
+    }
+
+    const content = kind === 'config' ? serializeConfig(result.document as CommandConfig) : JSON.stringify(result.document, null, 2);
+    await fs.promises.writeFile(filePath, content, 'utf8');
+    this.reportMigration(formatMigrationReport(filePath, result, backupPath));
+    this.showMigrationNotice();
+    return result.document;
+  }
+
+  private reportMigration(lines: string[]): void {
+    if (!this.migrationChannel) {
+      this.migrationChannel = vscode.window.createOutputChannel('Commands Manager Next Migrations');
     }
+    const timestamp = new Date().toISOString();
+    lines.forEach(line => this.migrationChannel!.appendLine(`[${timestamp}] ${line}`));
+  }
+
+  private showMigrationNotice(): void {
+    if (this.migrationNoticeShown) {
+      return;
+    }
+    this.migrationNoticeShown = true;
+    void vscode.window.showInformationMessage(
+      'Commands Manager Next upgraded your configuration files to the current format. The originals were backed up.',
+      'Show Changes',
+      'Roll Back'
+    ).then(choice => {
+      if (choice === 'Show Changes') {
+        this.migrationChannel?.show(true);
+      } else if (choice === 'Roll Back') {
+        void vscode.commands.executeCommand(ROLLBACK_MIGRATION_COMMAND);
+      }
+    });
+  }
+
+  /** Files with a pre-migration backup that can still be restored */
+  public getMigrationBackups(): MigrationBackup[] {
+    const files = [
+      this.configPath,
+      this.globalConfigPath,
+      this.timeTrackerConfigPath,
+      ...this.getAdditionalRoots().map(root => root.configPath)
+    ];
+    return Array.from(new Set(files))
+      .map(filePath => ({ filePath, backupPath: getMigrationBackupPath(filePath) }))
+      .filter(backup => fs.existsSync(backup.backupPath));
+  }
+
+  /**
+   * Puts the pre-migration originals back and reloads them as they are.
+   * Migrations stay off for the rest of the session, so an older release
+   * can be installed before the files are upgraded again.
+   */
+  public async rollbackMigrations(backups: MigrationBackup[]): Promise<void> {
+    this.migrationsPaused = true;
+    for (const backup of backups) {
+      await fs.promises.copyFile(backup.backupPath, backup.filePath);
+      await fs.promises.unlink(backup.backupPath);
+      this.reportMigration([`Rolled back ${backup.filePath} to its pre-migration backup`]);
+    }
+
+    await this.loadConfig();
+    await this.loadTimeTrackerConfig();
+    this.notifyConfigChange();
+    this.notifyTimeTrackerChange();
   }
 
   public async importCommands(filePath: string): Promise<void> {
@@ -1156,8 +1606,7 @@ export class ConfigManager {
   }
 
   public async exportCommands(filePath: string): Promise<void> {
-    const configJson = JSON.stringify(this.config, null, 2);
-    await fs.promises.writeFile(filePath, configJson, 'utf8');
+    await fs.promises.writeFile(filePath, serializeConfig(this.config), 'utf8');
   }
 
   public static resetForTests(): void {
@@ -0,0 +1,78 @@
+import * as path from 'path';
+import { findNodeAtLocation, getNodeValue, Node, ParseError, parseTree } from 'jsonc-parser';
+import { collectConfigIssues, collectTimeTrackerIssues, JsonPath, ValidationIssue } from './schema';
+
+export type ConfigFileKind = 'commands' | 'timeTracker';
+
+export interface LocatedIssue extends ValidationIssue {
+  offset: number;
+  length: number;
+}
+
+// Properties that name an object, pointed at when the object itself is the problem
+const NAMING_PROPERTIES = ['label', 'name', 'title', 'id', 'key'];
+
+/** Which of the extension's files this is, from its name and folder */
+export function getConfigFileKind(filePath: string): ConfigFileKind | undefined {
+  const folder = path.basename(path.dirname(filePath));
+  if (folder !== 'commands' && folder !== '.vscode') {
+    return undefined;
+  }
+
+  switch (path.basename(filePath)) {
+    case 'commands.json':
+      return 'commands';
+    case 'commands-timer.json':
+      return 'timeTracker';
+    default:
+      return undefined;
+  }
+}
+
+function rangeOf(node: Node): { offset: number; length: number } {
+  if (node.type !== 'object' && node.type !== 'array') {
+    return { offset: node.offset, length: node.length };
+  }
+
+  // Underlining a whole block would hide the rest of the file, so point at its key or its name
+  const key = node.parent?.type === 'property' ? node.parent.children?.[0] : undefined;
+  if (key) {
+    return { offset: key.offset, length: key.length };
+  }
+  const naming = node.children?.find(property => NAMING_PROPERTIES.includes(property.children?.[0]?.value))?.children?.[1];
+  if (naming) {
+    return { offset: naming.offset, length: naming.length };
+  }
+  return { offset: node.offset, length: 1 };
+}
+
+/**
+ * Finds the text of a JSON path. A missing property, such as an id that was
+ * never written, is reported on the closest value that exists.
+ */
+export function locateJsonPath(root: Node, jsonPath: JsonPath): { offset: number; length: number } {
+  for (let depth = jsonPath.length; depth > 0; depth--) {
+    const node = findNodeAtLocation(root, jsonPath.slice(0, depth));
+    if (node) {
+      return rangeOf(node);
+    }
+  }
+  return rangeOf(root);
+}
+
+/**
+ * Validates the text of a commands.json or commands-timer.json file. Text
+ * that does not parse yields no issues; the JSON language features already
+ * report syntax errors.
+ */
+export function getConfigFileIssues(text: string, kind: ConfigFileKind, platform: NodeJS.Platform = process.platform): LocatedIssue[] {
+  const parseErrors: ParseError[] = [];
+  const root = parseTree(text, parseErrors);
+  if (!root || parseErrors.length > 0) {
+    return [];
+  }
+
+  const value = getNodeValue(root);
+  const issues = kind === 'commands' ? collectConfigIssues(value, platform) : collectTimeTrackerIssues(value);
+  return issues.map(issue => ({ ...issue, ...locateJsonPath(root, issue.path) }));
+}
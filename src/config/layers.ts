@@ -0,0 +1,198 @@
+import { Command, CommandConfig, Folder } from '../types';
+
+/**
+ * Configuration layers, from the broadest to the most specific: a team file,
+ * the user's global file, the workspace file and commands.json files of
+ * folders nested in the workspace.
+ */
+export type ConfigLayerKind = 'team' | 'user' | 'workspace' | 'folder';
+
+export interface ConfigLayer {
+  /** 'team', 'user', 'workspace' or 'folder:<path relative to the workspace>' */
+  id: string;
+  kind: ConfigLayerKind;
+  filePath: string;
+  /** Higher values win when layers define the same command id or shared key */
+  precedence: number;
+  config: CommandConfig;
+}
+
+/** A command hidden because a layer with higher precedence defines the same id */
+export interface ShadowedCommand {
+  layerId: string;
+  shadowedBy: string;
+  /** Names of the folders leading to the command, from the top level */
+  folderNames: string[];
+  index: number;
+  command: Command;
+}
+
+/** Shared entries each layer provided, so saves write them back to the same file */
+export interface LayerContribution {
+  templates: Set<string>;
+  sharedVariables: Set<string>;
+  sharedLists: Set<string>;
+  testRunners: Set<string>;
+  pinnedCommands: Set<string>;
+}
+
+export interface MergedLayers {
+  config: CommandConfig;
+  shadowed: ShadowedCommand[];
+  contributions: Map<string, LayerContribution>;
+}
+
+export function getFolderLayerId(relativePath: string): string {
+  return `folder:${relativePath.split('\\').join('/')}`;
+}
+
+/** Short name of a layer for the tree: team, user, workspace or the nested folder's path */
+export function describeLayer(layerId: string): string {
+  return layerId.startsWith('folder:') ? layerId.slice('folder:'.length) : layerId;
+}
+
+function forEachCommand(folders: Folder[], visit: (command: Command, folderNames: string[], index: number) => void, names: string[] = []): void {
+  folders.forEach(folder => {
+    const folderNames = [...names, folder.name];
+    folder.commands.forEach((command, index) => visit(command, folderNames, index));
+    forEachCommand(folder.subfolders ?? [], visit, folderNames);
+  });
+}
+
+function withoutCommands(folders: Folder[], hidden: Set<Command>): Folder[] {
+  return folders.map(folder => ({
+    ...folder,
+    commands: folder.commands.filter(command => !hidden.has(command)),
+    ...(folder.subfolders ? { subfolders: withoutCommands(folder.subfolders, hidden) } : {})
+  }));
+}
+
+/**
+ * Combines the layers into the config the tree shows. Layers keep their
+ * order and their top-level folders are tagged with the layer id. A command
+ * id defined in several layers is only kept in the one with the highest
+ * precedence; templates, shared variables, lists and test runners are
+ * overridden by key the same way. Other settings, such as the save counter, come from
+ * `primaryLayerId`, the layer new entries are saved to.
+ */
+export function mergeLayers(layers: ConfigLayer[], primaryLayerId: string): MergedLayers {
+  const owners = new Map<string, ConfigLayer>();
+  layers.forEach(layer => forEachCommand(layer.config.folders ?? [], command => {
+    const owner = owners.get(command.id);
+    if (!owner || layer.precedence > owner.precedence) {
+      owners.set(command.id, layer);
+    }
+  }));
+
+  const shadowed: ShadowedCommand[] = [];
+  const contributions = new Map<string, LayerContribution>();
+  const byPrecedence = [...layers].sort((a, b) => b.precedence - a.precedence);
+  const pick = <T>(select: (config: CommandConfig) => T[] | undefined, keyOf: (item: T) => string, record: (contribution: LayerContribution) => Set<string>): T[] => {
+    const picked = new Map<string, T>();
+    byPrecedence.forEach(layer => (select(layer.config) ?? []).forEach(item => {
+      if (!picked.has(keyOf(item))) {
+        picked.set(keyOf(item), item);
+        record(contributions.get(layer.id)!).add(keyOf(item));
+      }
+    }));
+    // Keep the order the layers list them in
+    return layers.flatMap(layer => (select(layer.config) ?? []).filter(item => picked.get(keyOf(item)) === item));
+  };
+
+  layers.forEach(layer => contributions.set(layer.id, {
+    templates: new Set(),
+    sharedVariables: new Set(),
+    sharedLists: new Set(),
+    testRunners: new Set(),
+    pinnedCommands: new Set()
+  }));
+
+  const folders = layers.flatMap(layer => {
+    const hidden = new Set<Command>();
+    forEachCommand(layer.config.folders ?? [], (command, folderNames, index) => {
+      const owner = owners.get(command.id)!;
+      if (owner !== layer) {
+        hidden.add(command);
+        shadowed.push({ layerId: layer.id, shadowedBy: owner.id, folderNames, index, command });
+      }
+    });
+    return withoutCommands(layer.config.folders ?? [], hidden).map(folder => ({ ...folder, layer: layer.id }));
+  });
+
+  return {
+    config: {
+      ...(layers.find(layer => layer.id === primaryLayerId) ?? byPrecedence[0])?.config,
+      folders,
+      templates: pick(config => config.templates, template => template.id, contribution => contribution.templates),
+      sharedVariables: pick(config => config.sharedVariables, variable => variable.key, contribution => contribution.sharedVariables),
+      sharedLists: pick(config => config.sharedLists, list => list.key, contribution => contribution.sharedLists),
+      testRunners: pick(config => config.testRunners, runner => runner.id, contribution => contribution.testRunners),
+      pinnedCommands: pick(config => config.pinnedCommands, id => id, contribution => contribution.pinnedCommands)
+    },
+    shadowed,
+    contributions
+  };
+}
+
+function findFolder(folders: Folder[], names: string[]): Folder | undefined {
+  let current: Folder | undefined;
+  let candidates = folders;
+  for (const name of names) {
+    current = candidates.find(folder => folder.name === name);
+    if (!current) {
+      return undefined;
+    }
+    candidates = current.subfolders ?? [];
+  }
+  return current;
+}
+
+/**
+ * Splits an edited config back into one config per layer. Folders go to the
+ * layer they are tagged with and untagged ones, such as new folders, to
+ * `defaultLayerId`. Shadowed commands return to their place unless their
+ * folder was removed.
+ */
+export function splitLayers(
+  config: CommandConfig,
+  layerIds: string[],
+  defaultLayerId: string,
+  merged: Pick<MergedLayers, 'shadowed' | 'contributions'>
+): Map<string, CommandConfig> {
+  const known = new Set(layerIds);
+  const layerOf = (folder: Folder) => (folder.layer && known.has(folder.layer) ? folder.layer : defaultLayerId);
+  const contributedBy = (select: (contribution: LayerContribution) => Set<string>, key: string) => {
+    for (const [layerId, contribution] of merged.contributions) {
+      if (known.has(layerId) && select(contribution).has(key)) {
+        return layerId;
+      }
+    }
+    return defaultLayerId;
+  };
+
+  const result = new Map<string, CommandConfig>();
+  layerIds.forEach(layerId => {
+    const folders: Folder[] = JSON.parse(JSON.stringify(config.folders.filter(folder => layerOf(folder) === layerId)));
+    folders.forEach(folder => delete folder.layer);
+
+    merged.shadowed
+      .filter(entry => entry.layerId === layerId)
+      .forEach(entry => {
+        const folder = findFolder(folders, entry.folderNames);
+        if (folder && !folder.commands.some(command => command.id === entry.command.id)) {
+          folder.commands.splice(Math.min(entry.index, folder.commands.length), 0, entry.command);
+        }
+      });
+
+    result.set(layerId, {
+      ...config,
+      folders,
+      templates: config.templates?.filter(template => contributedBy(c => c.templates, template.id) === layerId),
+      sharedVariables: config.sharedVariables?.filter(variable => contributedBy(c => c.sharedVariables, variable.key) === layerId),
+      sharedLists: config.sharedLists?.filter(list => contributedBy(c => c.sharedLists, list.key) === layerId),
+      testRunners: config.testRunners?.filter(runner => contributedBy(c => c.testRunners, runner.id) === layerId),
+      pinnedCommands: config.pinnedCommands?.filter(id => contributedBy(c => c.pinnedCommands, id) === layerId)
+    });
+  });
+  return result;
+}
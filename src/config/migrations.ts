@@ -0,0 +1,149 @@
+/**
+ * Schema migrations for commands.json and commands-timer.json.
+ *
+ * Files carry a `schemaVersion`; a file without one predates versioning and
+ * counts as 0. `version` is not used here: it is bumped on every save and
+ * says nothing about the shape of the file. Each step upgrades a document by
+ * exactly one version and only touches the plain JSON, so it can be tested
+ * without VS Code.
+ */
+import * as path from 'path';
+
+export const CURRENT_CONFIG_SCHEMA_VERSION = 1;
+export const CURRENT_TIME_TRACKER_SCHEMA_VERSION = 1;
+
+export interface MigrationStep {
+  /** Version the step upgrades from; the document ends up at `from + 1` */
+  from: number;
+  description: string;
+  /** Changes the document in place and lists what it changed, empty when nothing applied */
+  migrate(document: Record<string, any>): string[];
+}
+
+export interface AppliedMigration {
+  from: number;
+  to: number;
+  description: string;
+  changes: string[];
+}
+
+export interface MigrationResult<T> {
+  document: T;
+  fromVersion: number;
+  toVersion: number;
+  applied: AppliedMigration[];
+  /** True when the document was upgraded and has to be written back */
+  migrated: boolean;
+}
+
+export const CONFIG_MIGRATIONS: MigrationStep[] = [
+  {
+    from: 0,
+    description: 'Split the time tracker out of commands.json and add the lists newer versions expect',
+    migrate: document => {
+      const changes: string[] = [];
+      if (document.timeTracker !== undefined) {
+        delete document.timeTracker;
+        changes.push('Moved the embedded timeTracker section to commands-timer.json');
+      }
+      (['testRunners', 'pinnedCommands'] as const).forEach(key => {
+        if (!Array.isArray(document[key])) {
+          document[key] = [];
+          changes.push(`Added an empty ${key} list`);
+        }
+      });
+      return changes;
+    }
+  }
+];
+
+export const TIME_TRACKER_MIGRATIONS: MigrationStep[] = [
+  {
+    from: 0,
+    description: 'Fill in time tracker defaults and elapsed times of old paused subtimers',
+    migrate: document => {
+      const changes: string[] = [];
+      const defaults: Record<string, unknown> = { ignoredBranches: [], autoCreateOnBranchCheckout: true, enabled: true };
+      Object.entries(defaults).forEach(([key, value]) => {
+        if (document[key] === undefined) {
+          document[key] = value;
+          changes.push(`Set ${key} to its default`);
+        }
+      });
+
+      // Subtimers paused before elapsed time was tracked ran from start to pause
+      let backfilled = 0;
+      const visit = (folders: any[]) => folders.forEach(folder => {
+        (Array.isArray(folder?.timers) ? folder.timers : []).forEach((timer: any) => {
+          (Array.isArray(timer?.subtimers) ? timer.subtimers : []).forEach((subtimer: any) => {
+            if (subtimer && subtimer.totalElapsedTime === undefined && subtimer.startTime && subtimer.endTime) {
+              const elapsed = Date.parse(subtimer.endTime) - Date.parse(subtimer.startTime);
+              if (Number.isFinite(elapsed)) {
+                subtimer.totalElapsedTime = Math.max(elapsed, 0);
+                backfilled++;
+              }
+            }
+          });
+        });
+        visit(Array.isArray(folder?.subfolders) ? folder.subfolders : []);
+      });
+      visit(Array.isArray(document.folders) ? document.folders : []);
+      if (backfilled > 0) {
+        changes.push(`Recorded the elapsed time of ${backfilled} paused ${backfilled === 1 ? 'subtimer' : 'subtimers'}`);
+      }
+      return changes;
+    }
+  }
+];
+
+export function getSchemaVersion(document: unknown): number {
+  const version = (document as { schemaVersion?: unknown } | undefined)?.schemaVersion;
+  return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : 0;
+}
+
+/**
+ * Runs every step from the document's version up to `targetVersion`. The
+ * input is left untouched. Documents written by a newer release are returned
+ * as they are rather than downgraded.
+ */
+export function migrateDocument<T>(document: T, steps: MigrationStep[], targetVersion: number): MigrationResult<T> {
+  const fromVersion = getSchemaVersion(document);
+  if (fromVersion >= targetVersion || !document || typeof document !== 'object') {
+    return { document, fromVersion, toVersion: fromVersion, applied: [], migrated: false };
+  }
+
+  const migrated = JSON.parse(JSON.stringify(document)) as Record<string, any>;
+  const applied: AppliedMigration[] = [];
+  for (let version = fromVersion; version < targetVersion; version++) {
+    const step = steps.find(candidate => candidate.from === version);
+    if (!step) {
+      throw new Error(`No migration from schema version ${version}`);
+    }
+    applied.push({ from: version, to: version + 1, description: step.description, changes: step.migrate(migrated) });
+    migrated.schemaVersion = version + 1;
+  }
+
+  return { document: migrated as T, fromVersion, toVersion: targetVersion, applied, migrated: true };
+}
+
+/** Lines written to the output channel for one migrated file */
+export function formatMigrationReport(filePath: string, result: MigrationResult<unknown>, backupPath?: string): string[] {
+  const lines = [`${filePath}: schema ${result.fromVersion} → ${result.toVersion}`];
+  result.applied.forEach(step => {
+    lines.push(`  v${step.from} → v${step.to}: ${step.description}`);
+    if (step.changes.length === 0) {
+      lines.push('    (nothing to change)');
+    }
+    step.changes.forEach(change => lines.push(`    - ${change}`));
+  });
+  if (backupPath) {
+    lines.push(`  Backup of the original: ${backupPath}`);
+  }
+  return lines;
+}
+
+/** Where the original of a migrated file is kept, e.g. commands-pre-migration.json */
+export function getMigrationBackupPath(filePath: string): string {
+  const extension = path.extname(filePath);
+  return path.join(path.dirname(filePath), `${path.basename(filePath, extension)}-pre-migration${extension}`);
+}
@@ -1,4 +1,10 @@
-import { CommandConfig, TestRunnerConfig, TimeTrackerConfig } from '../types';
+import { CommandConfig, CommandTemplate, CommandVariableType, TestRunnerConfig, TimeTrackerConfig } from '../types';
+import { validateNumberInput } from '../variables/validation';
+import { getUnsupportedTerminalReason } from '../execution/externalTerminal';
+import { CONFIRM_LEVELS } from '../execution/confirmation';
+import { parseCron } from '../execution/scheduler';
+import { CURRENT_CONFIG_SCHEMA_VERSION, CURRENT_TIME_TRACKER_SCHEMA_VERSION } from './migrations';
+import { applyTemplate } from './templates';
 
 export function getDefaultTestRunnerConfig(): TestRunnerConfig {
   return {
@@ -76,7 +82,8 @@ export function getDefaultConfig(): CommandConfig {
         options: ['local', 'staging', 'production'],
         description: 'Common deployment targets'
       }
-    ]
+    ],
+    schemaVersion: CURRENT_CONFIG_SCHEMA_VERSION
   };
 }
 
@@ -85,78 +92,239 @@ export function getDefaultTimeTrackerConfig(): TimeTrackerConfig {
     folders: [],
     ignoredBranches: [],
     autoCreateOnBranchCheckout: true,
-    enabled: true
+    enabled: true,
+    schemaVersion: CURRENT_TIME_TRACKER_SCHEMA_VERSION
   };
 }
 
-export function validateConfig(config: any): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
+export type JsonPath = Array<string | number>;
+
+/** A validation message with the JSON path of the value it is about */
+export interface ValidationIssue {
+  path: JsonPath;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+/**
+ * Errors make a config unusable. Warnings flag commands that load fine but
+ * cannot run on this platform.
+ */
+export function validateConfig(
+  config: any,
+  platform: NodeJS.Platform = process.platform
+): { valid: boolean; errors: string[]; warnings: string[] } {
+  const issues = collectConfigIssues(config, platform);
+  const errors = issues.filter(issue => issue.severity === 'error').map(issue => issue.message);
+  const warnings = issues.filter(issue => issue.severity === 'warning').map(issue => issue.message);
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/** Same checks as validateConfig, keeping where in the file each problem is */
+export function collectConfigIssues(config: any, platform: NodeJS.Platform = process.platform): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const error = (path: JsonPath, ...messages: string[]) =>
+    messages.forEach(message => issues.push({ path, message, severity: 'error' }));
+  const warning = (path: JsonPath, message: string) => issues.push({ path, message, severity: 'warning' });
 
   if (!config || typeof config !== 'object') {
-    errors.push('Config must be an object');
-    return { valid: false, errors };
+    error([], 'Config must be an object');
+    return issues;
   }
 
   if (config.testRunners && !Array.isArray(config.testRunners)) {
-    errors.push('Config testRunners must be an array when provided');
+    error(['testRunners'], 'Config testRunners must be an array when provided');
   }
 
   if (!Array.isArray(config.folders)) {
-    errors.push('Config must have a folders array');
+    error(['folders'], 'Config must have a folders array');
+  }
+
+  const templates = new Map<string, CommandTemplate>();
+  if (config.templates !== undefined && !Array.isArray(config.templates)) {
+    error(['templates'], 'Config templates must be an array when provided');
+  }
+  if (Array.isArray(config.templates)) {
+    config.templates.forEach((template: any, templateIndex: number) => {
+      const templatePath: JsonPath = ['templates', templateIndex];
+      if (!template || typeof template !== 'object') {
+        error(templatePath, `Template ${templateIndex} must be an object`);
+        return;
+      }
+
+      if (!template.id || typeof template.id !== 'string') {
+        error([...templatePath, 'id'], `Template ${templateIndex} must have an id`);
+      } else if (templates.has(template.id)) {
+        error([...templatePath, 'id'], `Template ${templateIndex} reuses the id "${template.id}"`);
+      } else {
+        templates.set(template.id, template);
+      }
+
+      if (!template.label || typeof template.label !== 'string') {
+        error([...templatePath, 'label'], `Template ${templateIndex} must have a label`);
+      }
+
+      if (typeof template.command !== 'string') {
+        error([...templatePath, 'command'], `Template ${templateIndex} must have a command string`);
+      }
+
+      if (!template.terminal || typeof template.terminal !== 'object') {
+        error([...templatePath, 'terminal'], `Template ${templateIndex} must have terminal settings`);
+      }
+
+      if (template.variables !== undefined && !Array.isArray(template.variables)) {
+        error([...templatePath, 'variables'], `Template ${templateIndex} variables must be an array`);
+      }
+    });
   }
 
   if (Array.isArray(config.folders)) {
     config.folders.forEach((folder: any, folderIndex: number) => {
+      const folderPath: JsonPath = ['folders', folderIndex];
       if (!folder || typeof folder !== 'object') {
-        errors.push(`Folder ${folderIndex} must be an object`);
+        error(folderPath, `Folder ${folderIndex} must be an object`);
         return;
       }
 
       if (!folder.name || typeof folder.name !== 'string') {
-        errors.push(`Folder ${folderIndex} must have a name`);
+        error([...folderPath, 'name'], `Folder ${folderIndex} must have a name`);
       }
 
       if (!Array.isArray(folder.commands)) {
-        errors.push(`Folder ${folderIndex} must have a commands array`);
+        error([...folderPath, 'commands'], `Folder ${folderIndex} must have a commands array`);
         return;
       }
 
-      folder.commands.forEach((command: any, commandIndex: number) => {
-        if (!command || typeof command !== 'object') {
-          errors.push(`Command ${commandIndex} in folder ${folderIndex} must be an object`);
+      folder.commands.forEach((storedCommand: any, commandIndex: number) => {
+        const commandPath: JsonPath = [...folderPath, 'commands', commandIndex];
+        if (!storedCommand || typeof storedCommand !== 'object') {
+          error(commandPath, `Command ${commandIndex} in folder ${folderIndex} must be an object`);
           return;
         }
 
+        // A command that references a template is checked with the fields it inherits
+        const templateId = storedCommand.template;
+        if (templateId !== undefined && (typeof templateId !== 'string' || !templates.has(templateId))) {
+          error([...commandPath, 'template'], `Command ${commandIndex} in folder ${folderIndex} references unknown template "${templateId}"`);
+        }
+        const template = typeof templateId === 'string' ? templates.get(templateId) : undefined;
+        const command = template ? applyTemplate(storedCommand, template) : storedCommand;
+
         if (!command.id || typeof command.id !== 'string') {
-          errors.push(`Command ${commandIndex} in folder ${folderIndex} must have an id`);
+          error([...commandPath, 'id'], `Command ${commandIndex} in folder ${folderIndex} must have an id`);
         }
 
         if (!command.label || typeof command.label !== 'string') {
-          errors.push(`Command ${commandIndex} in folder ${folderIndex} must have a label`);
+          error([...commandPath, 'label'], `Command ${commandIndex} in folder ${folderIndex} must have a label`);
+        }
+
+        const hasChainSteps = Array.isArray(command.chain?.steps) && command.chain.steps.length > 0;
+        if (typeof command.command !== 'string' || (!command.command && !hasChainSteps)) {
+          error([...commandPath, 'command'], `Command ${commandIndex} in folder ${folderIndex} must have a command string`);
         }
 
-        if (!command.command || typeof command.command !== 'string') {
-          errors.push(`Command ${commandIndex} in folder ${folderIndex} must have a command string`);
+        if (command.chain !== undefined) {
+          const chainPath: JsonPath = [...commandPath, 'chain'];
+          if (!command.chain || typeof command.chain !== 'object') {
+            error(chainPath, `Command ${commandIndex} in folder ${folderIndex} chain must be an object`);
+          } else {
+            if (!Array.isArray(command.chain.steps) || command.chain.steps.some((step: unknown) => typeof step !== 'string')) {
+              error([...chainPath, 'steps'], `Command ${commandIndex} in folder ${folderIndex} chain steps must be an array of command ids`);
+            } else if (command.chain.steps.includes(command.id)) {
+              error([...chainPath, 'steps', command.chain.steps.indexOf(command.id)], `Command ${commandIndex} in folder ${folderIndex} chain cannot include itself`);
+            }
+
+            if (command.chain.mode !== undefined && command.chain.mode !== 'sequential' && command.chain.mode !== 'parallel') {
+              error([...chainPath, 'mode'], `Command ${commandIndex} in folder ${folderIndex} chain mode must be "sequential" or "parallel"`);
+            }
+
+            if (command.chain.onFailure !== undefined && command.chain.onFailure !== 'stop' && command.chain.onFailure !== 'continue') {
+              error([...chainPath, 'onFailure'], `Command ${commandIndex} in folder ${folderIndex} chain onFailure must be "stop" or "continue"`);
+            }
+          }
         }
 
+        const terminalPath: JsonPath = [...commandPath, 'terminal'];
         if (!command.terminal || typeof command.terminal !== 'object') {
-          errors.push(`Command ${commandIndex} in folder ${folderIndex} must have terminal settings`);
+          error(terminalPath, `Command ${commandIndex} in folder ${folderIndex} must have terminal settings`);
+        } else {
+          const env = command.terminal.env;
+          if (env !== undefined && (!env || typeof env !== 'object' || Array.isArray(env) || Object.values(env).some(value => typeof value !== 'string'))) {
+            error([...terminalPath, 'env'], `Command ${commandIndex} in folder ${folderIndex} terminal env must map names to string values`);
+          }
+
+          if (command.terminal.envFile !== undefined && typeof command.terminal.envFile !== 'string') {
+            error([...terminalPath, 'envFile'], `Command ${commandIndex} in folder ${folderIndex} terminal envFile must be a path string`);
+          }
+
+          const unsupported = getUnsupportedTerminalReason(command.terminal.type, platform);
+          if (unsupported) {
+            warning([...terminalPath, 'type'], `Command "${command.label || command.id}" ${unsupported}`);
+          }
+        }
+
+        if (command.workspaceFolder !== undefined && typeof command.workspaceFolder !== 'string') {
+          error([...commandPath, 'workspaceFolder'], `Command ${commandIndex} in folder ${folderIndex} workspaceFolder must be a workspace folder name`);
+        }
+
+        if (command.keybinding !== undefined && typeof command.keybinding !== 'string') {
+          error([...commandPath, 'keybinding'], `Command ${commandIndex} in folder ${folderIndex} keybinding must be a string such as "ctrl+alt+t"`);
+        }
+
+        if (command.when !== undefined && typeof command.when !== 'string') {
+          error([...commandPath, 'when'], `Command ${commandIndex} in folder ${folderIndex} when must be a context expression string`);
+        }
+
+        if (command.tags !== undefined && (!Array.isArray(command.tags) || command.tags.some((tag: unknown) => typeof tag !== 'string'))) {
+          error([...commandPath, 'tags'], `Command ${commandIndex} in folder ${folderIndex} tags must be an array of strings`);
+        }
+
+        if (command.favorite !== undefined && typeof command.favorite !== 'boolean') {
+          error([...commandPath, 'favorite'], `Command ${commandIndex} in folder ${folderIndex} favorite must be true or false`);
+        }
+
+        if (command.confirm !== undefined && !CONFIRM_LEVELS.includes(command.confirm)) {
+          error([...commandPath, 'confirm'], `Command ${commandIndex} in folder ${folderIndex} confirm must be one of ${CONFIRM_LEVELS.join(', ')}`);
+        }
+
+        const name = `Command ${commandIndex} in folder ${folderIndex}`;
+        if (command.readiness !== undefined) {
+          error([...commandPath, 'readiness'], ...validateReadinessProbe(command.readiness, name));
+        }
+        if (command.restart !== undefined) {
+          error([...commandPath, 'restart'], ...validateRestartPolicy(command.restart, name));
+        }
+        if (command.schedule !== undefined) {
+          error([...commandPath, 'schedule'], ...validateSchedule(command.schedule, name));
+        }
+        if ((command.readiness || command.restart) && String(command.terminal?.type).startsWith('external-')) {
+          warning([...commandPath, command.readiness ? 'readiness' : 'restart'], `Command "${command.label || command.id}" has a readiness probe or restart policy, which external terminals ignore`);
+        }
+        if (command.problemMatcher !== undefined) {
+          error([...commandPath, 'problemMatcher'], ...validateProblemMatcher(command.problemMatcher, name));
+          if (command.terminal?.type !== 'vscode-new' && command.terminal?.type !== 'vscode-current') {
+            warning([...commandPath, 'problemMatcher'], `Command "${command.label || command.id}" has a problem matcher, which only VS Code terminals apply`);
+          }
         }
 
         if (Array.isArray(command.variables)) {
           command.variables.forEach((variable: any, variableIndex: number) => {
+            const variablePath: JsonPath = [...commandPath, 'variables', variableIndex];
             if (!variable || typeof variable !== 'object') {
-              errors.push(`Variable ${variableIndex} in command ${commandIndex} must be an object`);
+              error(variablePath, `Variable ${variableIndex} in command ${commandIndex} must be an object`);
               return;
             }
 
             if (!variable.key || typeof variable.key !== 'string') {
-              errors.push(`Variable ${variableIndex} in command ${commandIndex} must have a key`);
+              error([...variablePath, 'key'], `Variable ${variableIndex} in command ${commandIndex} must have a key`);
             }
 
-            if (variable.type !== 'fixed' && variable.type !== 'options' && variable.type !== 'file') {
-              errors.push(`Variable ${variableIndex} in command ${commandIndex} must be of type "fixed", "options", or "file"`);
+            if (!VARIABLE_TYPES.includes(variable.type)) {
+              error([...variablePath, 'type'], `Variable ${variableIndex} in command ${commandIndex} must be of type ${VARIABLE_TYPES.map(type => `"${type}"`).join(', ')}`);
+              return;
             }
+
+            error(variablePath, ...validateTypedVariable(variable, `Variable ${variableIndex} in command ${commandIndex}`));
           });
         }
       });
@@ -165,91 +333,325 @@ export function validateConfig(config: any): { valid: boolean; errors: string[]
 
   if (Array.isArray(config.testRunners)) {
     config.testRunners.forEach((runner: any, index: number) => {
+      const runnerPath: JsonPath = ['testRunners', index];
       if (!runner || typeof runner !== 'object') {
-        errors.push(`Test runner ${index} must be an object`);
+        error(runnerPath, `Test runner ${index} must be an object`);
         return;
       }
 
       if (typeof runner.id !== 'string' || runner.id.trim() === '') {
-        errors.push(`Test runner ${index} must have an id`);
+        error([...runnerPath, 'id'], `Test runner ${index} must have an id`);
       }
 
       if (typeof runner.title !== 'string' || runner.title.trim() === '') {
-        errors.push(`Test runner ${index} must have a title`);
+        error([...runnerPath, 'title'], `Test runner ${index} must have a title`);
       }
 
       if (typeof runner.activated !== 'boolean') {
-        errors.push(`Test runner ${index} must have an activated flag`);
+        error([...runnerPath, 'activated'], `Test runner ${index} must have an activated flag`);
       }
 
       if (!['javascript', 'typescript', 'python'].includes(runner.fileType)) {
-        errors.push(`Test runner ${index} must have a valid file type`);
+        error([...runnerPath, 'fileType'], `Test runner ${index} must have a valid file type`);
       }
 
       if (typeof runner.fileNamePattern !== 'string') {
-        errors.push(`Test runner ${index} must have a file name pattern string`);
+        error([...runnerPath, 'fileNamePattern'], `Test runner ${index} must have a file name pattern string`);
       }
 
       if (typeof runner.testNamePattern !== 'string') {
-        errors.push(`Test runner ${index} must have a test name pattern string`);
+        error([...runnerPath, 'testNamePattern'], `Test runner ${index} must have a test name pattern string`);
       }
 
       if (typeof runner.runTestCommand !== 'string' || runner.runTestCommand.trim() === '') {
-        errors.push(`Test runner ${index} must have a run test command`);
+        error([...runnerPath, 'runTestCommand'], `Test runner ${index} must have a run test command`);
+      }
+
+      if (runner.workspaceFolder !== undefined && typeof runner.workspaceFolder !== 'string') {
+        error([...runnerPath, 'workspaceFolder'], `Test runner ${index} workspaceFolder must be a workspace folder name`);
       }
     });
   }
 
-  return { valid: errors.length === 0, errors };
+  if (Array.isArray(config.sharedVariables)) {
+    config.sharedVariables.forEach((variable: any, variableIndex: number) => {
+      if (variable?.secret && variable.value) {
+        error(['sharedVariables', variableIndex, 'value'], `Shared variable ${variableIndex} is a secret and must not store a value in the configuration`);
+      }
+    });
+  }
+
+  if (Array.isArray(config.sharedLists)) {
+    config.sharedLists.forEach((list: any, listIndex: number) => {
+      if (list?.source !== undefined) {
+        error(['sharedLists', listIndex, 'source'], ...validateOptionSource(list.source, `Shared list ${listIndex}`));
+      }
+    });
+  }
+
+  return issues;
 }
 
-export function validateTimeTrackerConfig(config: any): { valid: boolean; errors: string[] } {
+const VARIABLE_TYPES: CommandVariableType[] = ['fixed', 'options', 'file', 'number', 'boolean', 'multiselect', 'text', 'secret'];
+
+function validateTypedVariable(variable: any, name: string): string[] {
+  const errors: string[] = [];
+  const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+  if (variable.source !== undefined) {
+    if (variable.type !== 'options' && variable.type !== 'multiselect') {
+      errors.push(`${name} source is only supported for options and multiselect variables`);
+    } else {
+      errors.push(...validateOptionSource(variable.source, name));
+    }
+  }
+
+  switch (variable.type) {
+    case 'number':
+      if (variable.min !== undefined && !isNumber(variable.min)) {
+        errors.push(`${name} min must be a number`);
+      }
+      if (variable.max !== undefined && !isNumber(variable.max)) {
+        errors.push(`${name} max must be a number`);
+      }
+      if (isNumber(variable.min) && isNumber(variable.max) && variable.min > variable.max) {
+        errors.push(`${name} min must not be greater than max`);
+      }
+      if (variable.value && validateNumberInput(String(variable.value), variable.min, variable.max)) {
+        errors.push(`${name} default must be a number within its range`);
+      }
+      break;
+    case 'boolean':
+      if (variable.trueValue !== undefined && typeof variable.trueValue !== 'string') {
+        errors.push(`${name} trueValue must be a string`);
+      }
+      if (variable.falseValue !== undefined && typeof variable.falseValue !== 'string') {
+        errors.push(`${name} falseValue must be a string`);
+      }
+      break;
+    case 'multiselect':
+      if (variable.source === undefined && (typeof variable.value !== 'string' || !variable.value.trim())) {
+        errors.push(`${name} must list its options, one per line, or set a source`);
+      }
+      if (variable.separator !== undefined && typeof variable.separator !== 'string') {
+        errors.push(`${name} separator must be a string`);
+      }
+      break;
+    case 'text':
+      if (variable.pattern !== undefined) {
+        try {
+          new RegExp(variable.pattern);
+        } catch {
+          errors.push(`${name} pattern is not a valid regular expression`);
+        }
+      }
+      break;
+    case 'secret':
+      if (variable.value) {
+        errors.push(`${name} is a secret and must not store a value in the configuration`);
+      }
+      break;
+  }
+
+  return errors;
+}
+
+function validateOptionSource(source: any, name: string): string[] {
+  if (!source || typeof source !== 'object' || Array.isArray(source)) {
+    return [`${name} source must be an object`];
+  }
+
+  const errors: string[] = [];
+  const hasCommand = typeof source.command === 'string' && source.command.trim().length > 0;
+  const hasFile = typeof source.file === 'string' && source.file.trim().length > 0;
+
+  if (hasCommand === hasFile) {
+    errors.push(`${name} source must set either a command or a file`);
+  }
+  if (source.path !== undefined && (!hasFile || typeof source.path !== 'string' || !source.path.trim().startsWith('$'))) {
+    errors.push(`${name} source path must be a JSONPath starting with $ and is only used with a file`);
+  }
+  if (source.cacheSeconds !== undefined && (typeof source.cacheSeconds !== 'number' || source.cacheSeconds < 0)) {
+    errors.push(`${name} source cacheSeconds must be a number of seconds`);
+  }
+
+  return errors;
+}
+
+function validateReadinessProbe(probe: any, name: string): string[] {
+  if (!probe || typeof probe !== 'object' || Array.isArray(probe)) {
+    return [`${name} readiness must be an object`];
+  }
+
+  const errors: string[] = [];
+  if (!probe.pattern && !probe.port && !probe.url) {
+    errors.push(`${name} readiness must set a pattern, port or url`);
+  }
+  if (probe.pattern !== undefined) {
+    try {
+      new RegExp(probe.pattern);
+    } catch {
+      errors.push(`${name} readiness pattern must be a valid regular expression`);
+    }
+  }
+  if (probe.port !== undefined && (!Number.isInteger(probe.port) || probe.port < 1 || probe.port > 65535)) {
+    errors.push(`${name} readiness port must be a port number`);
+  }
+  if (probe.url !== undefined && (typeof probe.url !== 'string' || !/^https?:\/\//.test(probe.url))) {
+    errors.push(`${name} readiness url must be an http or https URL`);
+  }
+  if (probe.timeoutSeconds !== undefined && (typeof probe.timeoutSeconds !== 'number' || probe.timeoutSeconds <= 0)) {
+    errors.push(`${name} readiness timeoutSeconds must be a positive number`);
+  }
+
+  return errors;
+}
+
+function validateProblemMatcher(setting: any, name: string): string[] {
+  const errors: string[] = [];
+  (Array.isArray(setting) ? setting : [setting]).forEach((matcher: any) => {
+    if (typeof matcher === 'string') {
+      if (!matcher.startsWith('$')) {
+        errors.push(`${name} problemMatcher "${matcher}" must name a matcher starting with $`);
+      }
+      return;
+    }
+    if (!matcher || typeof matcher !== 'object' || !matcher.pattern) {
+      errors.push(`${name} problemMatcher must be a matcher name or an object with a pattern`);
+      return;
+    }
+
+    const patterns = Array.isArray(matcher.pattern) ? matcher.pattern : [matcher.pattern];
+    patterns.forEach((pattern: any) => {
+      try {
+        new RegExp(pattern?.regexp);
+      } catch {
+        errors.push(`${name} problemMatcher regexp must be a valid regular expression`);
+        return;
+      }
+      if (typeof pattern?.regexp !== 'string') {
+        errors.push(`${name} problemMatcher patterns must have a regexp`);
+      }
+    });
+    const last = patterns[patterns.length - 1];
+    const fields = patterns.reduce((all: Set<string>, pattern: any) => {
+      Object.keys(pattern ?? {}).forEach(key => all.add(key));
+      return all;
+    }, new Set<string>());
+    if (!fields.has('file') || !fields.has('message')) {
+      errors.push(`${name} problemMatcher pattern must capture a file and a message`);
+    }
+    if (patterns.slice(0, -1).some((pattern: any) => pattern?.loop) || (last?.loop && patterns.length < 2)) {
+      errors.push(`${name} problemMatcher loop is only allowed on the last of several patterns`);
+    }
+  });
+  return errors;
+}
+
+function validateSchedule(schedule: any, name: string): string[] {
+  if (!schedule || typeof schedule !== 'object' || Array.isArray(schedule)) {
+    return [`${name} schedule must be an object`];
+  }
+
+  const errors: string[] = [];
+  if (!schedule.cron && !schedule.intervalMinutes && !schedule.onWorkspaceOpen) {
+    errors.push(`${name} schedule must set cron, intervalMinutes or onWorkspaceOpen`);
+  }
+  if (schedule.cron !== undefined && schedule.intervalMinutes !== undefined) {
+    errors.push(`${name} schedule must set either cron or intervalMinutes, not both`);
+  }
+  if (schedule.cron !== undefined) {
+    try {
+      parseCron(String(schedule.cron));
+    } catch (cronError) {
+      errors.push(`${name} schedule cron ${cronError instanceof Error ? cronError.message : cronError}`);
+    }
+  }
+  if (schedule.intervalMinutes !== undefined && (typeof schedule.intervalMinutes !== 'number' || schedule.intervalMinutes <= 0)) {
+    errors.push(`${name} schedule intervalMinutes must be a positive number`);
+  }
+  if (schedule.onWorkspaceOpen !== undefined && typeof schedule.onWorkspaceOpen !== 'boolean') {
+    errors.push(`${name} schedule onWorkspaceOpen must be true or false`);
+  }
+
+  return errors;
+}
+
+function validateRestartPolicy(policy: any, name: string): string[] {
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+    return [`${name} restart must be an object`];
+  }
+
   const errors: string[] = [];
+  if (policy.mode !== 'on-failure' && policy.mode !== 'always') {
+    errors.push(`${name} restart mode must be "on-failure" or "always"`);
+  }
+  if (policy.maxRetries !== undefined && (!Number.isInteger(policy.maxRetries) || policy.maxRetries < 0)) {
+    errors.push(`${name} restart maxRetries must be a whole number`);
+  }
+  if (policy.backoffSeconds !== undefined && (typeof policy.backoffSeconds !== 'number' || policy.backoffSeconds < 0)) {
+    errors.push(`${name} restart backoffSeconds must be a number of seconds`);
+  }
+
+  return errors;
+}
+
+export function validateTimeTrackerConfig(config: any): { valid: boolean; errors: string[] } {
+  const errors = collectTimeTrackerIssues(config).map(issue => issue.message);
+  return { valid: errors.length === 0, errors };
+}
+
+export function collectTimeTrackerIssues(config: any): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const error = (path: JsonPath, message: string) => issues.push({ path, message, severity: 'error' });
 
   if (!config || typeof config !== 'object') {
-    errors.push('Time tracker config must be an object');
-    return { valid: false, errors };
+    error([], 'Time tracker config must be an object');
+    return issues;
   }
 
   if (!Array.isArray(config.folders)) {
-    errors.push('Time tracker config must have a folders array');
+    error(['folders'], 'Time tracker config must have a folders array');
   } else {
-    const validateFolders = (folders: any[], path: string[] = []): void => {
+    // `path` names folders for the messages, `jsonPath` locates them in the file
+    const validateFolders = (folders: any[], path: string[] = [], jsonPath: JsonPath = ['folders']): void => {
       folders.forEach((folder, index) => {
+        const folderPath: JsonPath = [...jsonPath, index];
         if (!folder || typeof folder !== 'object') {
-          errors.push(`Folder at ${[...path, index.toString()].join('/') || 'root'} must be an object`);
+          error(folderPath, `Folder at ${[...path, index.toString()].join('/') || 'root'} must be an object`);
           return;
         }
 
         if (typeof folder.name !== 'string') {
-          errors.push(`Folder at ${[...path, index.toString()].join('/') || 'root'} must have a name`);
+          error([...folderPath, 'name'], `Folder at ${[...path, index.toString()].join('/') || 'root'} must have a name`);
         }
 
         if (!Array.isArray(folder.timers)) {
-          errors.push(`Folder at ${[...path, index.toString()].join('/') || 'root'} must have a timers array`);
+          error([...folderPath, 'timers'], `Folder at ${[...path, index.toString()].join('/') || 'root'} must have a timers array`);
         } else {
           folder.timers.forEach((timer: any, timerIndex: number) => {
+            const timerPath: JsonPath = [...folderPath, 'timers', timerIndex];
             if (!timer || typeof timer !== 'object') {
-              errors.push(`Timer at ${[...path, index.toString()].join('/')}/timers/${timerIndex} must be an object`);
+              error(timerPath, `Timer at ${[...path, index.toString()].join('/')}/timers/${timerIndex} must be an object`);
               return;
             }
 
             if (typeof timer.id !== 'string') {
-              errors.push(`Timer at ${[...path, index.toString()].join('/')}/timers/${timerIndex} must have an id`);
+              error([...timerPath, 'id'], `Timer at ${[...path, index.toString()].join('/')}/timers/${timerIndex} must have an id`);
             }
 
             if (typeof timer.label !== 'string') {
-              errors.push(`Timer at ${[...path, index.toString()].join('/')}/timers/${timerIndex} must have a label`);
+              error([...timerPath, 'label'], `Timer at ${[...path, index.toString()].join('/')}/timers/${timerIndex} must have a label`);
             }
 
             if (!Array.isArray(timer.subtimers)) {
-              errors.push(`Timer at ${[...path, index.toString()].join('/')}/timers/${timerIndex} must have a subtimers array`);
+              error([...timerPath, 'subtimers'], `Timer at ${[...path, index.toString()].join('/')}/timers/${timerIndex} must have a subtimers array`);
             }
           });
         }
 
         if (Array.isArray(folder.subfolders)) {
-          validateFolders(folder.subfolders, [...path, index.toString()]);
+          validateFolders(folder.subfolders, [...path, index.toString()], [...folderPath, 'subfolders']);
         }
       });
     };
@@ -257,5 +659,5 @@ export function validateTimeTrackerConfig(config: any): { valid: boolean; errors
     validateFolders(config.folders);
   }
 
-  return { valid: errors.length === 0, errors };
+  return issues;
 }
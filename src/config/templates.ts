@@ -0,0 +1,149 @@
+import { Command, CommandConfig, CommandTemplate, Folder } from '../types';
+
+/** Fields a command can take from its template */
+export const TEMPLATE_FIELDS = ['command', 'terminal', 'variables', 'description', 'icon'] as const;
+export type TemplateField = typeof TEMPLATE_FIELDS[number];
+
+/** Template fields copied as a whole; variables are merged by key instead */
+type CopiedField = Exclude<TemplateField, 'variables'>;
+const COPIED_FIELDS: ReadonlyArray<CopiedField & keyof Command> = ['command', 'terminal', 'description', 'icon'];
+
+const VARIABLE_PREFIX = 'variables.';
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function copyTemplateField<K extends CopiedField>(target: Command, template: CommandTemplate, field: K): void {
+  const value: Command[K] = clone(template[field]);
+  target[field] = value;
+}
+
+export function getInheritedVariableKey(key: string): string {
+  return `${VARIABLE_PREFIX}${key}`;
+}
+
+/** Leaves only what the command sets itself, as stored in the file */
+export function stripInherited(command: Command): Command {
+  const inherited = new Set(command.inherited ?? []);
+  const stripped: Command = { ...command };
+  delete stripped.inherited;
+
+  TEMPLATE_FIELDS.filter(field => field !== 'variables' && inherited.has(field)).forEach(field => {
+    delete (stripped as Partial<Command>)[field];
+  });
+  if (stripped.variables) {
+    const own = stripped.variables.filter(variable => !inherited.has(getInheritedVariableKey(variable.key)));
+    if (own.length > 0) {
+      stripped.variables = own;
+    } else {
+      delete stripped.variables;
+    }
+  }
+  return stripped;
+}
+
+/**
+ * Fills in the fields the command leaves out from its template and lists
+ * them in `inherited`. Variables are merged by key, the command's own ones
+ * taking the place of the template's.
+ */
+export function applyTemplate(command: Command, template: CommandTemplate): Command {
+  const own = stripInherited(command);
+  const applied: Command = { ...own };
+  const inherited: string[] = [];
+
+  COPIED_FIELDS.forEach(field => {
+    if (own[field] === undefined && template[field] !== undefined) {
+      copyTemplateField(applied, template, field);
+      inherited.push(field);
+    }
+  });
+
+  const templateVariables = template.variables ?? [];
+  if (templateVariables.length > 0) {
+    const ownVariables = own.variables ?? [];
+    applied.variables = [
+      ...templateVariables.map(variable => {
+        const override = ownVariables.find(candidate => candidate.key === variable.key);
+        if (override) {
+          return override;
+        }
+        inherited.push(getInheritedVariableKey(variable.key));
+        return clone(variable);
+      }),
+      ...ownVariables.filter(variable => !templateVariables.some(candidate => candidate.key === variable.key))
+    ];
+  }
+
+  if (inherited.length > 0) {
+    applied.inherited = inherited;
+  }
+  return applied;
+}
+
+function mapCommands(folders: Folder[], map: (command: Command) => Command): Folder[] {
+  return folders.map(folder => ({
+    ...folder,
+    commands: folder.commands.map(map),
+    ...(folder.subfolders ? { subfolders: mapCommands(folder.subfolders, map) } : {})
+  }));
+}
+
+/** Resolves every command that references a template; unknown references are left for validation to report */
+export function expandTemplates(config: CommandConfig): CommandConfig {
+  const templates = config.templates ?? [];
+  if (templates.length === 0) {
+    return config;
+  }
+
+  return {
+    ...config,
+    folders: mapCommands(config.folders, command => {
+      const template = command.template ? templates.find(candidate => candidate.id === command.template) : undefined;
+      return template ? applyTemplate(command, template) : command;
+    })
+  };
+}
+
+/** Drops the inherited fields again before the config is written */
+export function collapseTemplates(config: CommandConfig): CommandConfig {
+  return {
+    ...config,
+    folders: mapCommands(config.folders, command => (command.template || command.inherited ? stripInherited(command) : command))
+  };
+}
+
+/** A new command that takes everything but its id from the template */
+export function createCommandFromTemplate(template: CommandTemplate, id: string): Command {
+  return applyTemplate({
+    id,
+    label: template.label,
+    command: template.command,
+    terminal: clone(template.terminal),
+    template: template.id,
+    // Marked inherited so they are filled from the template rather than kept as overrides
+    inherited: ['command', 'terminal']
+  }, template);
+}
+
+/**
+ * Turns a command into a template and the command into its first instance,
+ * which inherits everything.
+ */
+export function createTemplateFromCommand(command: Command, id: string, label: string): { template: CommandTemplate; command: Command } {
+  const template: CommandTemplate = {
+    id,
+    label,
+    command: command.command,
+    terminal: clone(command.terminal),
+    ...(command.variables?.length ? { variables: clone(command.variables) } : {}),
+    ...(command.description ? { description: command.description } : {}),
+    ...(command.icon ? { icon: command.icon } : {})
+  };
+
+  const instance: Command = { ...command, template: id };
+  delete instance.inherited;
+  TEMPLATE_FIELDS.forEach(field => delete (instance as Partial<Command>)[field]);
+  return { template, command: applyTemplate(instance, template) };
+}
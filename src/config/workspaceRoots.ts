@@ -0,0 +1,129 @@
+import { CommandConfig, Folder } from '../types';
+
+/** Keys and ids merged in from a secondary root, so saves can write them back there */
+export interface RootContribution {
+  templates: Set<string>;
+  sharedVariables: Set<string>;
+  sharedLists: Set<string>;
+  testRunners: Set<string>;
+  pinnedCommands: Set<string>;
+}
+
+export interface SplitRootConfigs {
+  primary: CommandConfig;
+  /** Config of each secondary root to write, keyed by root name */
+  roots: Map<string, CommandConfig>;
+}
+
+// workspaceRoot, layer and inherited tags only exist in memory; each file holds its own folders
+const RUNTIME_KEYS = new Set(['workspaceRoot', 'layer', 'inherited']);
+
+export function serializeConfig(config: CommandConfig): string {
+  return JSON.stringify(config, (key, value) => RUNTIME_KEYS.has(key) ? undefined : value, 2);
+}
+
+function appendMissing<T>(target: T[], items: T[] | undefined, idOf: (item: T) => string, contributed: Set<string>): void {
+  const existing = new Set(target.map(idOf));
+  for (const item of items ?? []) {
+    const id = idOf(item);
+    if (!existing.has(id)) {
+      existing.add(id);
+      target.push(item);
+      contributed.add(id);
+    }
+  }
+}
+
+/**
+ * Appends the commands.json of a secondary workspace folder to `config`.
+ * Folders are tagged with the root; shared entries already defined earlier
+ * keep their first definition. Returns what the root added.
+ */
+export function mergeRootConfig(config: CommandConfig, rootName: string, rootConfig: CommandConfig): RootContribution {
+  const contribution: RootContribution = {
+    templates: new Set(),
+    sharedVariables: new Set(),
+    sharedLists: new Set(),
+    testRunners: new Set(),
+    pinnedCommands: new Set()
+  };
+
+  for (const folder of rootConfig.folders || []) {
+    config.folders.push({ ...folder, workspaceRoot: rootName });
+  }
+
+  if (rootConfig.templates && rootConfig.templates.length > 0) {
+    config.templates = config.templates ?? [];
+    appendMissing(config.templates, rootConfig.templates, template => template.id, contribution.templates);
+  }
+  if (rootConfig.sharedVariables && rootConfig.sharedVariables.length > 0) {
+    config.sharedVariables = config.sharedVariables ?? [];
+    appendMissing(config.sharedVariables, rootConfig.sharedVariables, variable => variable.key, contribution.sharedVariables);
+  }
+  if (rootConfig.sharedLists && rootConfig.sharedLists.length > 0) {
+    config.sharedLists = config.sharedLists ?? [];
+    appendMissing(config.sharedLists, rootConfig.sharedLists, list => list.key, contribution.sharedLists);
+  }
+  config.testRunners = config.testRunners ?? [];
+  appendMissing(config.testRunners, rootConfig.testRunners, runner => runner.id, contribution.testRunners);
+  config.pinnedCommands = config.pinnedCommands ?? [];
+  appendMissing(config.pinnedCommands, rootConfig.pinnedCommands, id => id, contribution.pinnedCommands);
+
+  return contribution;
+}
+
+/**
+ * Splits a merged config back into the primary root's config and one config
+ * per secondary root. Folders go to the root they are tagged with and shared
+ * entries to the root that contributed them. Roots that never had a config
+ * and received no folders are left out.
+ */
+export function splitRootConfigs(
+  config: CommandConfig,
+  rootNames: string[],
+  contributions: Map<string, RootContribution>
+): SplitRootConfigs {
+  const names = new Set(rootNames);
+  const ownerOf = (folder: Folder): string | undefined =>
+    folder.workspaceRoot && names.has(folder.workspaceRoot) ? folder.workspaceRoot : undefined;
+  const contributedBy = (select: (contribution: RootContribution) => Set<string>, key: string): string | undefined => {
+    for (const [rootName, contribution] of contributions) {
+      if (names.has(rootName) && select(contribution).has(key)) {
+        return rootName;
+      }
+    }
+    return undefined;
+  };
+
+  const primary: CommandConfig = {
+    ...config,
+    folders: config.folders.filter(folder => !ownerOf(folder)),
+    templates: config.templates?.filter(t => !contributedBy(c => c.templates, t.id)),
+    sharedVariables: config.sharedVariables?.filter(v => !contributedBy(c => c.sharedVariables, v.key)),
+    sharedLists: config.sharedLists?.filter(l => !contributedBy(c => c.sharedLists, l.key)),
+    testRunners: config.testRunners?.filter(r => !contributedBy(c => c.testRunners, r.id)),
+    pinnedCommands: config.pinnedCommands?.filter(id => !contributedBy(c => c.pinnedCommands, id))
+  };
+
+  const roots = new Map<string, CommandConfig>();
+  for (const rootName of rootNames) {
+    const folders = config.folders.filter(folder => ownerOf(folder) === rootName);
+    if (!contributions.has(rootName) && folders.length === 0) {
+      continue;
+    }
+
+    roots.set(rootName, {
+      folders,
+      templates: config.templates?.filter(t => contributedBy(c => c.templates, t.id) === rootName) ?? [],
+      sharedVariables: config.sharedVariables?.filter(v => contributedBy(c => c.sharedVariables, v.key) === rootName) ?? [],
+      sharedLists: config.sharedLists?.filter(l => contributedBy(c => c.sharedLists, l.key) === rootName) ?? [],
+      testRunners: config.testRunners?.filter(r => contributedBy(c => c.testRunners, r.id) === rootName) ?? [],
+      pinnedCommands: config.pinnedCommands?.filter(id => contributedBy(c => c.pinnedCommands, id) === rootName) ?? [],
+      version: config.version,
+      schemaVersion: config.schemaVersion,
+      lastModified: config.lastModified
+    });
+  }
+
+  return { primary, roots };
+}
@@ -0,0 +1,215 @@
+import * as vscode from 'vscode';
+import * as child_process from 'child_process';
+import * as crypto from 'crypto';
+import { ReadinessProbe, RestartPolicy, TerminalConfig } from '../types';
+import { loadConfiguredEnvironment, mergeWithProcessEnvironment } from './environment';
+
+// How long a stopped process gets to exit on SIGTERM before it is killed, and then to be reaped
+const STOP_GRACE_MS = 5000;
+
+export interface BackgroundProcessOwner {
+  commandId: string;
+  label: string;
+  readiness?: ReadinessProbe;
+  restart?: RestartPolicy;
+}
+
+export interface BackgroundProcess extends BackgroundProcessOwner {
+  id: string;
+  command: string;
+  config: TerminalConfig;
+  pid?: number;
+  startTime: number;
+}
+
+export interface BackgroundProcessExit {
+  process: BackgroundProcess;
+  exitCode?: number;
+  /** True when the process ended because it was stopped or restarted from the view */
+  stopped: boolean;
+}
+
+export interface BackgroundProcessOutput {
+  process: BackgroundProcess;
+  text: string;
+}
+
+/** Resolves true once `exited` settles, or false when `ms` pass first */
+function waitForExit(exited: Promise<void>, ms: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const timer = setTimeout(() => resolve(false), ms);
+    void exited.then(() => {
+      clearTimeout(timer);
+      resolve(true);
+    });
+  });
+}
+
+/**
+ * Runs `background` commands without a terminal. Each process streams into an
+ * output channel named after its command and is tracked until it exits.
+ */
+export class BackgroundProcessManager implements vscode.Disposable {
+  private static instance: BackgroundProcessManager;
+  private readonly processes = new Map<string, { info: BackgroundProcess; child: child_process.ChildProcess; stopping: boolean }>();
+  private readonly outputChannels = new Map<string, vscode.OutputChannel>();
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  public readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+  private readonly _onDidStart = new vscode.EventEmitter<BackgroundProcess>();
+  public readonly onDidStart: vscode.Event<BackgroundProcess> = this._onDidStart.event;
+  private readonly _onDidOutput = new vscode.EventEmitter<BackgroundProcessOutput>();
+  public readonly onDidOutput: vscode.Event<BackgroundProcessOutput> = this._onDidOutput.event;
+  private readonly _onDidExit = new vscode.EventEmitter<BackgroundProcessExit>();
+  public readonly onDidExit: vscode.Event<BackgroundProcessExit> = this._onDidExit.event;
+
+  private constructor() { }
+
+  public static getInstance(): BackgroundProcessManager {
+    if (!BackgroundProcessManager.instance) {
+      BackgroundProcessManager.instance = new BackgroundProcessManager();
+    }
+    return BackgroundProcessManager.instance;
+  }
+
+  /**
+   * Spawns the command and resolves once it started, so a command that cannot
+   * be launched at all is reported as a failed run.
+   */
+  public async start(command: string, config: TerminalConfig, owner: BackgroundProcessOwner): Promise<BackgroundProcess> {
+    const channel = this.getOutputChannel(owner);
+    const child = child_process.spawn(command, {
+      cwd: config.cwd,
+      env: mergeWithProcessEnvironment(loadConfiguredEnvironment(config, config.cwd)),
+      shell: vscode.env.shell || true,
+      // Own process group on POSIX so stopping also ends the servers the shell started
+      detached: process.platform !== 'win32'
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', resolve);
+      child.once('error', reject);
+    });
+
+    const info: BackgroundProcess = {
+      id: crypto.randomUUID(),
+      commandId: owner.commandId,
+      label: owner.label,
+      readiness: owner.readiness,
+      restart: owner.restart,
+      command,
+      config,
+      pid: child.pid,
+      startTime: Date.now()
+    };
+    const entry = { info, child, stopping: false };
+    this.processes.set(info.id, entry);
+
+    channel.appendLine(`[${new Date(info.startTime).toLocaleTimeString()}] $ ${command} (PID ${child.pid})`);
+    const onData = (data: Buffer) => {
+      const text = data.toString();
+      channel.append(text);
+      this._onDidOutput.fire({ process: info, text });
+    };
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', onData);
+    child.on('close', (code, signal) => {
+      this.processes.delete(info.id);
+      channel.appendLine(`[Process ${child.pid} exited with ${code ?? signal}]`);
+      this._onDidChange.fire();
+      this._onDidExit.fire({ process: info, exitCode: code ?? undefined, stopped: entry.stopping });
+    });
+
+    this._onDidStart.fire(info);
+    this._onDidChange.fire();
+    return info;
+  }
+
+  public getProcesses(): BackgroundProcess[] {
+    return Array.from(this.processes.values(), entry => entry.info).sort((a, b) => a.startTime - b.startTime);
+  }
+
+  public getProcess(processId: string): BackgroundProcess | undefined {
+    return this.processes.get(processId)?.info;
+  }
+
+  public isRunning(commandId: string): boolean {
+    return this.getProcesses().some(info => info.commandId === commandId);
+  }
+
+  /**
+   * Resolves once the process has exited. A process still running after the
+   * grace period is killed, and stopping gives up waiting after another one.
+   */
+  public async stop(processId: string): Promise<void> {
+    const entry = this.processes.get(processId);
+    if (!entry) {
+      return;
+    }
+
+    entry.stopping = true;
+    const exited = new Promise<void>(resolve => entry.child.once('close', () => resolve()));
+    this.killTree(entry.child);
+    if (!await waitForExit(exited, STOP_GRACE_MS)) {
+      this.killTree(entry.child, 'SIGKILL');
+      await waitForExit(exited, STOP_GRACE_MS);
+    }
+  }
+
+  public async restart(processId: string): Promise<BackgroundProcess | undefined> {
+    const info = this.getProcess(processId);
+    if (!info) {
+      return undefined;
+    }
+
+    await this.stop(processId);
+    return this.start(info.command, info.config, info);
+  }
+
+  public async stopAll(): Promise<void> {
+    await Promise.all(this.getProcesses().map(info => this.stop(info.id)));
+  }
+
+  public showOutput(processId: string): void {
+    const info = this.getProcess(processId);
+    if (info) {
+      this.getOutputChannel(info).show(true);
+    }
+  }
+
+  public dispose(): void {
+    this.processes.forEach(entry => {
+      entry.stopping = true;
+      this.killTree(entry.child);
+    });
+    this.outputChannels.forEach(channel => channel.dispose());
+    this.outputChannels.clear();
+  }
+
+  private killTree(child: child_process.ChildProcess, signal: NodeJS.Signals = 'SIGTERM'): void {
+    if (!child.pid) {
+      child.kill(signal);
+      return;
+    }
+
+    if (process.platform === 'win32') {
+      child_process.spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore' });
+      return;
+    }
+
+    try {
+      process.kill(-child.pid, signal);
+    } catch {
+      child.kill(signal);
+    }
+  }
+
+  private getOutputChannel(owner: BackgroundProcessOwner): vscode.OutputChannel {
+    let channel = this.outputChannels.get(owner.commandId);
+    if (!channel) {
+      channel = vscode.window.createOutputChannel(`Background: ${owner.label}`);
+      this.outputChannels.set(owner.commandId, channel);
+    }
+    return channel;
+  }
+}
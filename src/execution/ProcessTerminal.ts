@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import * as child_process from 'child_process';
+
+// Keep only the tail of very chatty processes so long-running commands do not grow memory unbounded
+const MAX_CAPTURED_OUTPUT = 256 * 1024;
+
+export interface ProcessRunResult {
+  exitCode: number;
+  output: string;
+  durationMs: number;
+  stopped: boolean; // Ended by closing the terminal or pressing Ctrl+C
+}
+
+export interface ProcessTerminalOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Pseudoterminal that runs a single shell command as a child process.
+ * Output is mirrored into the terminal and captured so the caller can read
+ * the real exit code once the process ends.
+ */
+export class ProcessTerminal implements vscode.Pseudoterminal {
+  private readonly writeEmitter = new vscode.EventEmitter<string>();
+  private readonly closeEmitter = new vscode.EventEmitter<number | void>();
+  public readonly onDidWrite = this.writeEmitter.event;
+  public readonly onDidClose = this.closeEmitter.event;
+  private readonly outputEmitter = new vscode.EventEmitter<string>();
+  /** Raw process output, before it is adapted for the terminal */
+  public readonly onDidOutput = this.outputEmitter.event;
+
+  public readonly completion: Promise<ProcessRunResult>;
+
+  private child?: child_process.ChildProcess;
+  private output = '';
+  private startTime = 0;
+  private finished = false;
+  private stopped = false;
+  private resolveCompletion!: (result: ProcessRunResult) => void;
+
+  constructor(private readonly command: string, private readonly options: ProcessTerminalOptions = {}) {
+    this.completion = new Promise<ProcessRunResult>(resolve => {
+      this.resolveCompletion = resolve;
+    });
+  }
+
+  public get isRunning(): boolean {
+    return Boolean(this.child) && !this.finished;
+  }
+
+  public get isFinished(): boolean {
+    return this.finished;
+  }
+
+  public open(): void {
+    this.startTime = Date.now();
+
+    try {
+      this.child = child_process.spawn(this.command, {
+        cwd: this.options.cwd,
+        env: this.options.env ?? process.env,
+        shell: vscode.env.shell || true
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.append(`${message}\n`);
+      this.finish(-1);
+      return;
+    }
+
+    this.child.stdout?.on('data', (data: Buffer) => this.append(data.toString()));
+    this.child.stderr?.on('data', (data: Buffer) => this.append(data.toString()));
+    this.child.on('error', error => {
+      this.append(`${error.message}\n`);
+      this.finish(-1);
+    });
+    this.child.on('close', code => {
+      this.finish(typeof code === 'number' ? code : -1);
+    });
+  }
+
+  /**
+   * Fails a run whose process was never started, e.g. when the task hosting
+   * the terminal could not run, so `completion` still settles.
+   */
+  public abandon(reason: string): void {
+    if (this.child || this.finished) {
+      return;
+    }
+    this.startTime = Date.now();
+    this.append(`${reason}\n`);
+    this.finish(-1);
+  }
+
+  public close(): void {
+    if (this.isRunning) {
+      this.stopped = true;
+      this.child?.kill();
+    }
+  }
+
+  public handleInput(data: string): void {
+    if (this.finished) {
+      // Any key closes the terminal once the process has ended, like VS Code tasks
+      this.closeEmitter.fire();
+      return;
+    }
+
+    if (data === '\x03') {
+      this.stopped = true;
+      this.child?.kill('SIGINT');
+      return;
+    }
+
+    const normalized = data.replace(/\r/g, '\n');
+    this.writeEmitter.fire(data.replace(/\r/g, '\r\n'));
+    this.child?.stdin?.write(normalized);
+  }
+
+  private append(text: string): void {
+    this.output += text;
+    if (this.output.length > MAX_CAPTURED_OUTPUT) {
+      this.output = this.output.slice(this.output.length - MAX_CAPTURED_OUTPUT);
+    }
+    this.writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+    this.outputEmitter.fire(text);
+  }
+
+  private finish(exitCode: number): void {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+
+    const durationMs = Date.now() - this.startTime;
+    this.writeEmitter.fire(`\r\n\x1b[2m[Process exited with code ${exitCode}. Press any key to close the terminal.]\x1b[0m\r\n`);
+    this.resolveCompletion({ exitCode, output: this.output, durationMs, stopped: this.stopped });
+  }
+}
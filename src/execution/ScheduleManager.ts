@@ -0,0 +1,156 @@
+import * as vscode from 'vscode';
+import { Command, ExecutionResult, Folder } from '../types';
+import { ConfigManager } from '../config/ConfigManager';
+import { Clock, CommandScheduler, countMissedRuns, hasTimedSchedule, systemClock } from './scheduler';
+
+const LAST_ACTIVE_KEY = 'commandScheduler.lastActive';
+const LAST_RUNS_KEY = 'commandScheduler.lastRuns';
+const PAUSED_SETTING = 'schedule.paused';
+// How often the session records that it is still open, bounding the missed-run window
+const HEARTBEAT_MS = 60 * 1000;
+const MISSED_RUN_LIMIT = 100;
+
+/**
+ * Runs scheduled commands while VS Code is open. Runs missed while it was
+ * closed are written to the Scheduler output channel instead of replayed.
+ */
+export class ScheduleManager implements vscode.Disposable {
+  private static instance: ScheduleManager;
+  private scheduler?: CommandScheduler;
+  private clock: Clock = systemClock;
+  private workspaceState?: vscode.Memento;
+  private outputChannel?: vscode.OutputChannel;
+  private heartbeat?: ReturnType<typeof setInterval>;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  public readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  private constructor() { }
+
+  public static getInstance(): ScheduleManager {
+    if (!ScheduleManager.instance) {
+      ScheduleManager.instance = new ScheduleManager();
+    }
+    return ScheduleManager.instance;
+  }
+
+  /**
+   * Starts the schedules of the configured commands, runs the ones marked to
+   * run on workspace open and logs what was missed since the last session.
+   */
+  public start(workspaceState: vscode.Memento, runCommand: (command: Command) => Promise<ExecutionResult>, clock: Clock = systemClock): void {
+    this.clock = clock;
+    this.workspaceState = workspaceState;
+    const lastRuns = workspaceState.get<Record<string, number>>(LAST_RUNS_KEY, {});
+    this.scheduler = new CommandScheduler(clock, {
+      run: command => void this.run(command, runCommand),
+      changed: () => this._onDidChange.fire()
+    }, lastRuns);
+    this.scheduler.setPaused(this.isPausedInSettings());
+
+    const commands = this.getScheduledCommands();
+    const lastActive = workspaceState.get<number>(LAST_ACTIVE_KEY);
+    if (lastActive !== undefined) {
+      this.logMissedRuns(commands, lastActive, clock.now(), lastRuns);
+    }
+    this.scheduler.setCommands(commands);
+    this.scheduler.runStartupCommands(commands);
+
+    this.recordActive();
+    this.heartbeat = setInterval(() => this.recordActive(), HEARTBEAT_MS);
+
+    ConfigManager.getInstance().setOnConfigChange(() => this.scheduler?.setCommands(this.getScheduledCommands()));
+    this.disposables.push(vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration(`commands-manager-next.tasks.${PAUSED_SETTING}`)) {
+        this.scheduler?.setPaused(this.isPausedInSettings());
+      }
+    }));
+  }
+
+  public isPaused(): boolean {
+    return this.scheduler?.isPaused() ?? this.isPausedInSettings();
+  }
+
+  /** Pauses or resumes every schedule through the user setting, so it holds across workspaces */
+  public async setPaused(paused: boolean): Promise<void> {
+    await vscode.workspace.getConfiguration('commands-manager-next.tasks')
+      .update(PAUSED_SETTING, paused, vscode.ConfigurationTarget.Global);
+  }
+
+  /** One line for the tree tooltip, e.g. "Next run: 3/2/2026, 9:00:00 AM" */
+  public describeNextRun(command: Command): string | undefined {
+    if (!command.schedule) {
+      return undefined;
+    }
+    if (this.isPaused()) {
+      return 'Scheduled, paused';
+    }
+    const next = this.scheduler?.getNextRun(command.id);
+    if (next !== undefined) {
+      return `Next run: ${new Date(next).toLocaleString()}`;
+    }
+    return hasTimedSchedule(command) ? undefined : 'Runs when the workspace opens';
+  }
+
+  public dispose(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+    }
+    this.recordActive();
+    this.scheduler?.dispose();
+    this.outputChannel?.dispose();
+    this._onDidChange.dispose();
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+
+  private async run(command: Command, runCommand: (command: Command) => Promise<ExecutionResult>): Promise<void> {
+    await this.workspaceState?.update(LAST_RUNS_KEY, this.scheduler?.getLastRuns());
+    this.log(`Running "${command.label}" on its schedule`);
+    try {
+      const result = await runCommand(command);
+      if (result.skipped) {
+        this.log(`Skipped "${command.label}": ${result.error}`);
+      } else if (!result.success) {
+        this.log(`"${command.label}" failed: ${result.error ?? `exit code ${result.exitCode}`}`);
+      }
+    } catch (error) {
+      this.log(`"${command.label}" failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private recordActive(): void {
+    void this.workspaceState?.update(LAST_ACTIVE_KEY, this.clock.now());
+  }
+
+  private logMissedRuns(commands: Command[], since: number, until: number, lastRuns: Record<string, number>): void {
+    commands.filter(hasTimedSchedule).forEach(command => {
+      const missed = countMissedRuns(command.schedule!, since, until, lastRuns[command.id], MISSED_RUN_LIMIT);
+      if (missed > 0) {
+        const count = missed >= MISSED_RUN_LIMIT ? `${MISSED_RUN_LIMIT} or more runs` : missed === 1 ? '1 run' : `${missed} runs`;
+        this.log(`Missed ${count} of "${command.label}" while VS Code was closed since ${new Date(since).toLocaleString()}; not replayed`);
+      }
+    });
+  }
+
+  private getScheduledCommands(): Command[] {
+    const commands: Command[] = [];
+    const collect = (folders: Folder[]) => folders.forEach(folder => {
+      commands.push(...folder.commands.filter(command => command.schedule));
+      collect(folder.subfolders ?? []);
+    });
+    collect(ConfigManager.getInstance().getConfig().folders);
+    return commands;
+  }
+
+  private isPausedInSettings(): boolean {
+    return vscode.workspace.getConfiguration('commands-manager-next.tasks').get<boolean>(PAUSED_SETTING, false);
+  }
+
+  private log(message: string): void {
+    if (!this.outputChannel) {
+      this.outputChannel = vscode.window.createOutputChannel('Commands Manager Next Scheduler');
+    }
+    this.outputChannel.appendLine(`[${new Date().toLocaleString()}] ${message}`);
+  }
+}
@@ -1,13 +1,67 @@
 import * as vscode from 'vscode';
 import * as child_process from 'child_process';
+import * as fs from 'fs';
 import * as path from 'path';
-import { TerminalConfig } from '../types';
+import { ExecutionResult, ProblemMatcherSetting, TerminalConfig } from '../types';
+import { ProcessTerminal } from './ProcessTerminal';
+import { BackgroundProcess, BackgroundProcessManager, BackgroundProcessOwner } from './BackgroundProcessManager';
+import {
+  describeReadinessProbe,
+  getRestartDelayMs,
+  hasReadinessProbe,
+  ReadinessWatch,
+  shouldRestart,
+  watchReadiness
+} from './readiness';
+import { hasProblemMatchers, matchProblems, MatchedProblem, splitProblemMatchers } from './problemMatchers';
+import {
+  applyCwdToCommand,
+  applyEnvironmentToCommand,
+  detectShellKind,
+  loadConfiguredEnvironment,
+  mergeWithProcessEnvironment
+} from './environment';
+import { resolveWorkspacePath } from '../utils/workspaceFolders';
+import {
+  buildEmulatorLaunch,
+  buildMacOsLaunch,
+  detectEmulator,
+  ExternalLaunch,
+  getShellArgs,
+  SUPPORTED_EMULATORS
+} from './externalTerminal';
+
+// A process that stayed up this long is considered healthy again and gets a fresh set of retries
+const STABLE_RUN_MS = 30 * 1000;
+// How long a run in the user's shell is followed before it is reported with an unknown outcome
+const SHELL_EXECUTION_WAIT_MS = 30 * 60 * 1000;
+
+/** The saved command behind a run, with the settings that shape how it runs */
+export interface ExecutionOwner extends BackgroundProcessOwner {
+  problemMatcher?: ProblemMatcherSetting;
+}
+
+export interface ReadinessChange {
+  commandId: string;
+  label: string;
+  starting: boolean;
+}
 
-export class TerminalManager {
+export class TerminalManager implements vscode.Disposable {
   private static instance: TerminalManager;
   private terminals: Map<string, vscode.Terminal> = new Map();
+  private processTerminals: Map<vscode.Terminal, ProcessTerminal> = new Map();
   private readonly closeListener: vscode.Disposable;
-  private customRunner?: (command: string, config: TerminalConfig) => Promise<void>;
+  private customRunner?: (command: string, config: TerminalConfig) => Promise<void | ExecutionResult>;
+  private readonly backgroundListeners: vscode.Disposable[] = [];
+  private readonly readinessWatches = new Map<string, ReadinessWatch>();
+  private readonly restartAttempts = new Map<string, number>();
+  // Background restarts waiting out their backoff, by command id
+  private readonly pendingRestarts = new Map<string, { timer: ReturnType<typeof setTimeout>; label: string }>();
+  private readonly problemDiagnostics = new Map<string, vscode.DiagnosticCollection>();
+  private readonly _onDidChangeReadiness = new vscode.EventEmitter<ReadinessChange>();
+  /** Fires when a command with a readiness probe starts waiting for it and when the wait ends */
+  public readonly onDidChangeReadiness: vscode.Event<ReadinessChange> = this._onDidChangeReadiness.event;
 
   private constructor() {
     this.closeListener = vscode.window.onDidCloseTerminal(terminal => {
@@ -21,7 +75,21 @@ export class TerminalManager {
       for (const name of entriesToDelete) {
         this.terminals.delete(name);
       }
+
+      this.processTerminals.delete(terminal);
     });
+
+    const backgroundProcesses = BackgroundProcessManager.getInstance();
+    this.backgroundListeners.push(
+      backgroundProcesses.onDidStart(process => this.watchBackgroundReadiness(process)),
+      backgroundProcesses.onDidOutput(({ process, text }) => this.readinessWatches.get(process.id)?.onOutput(text)),
+      backgroundProcesses.onDidExit(({ process, exitCode, stopped }) => {
+        this.readinessWatches.get(process.id)?.cancel();
+        if (!stopped) {
+          this.scheduleBackgroundRestart(process, exitCode);
+        }
+      })
+    );
   }
 
   public static getInstance(): TerminalManager {
@@ -31,7 +99,11 @@ export class TerminalManager {
     return TerminalManager.instance;
   }
 
-  public async executeCommand(command: string, config: TerminalConfig): Promise<void> {
+  /**
+   * `owner` identifies the saved command; background processes need it to be
+   * listed and restarted, and it carries the readiness probe and restart policy.
+   */
+  public async executeCommand(command: string, config: TerminalConfig, owner?: ExecutionOwner): Promise<ExecutionResult> {
     if (this.customRunner) {
       // When using custom runner, still create/manage terminal if name is provided
       if (config.name && config.type === 'vscode-new') {
@@ -48,23 +120,51 @@ export class TerminalManager {
         terminal = this.createManagedTerminal(terminalName);
         this.terminals.set(terminalName, terminal);
       }
-      await this.customRunner(command, config);
-      return;
+      const runnerResult = await this.customRunner(command, config);
+      return runnerResult || { success: true };
     }
 
     switch (config.type) {
       case 'vscode-current':
-        await this.executeInCurrentTerminal(command, config);
-        break;
+        return await this.executeInCurrentTerminal(command, config, owner);
       case 'vscode-new':
-        await this.executeInNewTerminal(command, config);
-        break;
+        return await this.executeInNewTerminal(command, config, owner);
       case 'external-cmd':
         await this.executeInExternalCmd(command, config);
-        break;
+        // External windows are detached, so only the launch itself can be reported
+        return { success: true };
       case 'external-powershell':
-        await this.executeInExternalPowerShell(command, config);
-        break;
+        if (process.platform === 'win32') {
+          await this.executeInExternalPowerShell(command, config);
+        } else {
+          await this.executeInExternalSystem(command, config, 'pwsh');
+        }
+        return { success: true };
+      case 'external-system':
+        if (process.platform === 'win32') {
+          await this.executeInExternalCmd(command, config);
+        } else {
+          await this.executeInExternalSystem(command, config, 'posix');
+        }
+        return { success: true };
+      case 'background': {
+        const processOwner = owner ?? { commandId: config.name || command, label: config.name || command };
+        this.restartAttempts.delete(processOwner.commandId);
+        // The run succeeds once the process is up (and ready, when a probe is set); its exit is reported by BackgroundProcessManager
+        const started = await BackgroundProcessManager.getInstance().start(
+          command,
+          { ...config, cwd: this.resolveCwd(config.cwd) },
+          processOwner
+        );
+        const outcome = await this.readinessWatches.get(started.id)?.outcome;
+        if (outcome === 'timeout') {
+          return { success: false, error: 'The process did not become ready in time' };
+        }
+        if (outcome === 'cancelled') {
+          return { success: false, error: 'The process exited before it became ready' };
+        }
+        return { success: true };
+      }
       default:
         throw new Error(`Unknown terminal type: ${config.type}`);
     }
@@ -74,16 +174,9 @@ export class TerminalManager {
   public async executeCommandWithExitCode(command: string, config: TerminalConfig): Promise<number> {
     // Use VS Code Tasks but ensure working directory is properly set
     // Convert relative cwd to absolute if needed
-    let cwd = config.cwd;
-    if (cwd && !path.isAbsolute(cwd) && vscode.workspace.workspaceFolders?.[0]) {
-      cwd = path.resolve(vscode.workspace.workspaceFolders[0].uri.fsPath, cwd);
-    } else if (!cwd && vscode.workspace.workspaceFolders?.[0]) {
-      cwd = vscode.workspace.workspaceFolders[0].uri.fsPath;
-    }
+    const cwd = this.resolveCwd(config.cwd);
 
-    const envEntries = Object.entries(process.env as Record<string, string | undefined>)
-      .filter((entry): entry is [string, string] => typeof entry[1] === 'string');
-    const safeEnv = Object.fromEntries(envEntries) as Record<string, string>;
+    const safeEnv = mergeWithProcessEnvironment(loadConfiguredEnvironment(config, cwd));
     const shellOptions: vscode.ShellExecutionOptions = {
       cwd: cwd,
       env: safeEnv
@@ -124,16 +217,9 @@ export class TerminalManager {
   // Run a command in a shared terminal panel (for batch execution)
   public async executeCommandWithExitCodeInSharedTerminal(command: string, config: TerminalConfig): Promise<number> {
     // Use VS Code Tasks with a shared panel so all tasks run in the same terminal
-    let cwd = config.cwd;
-    if (cwd && !path.isAbsolute(cwd) && vscode.workspace.workspaceFolders?.[0]) {
-      cwd = path.resolve(vscode.workspace.workspaceFolders[0].uri.fsPath, cwd);
-    } else if (!cwd && vscode.workspace.workspaceFolders?.[0]) {
-      cwd = vscode.workspace.workspaceFolders[0].uri.fsPath;
-    }
+    const cwd = this.resolveCwd(config.cwd);
 
-    const envEntries = Object.entries(process.env as Record<string, string | undefined>)
-      .filter((entry): entry is [string, string] => typeof entry[1] === 'string');
-    const safeEnv = Object.fromEntries(envEntries) as Record<string, string>;
+    const safeEnv = mergeWithProcessEnvironment(loadConfiguredEnvironment(config, cwd));
     const shellOptions: vscode.ShellExecutionOptions = {
       cwd: cwd,
       env: safeEnv
@@ -175,21 +261,19 @@ export class TerminalManager {
     });
   }
 
-  private async executeInCurrentTerminal(command: string, config: TerminalConfig): Promise<void> {
+  private async executeInCurrentTerminal(command: string, config: TerminalConfig, owner?: ExecutionOwner): Promise<ExecutionResult> {
     const activeTerminal = vscode.window.activeTerminal;
-    if (!activeTerminal) {
-      // Create a new terminal if none exists
+    if (!activeTerminal || this.processTerminals.has(activeTerminal) || hasProblemMatchers(owner?.problemMatcher)) {
+      // No user shell to reuse (or only one of our finished process terminals), so run in a process terminal.
+      // Problem matchers need output we can observe, which a user shell does not give us.
       const baseName = config.name || 'Commands Manager Next';
-      const terminalInstance = this.createManagedTerminal(baseName);
-      this.terminals.set(baseName, terminalInstance);
-      terminalInstance.show();
-      await this.executeInTerminal(terminalInstance, command, config);
-    } else {
-      await this.executeInTerminal(activeTerminal, command, config);
+      return await this.runInProcessTerminalWithRestarts(baseName, command, config, owner);
     }
+
+    return await this.executeInTerminal(activeTerminal, command, config);
   }
 
-  private async executeInNewTerminal(command: string, config: TerminalConfig): Promise<void> {
+  private async executeInNewTerminal(command: string, config: TerminalConfig, owner?: ExecutionOwner): Promise<ExecutionResult> {
     const { DebugLogger, DebugTag } = await import('../utils/DebugLogger');
     const terminalName = config.name || 'Commands Manager Next';
 
@@ -199,42 +283,349 @@ export class TerminalManager {
       existingTerminals: Array.from(this.terminals.keys())
     });
 
-    // Check if terminal exists and dispose it before creating a new one
-    let terminal = this.terminals.get(terminalName);
+    return await this.runInProcessTerminalWithRestarts(terminalName, command, config, owner);
+  }
 
-    if (terminal) {
+  /**
+   * Runs the process terminal again while the owner's restart policy asks for
+   * it. Closing the terminal or pressing Ctrl+C ends the run for good.
+   */
+  private async runInProcessTerminalWithRestarts(
+    terminalName: string,
+    command: string,
+    config: TerminalConfig,
+    owner?: ExecutionOwner
+  ): Promise<ExecutionResult> {
+    let attempts = 0;
+    for (;;) {
+      const { result, stopped } = await this.runInProcessTerminal(terminalName, command, config, owner);
+      if ((result.durationMs ?? 0) >= STABLE_RUN_MS) {
+        attempts = 0;
+      }
+      if (stopped || !owner || !shouldRestart(owner.restart, result.exitCode, attempts)) {
+        return result;
+      }
+
+      const delay = getRestartDelayMs(owner.restart!, attempts++);
+      this._onDidChangeReadiness.fire({ commandId: owner.commandId, label: owner.label, starting: true });
+      await new Promise(resolve => setTimeout(resolve, delay));
+      if (!hasReadinessProbe(owner.readiness)) {
+        this._onDidChangeReadiness.fire({ commandId: owner.commandId, label: owner.label, starting: false });
+      }
+    }
+  }
+
+  private async runInProcessTerminal(
+    terminalName: string,
+    command: string,
+    config: TerminalConfig,
+    owner?: ExecutionOwner
+  ): Promise<{ result: ExecutionResult; stopped: boolean }> {
+    const { DebugLogger, DebugTag } = await import('../utils/DebugLogger');
+
+    // Replace a finished terminal of the same name, but never one whose process still runs,
+    // e.g. a parallel chain step that shares the default name; that one keeps its terminal
+    const existing = this.terminals.get(terminalName);
+    const existingRunning = existing ? this.processTerminals.get(existing)?.isRunning ?? false : false;
+    if (existing && !existingRunning) {
       DebugLogger.log(DebugTag.TERMINAL, `Found existing terminal, disposing`, {
         terminalName,
-        isDisposed: this.isTerminalDisposed(terminal)
+        isDisposed: this.isTerminalDisposed(existing)
       });
-      // Dispose existing terminal before creating a new one
-      if (!this.isTerminalDisposed(terminal)) {
-        terminal.dispose();
+      if (!this.isTerminalDisposed(existing)) {
+        existing.dispose();
       }
       this.terminals.delete(terminalName);
     }
 
-    // Create a new terminal
-    terminal = this.createManagedTerminal(terminalName);
-    this.terminals.set(terminalName, terminal);
+    const cwd = this.resolveCwd(config.cwd);
+    const pty = new ProcessTerminal(command, {
+      cwd,
+      env: mergeWithProcessEnvironment(loadConfiguredEnvironment(config, cwd))
+    });
+    const watch = owner && hasReadinessProbe(owner.readiness) ? this.startReadinessWatch(owner) : undefined;
+    const outputListener = watch ? pty.onDidOutput(text => watch.onOutput(text)) : undefined;
+
+    if (owner && hasProblemMatchers(owner.problemMatcher)) {
+      await this.startProblemMatcherTask(terminalName, pty, owner);
+    } else {
+      const terminal = this.createManagedTerminal(terminalName, pty);
+      // Next to a running namesake the terminal is tracked under its own numbered name
+      this.terminals.set(existingRunning ? terminal.name : terminalName, terminal);
+      this.processTerminals.set(terminal, pty);
+
+      DebugLogger.log(DebugTag.TERMINAL, `Created new terminal`, {
+        terminalName,
+        actualName: terminal.name,
+        terminalCount: this.terminals.size
+      });
+
+      terminal.show();
+    }
+
+    const result = await pty.completion;
+    outputListener?.dispose();
+    watch?.cancel();
+
+    if (owner && hasProblemMatchers(owner.problemMatcher)) {
+      const problems = splitProblemMatchers(owner.problemMatcher).custom
+        .flatMap(definition => matchProblems(result.output, definition, cwd));
+      this.publishProblems(owner.commandId, problems);
+    }
+
+    DebugLogger.log(DebugTag.TERMINAL, `Process finished`, {
+      terminalName,
+      exitCode: result.exitCode,
+      durationMs: result.durationMs
+    });
+
+    return {
+      result: {
+        success: result.exitCode === 0,
+        exitCode: result.exitCode,
+        output: result.output,
+        durationMs: result.durationMs,
+        ...(result.exitCode !== 0 ? { error: `Command exited with code ${result.exitCode}` } : {})
+      },
+      stopped: result.stopped
+    };
+  }
 
-    DebugLogger.log(DebugTag.TERMINAL, `Created new terminal`, {
+  /**
+   * Runs the process terminal as a task. Only tasks get VS Code's problem
+   * matching, and `vscode.Task` accepts matchers by name only, so inline
+   * definitions are applied to the captured output afterwards.
+   */
+  private async startProblemMatcherTask(terminalName: string, pty: ProcessTerminal, owner: ExecutionOwner): Promise<void> {
+    const task = new vscode.Task(
+      { type: 'commands-manager-next', commandId: owner.commandId },
+      vscode.TaskScope.Workspace,
       terminalName,
-      actualName: terminal.name,
-      terminalCount: this.terminals.size
+      'Commands Manager Next',
+      new vscode.CustomExecution(async () => pty),
+      splitProblemMatchers(owner.problemMatcher).named
+    );
+    task.presentationOptions = {
+      reveal: vscode.TaskRevealKind.Always,
+      panel: vscode.TaskPanelKind.Dedicated
+    };
+
+    let execution: vscode.TaskExecution;
+    try {
+      execution = await vscode.tasks.executeTask(task);
+    } catch (error) {
+      pty.abandon(`Failed to start the task: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    // A task can end without opening its terminal, which would leave the run waiting forever
+    const endListener = vscode.tasks.onDidEndTask(event => {
+      if (event.execution === execution) {
+        endListener.dispose();
+        pty.abandon('The task ended before the command started');
+      }
+    });
+    void pty.completion.then(() => endListener.dispose());
+  }
+
+  private publishProblems(commandId: string, problems: MatchedProblem[]): void {
+    // One collection per command, so a run only replaces the problems it reported last time
+    let diagnostics = this.problemDiagnostics.get(commandId);
+    if (!diagnostics) {
+      diagnostics = vscode.languages.createDiagnosticCollection(`commands-manager-next.${commandId}`);
+      this.problemDiagnostics.set(commandId, diagnostics);
+    }
+    diagnostics.clear();
+
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+    problems.forEach(problem => {
+      const start = new vscode.Position(Math.max(problem.line - 1, 0), Math.max(problem.column - 1, 0));
+      const end = problem.endLine !== undefined
+        ? new vscode.Position(Math.max(problem.endLine - 1, 0), Math.max((problem.endColumn ?? problem.column) - 1, 0))
+        : start;
+      const severity = problem.severity === 'error'
+        ? vscode.DiagnosticSeverity.Error
+        : problem.severity === 'warning' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Information;
+      const diagnostic = new vscode.Diagnostic(new vscode.Range(start, end), problem.message, severity);
+      diagnostic.source = problem.source;
+      diagnostic.code = problem.code;
+      byFile.set(problem.file, [...(byFile.get(problem.file) ?? []), diagnostic]);
+    });
+
+    byFile.forEach((fileDiagnostics, file) => diagnostics!.set(vscode.Uri.file(file), fileDiagnostics));
+  }
+
+  /**
+   * Announces the command as starting and clears that once the probe is met,
+   * times out or is cancelled because the process ended.
+   */
+  private startReadinessWatch(owner: BackgroundProcessOwner): ReadinessWatch {
+    const probe = owner.readiness!;
+    const watch = watchReadiness(probe);
+    this._onDidChangeReadiness.fire({ commandId: owner.commandId, label: owner.label, starting: true });
+
+    void watch.outcome.then(outcome => {
+      this._onDidChangeReadiness.fire({ commandId: owner.commandId, label: owner.label, starting: false });
+      if (outcome === 'timeout') {
+        void vscode.window.showWarningMessage(`"${owner.label}" did not become ready: waited for ${describeReadinessProbe(probe)}.`);
+      }
+    });
+    return watch;
+  }
+
+  private watchBackgroundReadiness(process: BackgroundProcess): void {
+    if (!hasReadinessProbe(process.readiness)) {
+      return;
+    }
+
+    const watch = this.startReadinessWatch(process);
+    this.readinessWatches.set(process.id, watch);
+    void watch.outcome.then(outcome => {
+      this.readinessWatches.delete(process.id);
+      if (outcome === 'ready') {
+        this.restartAttempts.delete(process.commandId);
+      }
     });
+  }
+
+  private scheduleBackgroundRestart(process: BackgroundProcess, exitCode: number | undefined): void {
+    const attempts = Date.now() - process.startTime >= STABLE_RUN_MS ? 0 : this.restartAttempts.get(process.commandId) ?? 0;
+    if (!shouldRestart(process.restart, exitCode, attempts)) {
+      this.restartAttempts.delete(process.commandId);
+      return;
+    }
 
-    terminal.show();
-    await this.executeInTerminal(terminal, command, config);
+    this.restartAttempts.set(process.commandId, attempts + 1);
+    this._onDidChangeReadiness.fire({ commandId: process.commandId, label: process.label, starting: true });
+    clearTimeout(this.pendingRestarts.get(process.commandId)?.timer);
+    const timer = setTimeout(() => {
+      this.pendingRestarts.delete(process.commandId);
+      const backgroundProcesses = BackgroundProcessManager.getInstance();
+      void backgroundProcesses.start(process.command, process.config, process)
+        .catch(error => {
+          void vscode.window.showErrorMessage(`Failed to restart "${process.label}": ${error instanceof Error ? error.message : error}`);
+        })
+        .finally(() => {
+          // Without a probe nothing else ends the starting state of the restart
+          if (!hasReadinessProbe(process.readiness)) {
+            this._onDidChangeReadiness.fire({ commandId: process.commandId, label: process.label, starting: false });
+          }
+        });
+    }, getRestartDelayMs(process.restart!, attempts));
+    this.pendingRestarts.set(process.commandId, { timer, label: process.label });
   }
 
-  private async executeInTerminal(terminal: vscode.Terminal, command: string, config: TerminalConfig): Promise<void> {
-    // Change directory if specified
+  /** Cancels background restarts still waiting out their backoff, for one command or all of them */
+  public cancelPendingRestarts(commandId?: string): void {
+    for (const [pendingId, pending] of this.pendingRestarts) {
+      if (commandId !== undefined && pendingId !== commandId) {
+        continue;
+      }
+      clearTimeout(pending.timer);
+      this.pendingRestarts.delete(pendingId);
+      this.restartAttempts.delete(pendingId);
+      this._onDidChangeReadiness.fire({ commandId: pendingId, label: pending.label, starting: false });
+    }
+  }
+
+  private async executeInTerminal(terminal: vscode.Terminal, command: string, config: TerminalConfig): Promise<ExecutionResult> {
+    // The shell is already running, so configured variables have to travel with the command text
+    const env = loadConfiguredEnvironment(config, this.resolveCwd(config.cwd));
+    const shellPath = 'shellPath' in terminal.creationOptions ? terminal.creationOptions.shellPath : undefined;
+    const shell = detectShellKind(shellPath || vscode.env.shell);
+    command = applyEnvironmentToCommand(command, env, shell);
+
+    // The directory change travels in the same command line, so shell integration reports one execution
     if (config.cwd) {
-      terminal.sendText(`cd "${config.cwd}"`);
+      command = applyCwdToCommand(command, config.cwd, shell);
+    }
+
+    // Shell integration (VS Code 1.93+) lets us observe the exit code of commands sent to a user shell.
+    // The engine allows older versions, where these APIs are missing, so they are detected first
+    const shellIntegration = terminal.shellIntegration;
+    if (
+      shellIntegration
+      && typeof shellIntegration.executeCommand === 'function'
+      && typeof vscode.window.onDidStartTerminalShellExecution === 'function'
+      && typeof vscode.window.onDidEndTerminalShellExecution === 'function'
+    ) {
+      return await this.executeWithShellIntegration(terminal, shellIntegration, command);
     }
 
     terminal.sendText(command);
+    // Without shell integration the text is handed to the shell and the outcome is unknown
+    return { success: true };
+  }
+
+  private async executeWithShellIntegration(
+    terminal: vscode.Terminal,
+    shellIntegration: vscode.TerminalShellIntegration,
+    command: string
+  ): Promise<ExecutionResult> {
+    const startTime = Date.now();
+    const execution = shellIntegration.executeCommand(command);
+
+    const outputPromise = (async () => {
+      let output = '';
+      for await (const chunk of execution.read()) {
+        output += chunk;
+      }
+      return output;
+    })().catch(() => undefined);
+
+    // Followed until it ends, the terminal closes, the shell starts something else (so the end
+    // was missed) or the wait runs out; a long-running command is then left running on its own
+    const ending = await new Promise<{ ended: boolean; exitCode?: number }>(resolve => {
+      const listeners: vscode.Disposable[] = [];
+      let started = false;
+      const timer = setTimeout(() => settle({ ended: false }), SHELL_EXECUTION_WAIT_MS);
+      const settle = (outcome: { ended: boolean; exitCode?: number }) => {
+        clearTimeout(timer);
+        listeners.forEach(listener => listener.dispose());
+        resolve(outcome);
+      };
+
+      listeners.push(
+        vscode.window.onDidEndTerminalShellExecution(event => {
+          if (event.terminal === terminal && event.execution === execution) {
+            settle({ ended: true, exitCode: event.exitCode });
+          }
+        }),
+        vscode.window.onDidStartTerminalShellExecution(event => {
+          if (event.terminal !== terminal) {
+            return;
+          }
+          // Only a start after our own shows its end was missed; earlier ones are still queued ahead of it
+          if (event.execution === execution) {
+            started = true;
+          } else if (started) {
+            settle({ ended: false });
+          }
+        }),
+        vscode.window.onDidCloseTerminal(closed => {
+          if (closed === terminal) {
+            settle({ ended: false });
+          }
+        })
+      );
+    });
+
+    // The output stream only finishes with the execution, so it is read only for runs that ended
+    const output = ending.ended ? await outputPromise : undefined;
+    const durationMs = Date.now() - startTime;
+    const exitCode = ending.exitCode;
+
+    if (typeof exitCode !== 'number') {
+      return { success: true, output, durationMs };
+    }
+
+    return {
+      success: exitCode === 0,
+      exitCode,
+      output,
+      durationMs,
+      ...(exitCode !== 0 ? { error: `Command exited with code ${exitCode}` } : {})
+    };
   }
 
   private async executeInExternalCmd(command: string, config: TerminalConfig): Promise<void> {
@@ -245,6 +636,7 @@ export class TerminalManager {
     }
 
     const process = child_process.spawn('cmd.exe', args, {
+      env: mergeWithProcessEnvironment(loadConfiguredEnvironment(config, this.resolveCwd(config.cwd))),
       detached: true,
       stdio: 'ignore',
       windowsVerbatimArguments: true
@@ -259,6 +651,7 @@ export class TerminalManager {
 
     const process = child_process.spawn('powershell.exe', args, {
       cwd: config.cwd,
+      env: mergeWithProcessEnvironment(loadConfiguredEnvironment(config, this.resolveCwd(config.cwd))),
       detached: true,
       stdio: 'ignore',
       windowsVerbatimArguments: true
@@ -267,6 +660,53 @@ export class TerminalManager {
     process.unref();
   }
 
+  /**
+   * Opens the platform's terminal application: Terminal.app on macOS, otherwise
+   * the configured or first available emulator.
+   */
+  private async executeInExternalSystem(command: string, config: TerminalConfig, shell: 'posix' | 'pwsh'): Promise<void> {
+    const cwd = this.resolveCwd(config.cwd);
+    const configuredEnv = loadConfiguredEnvironment(config, cwd);
+    let launch: ExternalLaunch;
+
+    if (process.platform === 'darwin') {
+      // Terminal.app starts a login shell of its own, so the environment travels in the command
+      const withEnv = applyEnvironmentToCommand(command, configuredEnv, shell === 'pwsh' ? 'powershell' : 'posix');
+      launch = buildMacOsLaunch(getShellArgs(withEnv, shell), cwd);
+    } else {
+      const configured = vscode.workspace.getConfiguration('commands-manager-next.tasks')
+        .get<string>('externalTerminal.emulator', 'auto');
+      const emulator = detectEmulator(configured, process.env.TERMINAL, candidate => this.isOnPath(candidate));
+      if (!emulator) {
+        throw new Error(
+          `No supported terminal emulator found. Install one of ${SUPPORTED_EMULATORS.join(', ')} ` +
+          'or set commands-manager-next.tasks.externalTerminal.emulator.'
+        );
+      }
+      launch = buildEmulatorLaunch(emulator, getShellArgs(command, shell), cwd);
+    }
+
+    const child = child_process.spawn(launch.command, launch.args, {
+      cwd,
+      env: mergeWithProcessEnvironment(configuredEnv),
+      detached: true,
+      stdio: 'ignore'
+    });
+
+    // Report a missing emulator instead of failing silently in the background
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', resolve);
+      child.once('error', error => reject(new Error(`Could not start ${launch.command}: ${error.message}`)));
+    });
+    child.unref();
+  }
+
+  private isOnPath(command: string): boolean {
+    return (process.env.PATH ?? '')
+      .split(path.delimiter)
+      .some(directory => directory && fs.existsSync(path.join(directory, command)));
+  }
+
   public getTerminal(name: string): vscode.Terminal | undefined {
     const terminal = this.terminals.get(name);
     // Also check if there's a terminal with the exact name in VS Code's terminals
@@ -307,7 +747,18 @@ export class TerminalManager {
     return Array.from(this.terminals.keys());
   }
 
-  public setRunner(runner?: (command: string, config: TerminalConfig) => Promise<void>): void {
+  public dispose(): void {
+    this.cancelPendingRestarts();
+    this.readinessWatches.forEach(watch => watch.cancel());
+    this.readinessWatches.clear();
+    this.closeListener.dispose();
+    this.backgroundListeners.forEach(listener => listener.dispose());
+    this.problemDiagnostics.forEach(diagnostics => diagnostics.dispose());
+    this.problemDiagnostics.clear();
+    this._onDidChangeReadiness.dispose();
+  }
+
+  public setRunner(runner?: (command: string, config: TerminalConfig) => Promise<void | ExecutionResult>): void {
     this.customRunner = runner;
   }
 
@@ -315,20 +766,24 @@ export class TerminalManager {
     return typeof terminal.exitStatus !== 'undefined';
   }
 
-  private createManagedTerminal(baseName: string): vscode.Terminal {
+  private createManagedTerminal(baseName: string, pty?: vscode.Pseudoterminal): vscode.Terminal {
     const existingNames = new Set(vscode.window.terminals.map(term => term.name));
 
-    if (!existingNames.has(baseName)) {
-      return vscode.window.createTerminal(baseName);
-    }
-
+    let candidate = baseName;
     let attempt = 1;
-    let candidate = `${baseName} #${attempt}`;
     while (existingNames.has(candidate)) {
-      attempt += 1;
       candidate = `${baseName} #${attempt}`;
+      attempt += 1;
     }
 
-    return vscode.window.createTerminal(candidate);
+    return pty
+      ? vscode.window.createTerminal({ name: candidate, pty })
+      : vscode.window.createTerminal(candidate);
+  }
+
+  // Relative paths fall back to the first workspace folder; callers that know the
+  // command's folder pass an absolute cwd
+  public resolveCwd(cwd?: string): string | undefined {
+    return resolveWorkspacePath(cwd);
   }
 }
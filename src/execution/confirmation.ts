@@ -0,0 +1,76 @@
+import { Command, ConfirmLevel } from '../types';
+
+export const CONFIRM_LEVELS: readonly ConfirmLevel[] = ['none', 'modal', 'typeLabel'];
+
+/**
+ * Commands that destroy infrastructure, data or history. Matched
+ * case-insensitively against the resolved command text.
+ */
+export const DEFAULT_DANGEROUS_PATTERNS = [
+  String.raw`\brm\s+-[a-z]*r[a-z]*f|\brm\s+-[a-z]*f[a-z]*r`,
+  String.raw`\bterraform\s+(apply|destroy)\b`,
+  String.raw`\bkubectl\s+(delete|drain)\b`,
+  String.raw`\bhelm\s+(uninstall|delete)\b`,
+  String.raw`\bdrop\s+(database|schema|table)\b`,
+  String.raw`\btruncate\s+table\b`,
+  String.raw`\bgit\s+push\b.*(\s--force\b|\s-f\b)`,
+  String.raw`\bgit\s+reset\s+--hard\b`,
+  String.raw`\bgit\s+clean\s+-[a-z]*f`,
+  String.raw`\bdocker\s+system\s+prune\b`,
+  String.raw`\bmkfs(\.\w+)?\b`,
+  String.raw`\bdd\s+.*\bof=/dev/`
+];
+
+export interface DangerDetection {
+  enabled: boolean;
+  /** Regular expression sources; invalid ones are skipped */
+  patterns: string[];
+}
+
+export interface ConfirmationRequirement {
+  level: ConfirmLevel;
+  /** Text that matched a dangerous pattern, when detection chose the level */
+  matched?: string;
+}
+
+/** Returns the part of the text that matches the first dangerous pattern, if any */
+export function findDangerousMatch(text: string, patterns: string[]): string | undefined {
+  for (const pattern of patterns) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, 'i');
+    } catch {
+      continue;
+    }
+    const match = regex.exec(text);
+    if (match) {
+      return match[0];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The confirmation a run needs. An explicit `confirm` on the command always
+ * wins, so "none" silences detection; otherwise a dangerous match asks with
+ * a yes/no dialog.
+ */
+export function getConfirmationRequirement(command: Command, resolvedText: string, detection: DangerDetection): ConfirmationRequirement {
+  if (command.confirm) {
+    return { level: command.confirm };
+  }
+  const matched = detection.enabled ? findDangerousMatch(resolvedText, detection.patterns) : undefined;
+  return matched ? { level: 'modal', matched } : { level: 'none' };
+}
+
+/**
+ * Whether the command is flagged before it runs, judged on its unresolved
+ * text since variables are only known at run time.
+ */
+export function isDangerousCommand(command: Command, detection: DangerDetection): boolean {
+  return getConfirmationRequirement(command, command.command, detection).level !== 'none';
+}
+
+export function matchesConfirmationText(input: string, label: string): boolean {
+  return input.trim() === label.trim();
+}
@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TerminalConfig } from '../types';
+
+export type ShellKind = 'posix' | 'powershell' | 'cmd' | 'fish';
+
+/**
+ * Parses the contents of a .env file. Supports comments, an optional `export`
+ * prefix, single quoted literals and double quoted values with escapes.
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const match = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    const [, key] = match;
+    let value = match[2];
+
+    if (value.startsWith('"') || value.startsWith("'")) {
+      const quote = value[0];
+      let body = value.slice(1);
+
+      // Quoted values may span several lines until the closing quote
+      while (!hasClosingQuote(body, quote) && index + 1 < lines.length) {
+        index += 1;
+        body += `\n${lines[index]}`;
+      }
+
+      const closing = findClosingQuote(body, quote);
+      body = closing >= 0 ? body.slice(0, closing) : body;
+      value = quote === '"'
+        ? body.replace(/\\n/g, '\n').replace(/\\r/g, '\r').replace(/\\t/g, '\t').replace(/\\(["\\])/g, '$1')
+        : body;
+    } else {
+      // Unquoted values end at an inline comment
+      const commentIndex = value.search(/\s#/);
+      value = (commentIndex >= 0 ? value.slice(0, commentIndex) : value).trim();
+    }
+
+    env[key] = value;
+  }
+
+  return env;
+}
+
+function findClosingQuote(text: string, quote: string): number {
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === '\\' && quote === '"') {
+      index += 1;
+      continue;
+    }
+    if (text[index] === quote) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function hasClosingQuote(text: string, quote: string): boolean {
+  return findClosingQuote(text, quote) >= 0;
+}
+
+/**
+ * Returns only the variables configured for the command: the env file first,
+ * then the inline `env` map so explicit values win.
+ */
+export function loadConfiguredEnvironment(config: TerminalConfig, baseDirectory?: string): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  if (config.envFile) {
+    const envFilePath = path.isAbsolute(config.envFile) || !baseDirectory
+      ? config.envFile
+      : path.resolve(baseDirectory, config.envFile);
+
+    if (!fs.existsSync(envFilePath)) {
+      throw new Error(`Environment file not found: ${envFilePath}`);
+    }
+
+    Object.assign(env, parseEnvFile(fs.readFileSync(envFilePath, 'utf8')));
+  }
+
+  Object.entries(config.env ?? {}).forEach(([key, value]) => {
+    if (typeof value === 'string') {
+      env[key] = value;
+    }
+  });
+
+  return env;
+}
+
+/**
+ * Merges the configured variables over the extension host environment, dropping
+ * undefined entries so the result can be handed to VS Code task APIs.
+ */
+export function mergeWithProcessEnvironment(configured: Record<string, string>): Record<string, string> {
+  const envEntries = Object.entries(process.env as Record<string, string | undefined>)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+  return { ...Object.fromEntries(envEntries), ...configured };
+}
+
+export function detectShellKind(shellPath?: string): ShellKind {
+  // Accept both separators so Windows shell paths are recognised on any host
+  const name = (shellPath ?? '').split(/[\\/]/).pop()!.toLowerCase();
+  if (name.startsWith('pwsh') || name.startsWith('powershell')) {
+    return 'powershell';
+  }
+  if (name === 'cmd' || name === 'cmd.exe') {
+    return 'cmd';
+  }
+  if (name.startsWith('fish')) {
+    return 'fish';
+  }
+  return 'posix';
+}
+
+/**
+ * Wraps a command so the variables apply to it when it is typed into a shell we
+ * did not start ourselves (e.g. the user's current terminal). POSIX shells, fish
+ * and cmd scope them to the command; PowerShell keeps them for the session.
+ */
+export function applyEnvironmentToCommand(command: string, env: Record<string, string>, shell: ShellKind): string {
+  const entries = Object.entries(env);
+  if (entries.length === 0) {
+    return command;
+  }
+
+  switch (shell) {
+    case 'powershell': {
+      const assignments = entries.map(([key, value]) => `$env:${key}='${value.replace(/'/g, "''")}'`).join('; ');
+      return `& { ${assignments}; ${command} }`;
+    }
+    case 'cmd': {
+      // cmd /c strips only the outermost quotes, so the inner command keeps its own quoting
+      const assignments = entries.map(([key, value]) => `set "${key}=${value}"`).join(' && ');
+      return `cmd /c "${assignments} && ${command}"`;
+    }
+    case 'fish': {
+      const assignments = entries.map(([key, value]) => `set -lx ${key} '${value.replace(/(['\\])/g, '\\$1')}'`).join('; ');
+      return `begin; ${assignments}; ${command}; end`;
+    }
+    default: {
+      const assignments = entries.map(([key, value]) => `export ${key}='${value.replace(/'/g, `'\\''`)}'`).join('; ');
+      return `(${assignments}; ${command})`;
+    }
+  }
+}
+
+/**
+ * Prefixes a command with a change of directory, so both reach the shell as one
+ * command line and the command only runs when the directory exists.
+ */
+export function applyCwdToCommand(command: string, cwd: string, shell: ShellKind): string {
+  switch (shell) {
+    case 'powershell':
+      return `Set-Location -LiteralPath '${cwd.replace(/'/g, "''")}' -ErrorAction Stop; ${command}`;
+    case 'cmd':
+      return `cd /d "${cwd}" && ${command}`;
+    case 'fish':
+      return `cd '${cwd.replace(/(['\\])/g, '\\$1')}'; and ${command}`;
+    default:
+      return `cd '${cwd.replace(/'/g, `'\\''`)}' && ${command}`;
+  }
+}
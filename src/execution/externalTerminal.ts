@@ -0,0 +1,95 @@
+import { TerminalConfig } from '../types';
+
+export const SUPPORTED_EMULATORS = ['gnome-terminal', 'konsole', 'xterm', 'kitty', 'alacritty', 'wezterm'] as const;
+export type TerminalEmulator = typeof SUPPORTED_EMULATORS[number];
+
+export interface ExternalLaunch {
+  command: string;
+  args: string[];
+}
+
+export function isSupportedEmulator(name: string | undefined): name is TerminalEmulator {
+  return SUPPORTED_EMULATORS.includes(name as TerminalEmulator);
+}
+
+/**
+ * Picks the emulator to launch on Linux: the configured one, then `$TERMINAL`
+ * when it names a supported emulator, then the first supported one on PATH.
+ */
+export function detectEmulator(
+  configured: string | undefined,
+  terminalEnv: string | undefined,
+  isOnPath: (command: string) => boolean
+): TerminalEmulator | undefined {
+  if (isSupportedEmulator(configured)) {
+    return configured;
+  }
+
+  const fromEnv = terminalEnv?.split('/').pop();
+  if (isSupportedEmulator(fromEnv) && isOnPath(fromEnv)) {
+    return fromEnv;
+  }
+
+  return SUPPORTED_EMULATORS.find(candidate => isOnPath(candidate));
+}
+
+/**
+ * The shell invocation run inside the new window. Like `cmd /k`, the window
+ * stays open on an interactive shell once the command finishes.
+ */
+export function getShellArgs(command: string, shell: 'posix' | 'pwsh'): string[] {
+  if (shell === 'pwsh') {
+    return ['pwsh', '-NoExit', '-Command', `& { ${command} }`];
+  }
+  return ['/bin/sh', '-c', `${command}\nexec "\${SHELL:-/bin/sh}"`];
+}
+
+/**
+ * Builds the emulator command line. Emulators without a working directory
+ * flag rely on the spawn cwd, which is set as well.
+ */
+export function buildEmulatorLaunch(emulator: TerminalEmulator, shellArgs: string[], cwd?: string): ExternalLaunch {
+  switch (emulator) {
+    case 'gnome-terminal':
+      return { command: emulator, args: [...(cwd ? [`--working-directory=${cwd}`] : []), '--', ...shellArgs] };
+    case 'konsole':
+      return { command: emulator, args: [...(cwd ? ['--workdir', cwd] : []), '-e', ...shellArgs] };
+    case 'xterm':
+      return { command: emulator, args: ['-e', ...shellArgs] };
+    case 'kitty':
+      return { command: emulator, args: [...(cwd ? ['--directory', cwd] : []), ...shellArgs] };
+    case 'alacritty':
+      return { command: emulator, args: [...(cwd ? ['--working-directory', cwd] : []), '-e', ...shellArgs] };
+    case 'wezterm':
+      return { command: emulator, args: ['start', ...(cwd ? ['--cwd', cwd] : []), '--', ...shellArgs] };
+  }
+}
+
+function quotePosix(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * macOS opens Terminal.app through AppleScript, which takes one shell line.
+ */
+export function buildMacOsLaunch(shellArgs: string[], cwd?: string): ExternalLaunch {
+  const line = [cwd ? `cd ${quotePosix(cwd)}` : undefined, shellArgs.map(quotePosix).join(' ')]
+    .filter(Boolean)
+    .join(' && ');
+  const script = line.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+  return {
+    command: 'osascript',
+    args: ['-e', `tell application "Terminal" to do script "${script}"`, '-e', 'tell application "Terminal" to activate']
+  };
+}
+
+/**
+ * Explains why a terminal type cannot run on the platform, if it cannot.
+ */
+export function getUnsupportedTerminalReason(type: TerminalConfig['type'], platform: NodeJS.Platform): string | undefined {
+  if (type === 'external-cmd' && platform !== 'win32') {
+    return 'uses the "external-cmd" terminal, which needs Windows. Use "external-system" instead.';
+  }
+  return undefined;
+}
@@ -0,0 +1,168 @@
+import * as path from 'path';
+import { ProblemMatcherDefinition, ProblemMatcherSetting, ProblemPattern } from '../types';
+
+/** Matchers VS Code or its bundled extensions contribute, offered by the command editor */
+export const BUILT_IN_PROBLEM_MATCHERS = [
+  '$tsc',
+  '$tsc-watch',
+  '$eslint-stylish',
+  '$eslint-compact',
+  '$gcc',
+  '$msCompile',
+  '$go',
+  '$jshint',
+  '$lessCompile'
+] as const;
+
+export type ProblemSeverity = 'error' | 'warning' | 'info';
+
+export interface MatchedProblem {
+  file: string;
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+  severity: ProblemSeverity;
+  message: string;
+  code?: string;
+  source?: string;
+}
+
+/**
+ * Splits a problemMatcher setting into the names VS Code resolves itself and
+ * the inline definitions this extension applies to the output.
+ */
+export function splitProblemMatchers(setting: ProblemMatcherSetting | undefined): {
+  named: string[];
+  custom: ProblemMatcherDefinition[];
+} {
+  const entries = setting === undefined ? [] : Array.isArray(setting) ? setting : [setting];
+  return {
+    named: entries.filter((entry): entry is string => typeof entry === 'string' && entry.trim().length > 0),
+    custom: entries.filter((entry): entry is ProblemMatcherDefinition => Boolean(entry) && typeof entry === 'object')
+  };
+}
+
+export function hasProblemMatchers(setting: ProblemMatcherSetting | undefined): boolean {
+  const { named, custom } = splitProblemMatchers(setting);
+  return named.length > 0 || custom.length > 0;
+}
+
+function toSeverity(value: string | undefined, fallback: ProblemSeverity): ProblemSeverity {
+  const normalized = value?.toLowerCase();
+  if (normalized?.startsWith('err')) {
+    return 'error';
+  }
+  if (normalized?.startsWith('warn')) {
+    return 'warning';
+  }
+  if (normalized?.startsWith('info') || normalized === 'note' || normalized === 'hint') {
+    return 'info';
+  }
+  return fallback;
+}
+
+function resolveFile(file: string, definition: ProblemMatcherDefinition, cwd?: string): string {
+  const location = Array.isArray(definition.fileLocation) ? definition.fileLocation : [definition.fileLocation ?? 'relative'];
+  if (location[0] === 'absolute' || path.isAbsolute(file)) {
+    return file;
+  }
+  const base = location[1] ?? cwd;
+  return base ? path.resolve(base, file) : file;
+}
+
+function group(match: RegExpExecArray, index: number | undefined): string | undefined {
+  return index === undefined ? undefined : match[index];
+}
+
+/**
+ * Runs a matcher definition over the output, in the tasks.json format: one
+ * pattern per line, or consecutive patterns for messages spanning lines. A
+ * `loop` on the last pattern keeps matching it for following lines.
+ */
+export function matchProblems(output: string, definition: ProblemMatcherDefinition, cwd?: string): MatchedProblem[] {
+  const patterns: ProblemPattern[] = Array.isArray(definition.pattern) ? definition.pattern : [definition.pattern];
+  const regexes = patterns.map(pattern => new RegExp(pattern.regexp));
+  const lines = output.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '').split(/\r?\n/);
+  const defaultSeverity = toSeverity(definition.severity, 'error');
+  const problems: MatchedProblem[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const fields: Partial<Record<keyof ProblemPattern, string>> = {};
+    let lineIndex = index;
+    let matched = true;
+
+    // Every pattern but the last collects shared fields from consecutive lines
+    for (let patternIndex = 0; patternIndex < patterns.length - 1; patternIndex++, lineIndex++) {
+      const match = lineIndex < lines.length ? regexes[patternIndex].exec(lines[lineIndex]) : null;
+      if (!match) {
+        matched = false;
+        break;
+      }
+      collectFields(fields, patterns[patternIndex], match);
+    }
+    if (!matched) {
+      continue;
+    }
+
+    const last = patterns[patterns.length - 1];
+    let lastIndex = lineIndex;
+    do {
+      const match = lastIndex < lines.length ? regexes[regexes.length - 1].exec(lines[lastIndex]) : null;
+      if (!match) {
+        break;
+      }
+      const lineFields = { ...fields };
+      collectFields(lineFields, last, match);
+      const problem = toProblem(lineFields, definition, defaultSeverity, cwd);
+      if (problem) {
+        problems.push(problem);
+      }
+      lastIndex++;
+    } while (last.loop);
+
+    if (lastIndex > lineIndex) {
+      index = lastIndex - 1;
+    }
+  }
+
+  return problems;
+}
+
+function collectFields(fields: Partial<Record<keyof ProblemPattern, string>>, pattern: ProblemPattern, match: RegExpExecArray): void {
+  (['file', 'line', 'column', 'endLine', 'endColumn', 'severity', 'code', 'message'] as const).forEach(key => {
+    const value = group(match, pattern[key]);
+    if (value !== undefined) {
+      fields[key] = value;
+    }
+  });
+  const location = group(match, pattern.location);
+  if (location) {
+    const [line, column, endLine, endColumn] = location.split(',');
+    Object.assign(fields, { line, column, endLine, endColumn });
+  }
+}
+
+function toProblem(
+  fields: Partial<Record<keyof ProblemPattern, string>>,
+  definition: ProblemMatcherDefinition,
+  defaultSeverity: ProblemSeverity,
+  cwd?: string
+): MatchedProblem | undefined {
+  if (!fields.file || !fields.message) {
+    return undefined;
+  }
+
+  const toNumber = (value: string | undefined) => (value === undefined || value === '' ? undefined : Number(value));
+  return {
+    file: resolveFile(fields.file, definition, cwd),
+    line: toNumber(fields.line) ?? 1,
+    column: toNumber(fields.column) ?? 1,
+    endLine: toNumber(fields.endLine),
+    endColumn: toNumber(fields.endColumn),
+    severity: toSeverity(fields.severity, defaultSeverity),
+    message: fields.message.trim(),
+    code: fields.code,
+    source: definition.source ?? definition.owner
+  };
+}
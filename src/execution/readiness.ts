@@ -0,0 +1,157 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { ReadinessProbe, RestartPolicy } from '../types';
+
+const DEFAULT_READINESS_TIMEOUT_SECONDS = 60;
+const PROBE_INTERVAL_MS = 500;
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_BACKOFF_SECONDS = 1;
+const MAX_BACKOFF_SECONDS = 60;
+// Output kept for pattern matching, so a match split across chunks is still found
+const MAX_MATCH_BUFFER = 16 * 1024;
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1'];
+
+export type ReadinessOutcome = 'ready' | 'timeout' | 'cancelled';
+
+export interface ReadinessWatch {
+  outcome: Promise<ReadinessOutcome>;
+  /** Feeds process output to the pattern probe */
+  onOutput(text: string): void;
+  cancel(): void;
+}
+
+export function hasReadinessProbe(probe: ReadinessProbe | undefined): probe is ReadinessProbe {
+  return Boolean(probe && (probe.pattern || probe.port || probe.url));
+}
+
+export function describeReadinessProbe(probe: ReadinessProbe): string {
+  return [
+    probe.pattern ? `output matching /${probe.pattern}/` : undefined,
+    probe.port ? `port ${probe.port}` : undefined,
+    probe.url ? probe.url : undefined
+  ].filter(Boolean).join(' or ');
+}
+
+/**
+ * Returns a matcher for the output stream. Color codes are stripped so
+ * patterns can be written against the text the user sees.
+ */
+export function createOutputMatcher(pattern: string): (text: string) => boolean {
+  const regex = new RegExp(pattern, 'm');
+  let buffer = '';
+  return text => {
+    buffer = (buffer + text.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '')).slice(-MAX_MATCH_BUFFER);
+    return regex.test(buffer);
+  };
+}
+
+/**
+ * Whether something listens on the port locally. Servers may bind only the
+ * IPv4 or only the IPv6 loopback address (Node picks by what `localhost`
+ * resolves to), so both are tried.
+ */
+export async function isPortOpen(port: number, timeoutMs = 1000): Promise<boolean> {
+  const results = await Promise.all(LOOPBACK_HOSTS.map(host => canConnect(port, host, timeoutMs)));
+  return results.some(Boolean);
+}
+
+function canConnect(port: number, host: string, timeoutMs: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const socket = net.connect({ port, host });
+    const done = (open: boolean) => {
+      socket.destroy();
+      resolve(open);
+    };
+    socket.setTimeout(timeoutMs, () => done(false));
+    socket.once('connect', () => done(true));
+    socket.once('error', () => done(false));
+  });
+}
+
+export function isUrlReady(url: string, timeoutMs = 2000): Promise<boolean> {
+  return new Promise(resolve => {
+    const client = url.startsWith('https:') ? https : http;
+    try {
+      const request = client.get(url, { timeout: timeoutMs }, response => {
+        response.resume();
+        resolve(response.statusCode === 200);
+      });
+      request.once('timeout', () => request.destroy());
+      request.once('error', () => resolve(false));
+    } catch {
+      resolve(false);
+    }
+  });
+}
+
+/**
+ * Starts checking the probe. Port and URL probes are polled; the pattern is
+ * matched as output is fed in.
+ */
+export function watchReadiness(probe: ReadinessProbe): ReadinessWatch {
+  const matcher = probe.pattern ? createOutputMatcher(probe.pattern) : undefined;
+  let settle: (outcome: ReadinessOutcome) => void = () => undefined;
+  let settled = false;
+  let pollTimer: NodeJS.Timeout | undefined;
+
+  const outcome = new Promise<ReadinessOutcome>(resolve => {
+    settle = value => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(pollTimer);
+      clearTimeout(deadline);
+      resolve(value);
+    };
+  });
+
+  const poll = async () => {
+    const checks: Promise<boolean>[] = [];
+    if (probe.port) {
+      checks.push(isPortOpen(probe.port));
+    }
+    if (probe.url) {
+      checks.push(isUrlReady(probe.url));
+    }
+    const results = await Promise.all(checks);
+    if (results.some(Boolean)) {
+      settle('ready');
+    } else if (!settled) {
+      pollTimer = setTimeout(() => void poll(), PROBE_INTERVAL_MS);
+    }
+  };
+
+  const deadline = setTimeout(() => settle('timeout'), (probe.timeoutSeconds ?? DEFAULT_READINESS_TIMEOUT_SECONDS) * 1000);
+  if (probe.port || probe.url) {
+    void poll();
+  }
+
+  return {
+    outcome,
+    onOutput: text => {
+      if (matcher && !settled && matcher(text)) {
+        settle('ready');
+      }
+    },
+    cancel: () => settle('cancelled')
+  };
+}
+
+/**
+ * Decides whether a process that exited with `exitCode` is started again,
+ * given the number of restarts already made.
+ */
+export function shouldRestart(policy: RestartPolicy | undefined, exitCode: number | undefined, attempts: number): boolean {
+  if (!policy || attempts >= (policy.maxRetries ?? DEFAULT_MAX_RETRIES)) {
+    return false;
+  }
+  return policy.mode === 'always' || exitCode !== 0;
+}
+
+/** Delay before restart number `attempt + 1`: exponential, capped at a minute */
+export function getRestartDelayMs(policy: RestartPolicy, attempt: number): number {
+  const base = policy.backoffSeconds ?? DEFAULT_BACKOFF_SECONDS;
+  return Math.min(base * 2 ** attempt, MAX_BACKOFF_SECONDS) * 1000;
+}
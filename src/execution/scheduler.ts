@@ -0,0 +1,315 @@
+import { Command, CommandSchedule } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+// Far enough to find the next 29 February whatever the other fields say
+const CRON_SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * MINUTE_MS;
+// setTimeout overflows past ~24.8 days, so longer waits are split into chunks
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/** Time source and timers of the scheduler, replaced by a fake one in tests */
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, delayMs: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Whether day-of-month and day-of-week were restricted; when both are, either may match */
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const CRON_FIELDS: Array<{ name: string; min: number; max: number; names?: string[]; nameOffset?: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  // 7 is accepted for Sunday as in most cron implementations
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES, nameOffset: 0 }
+];
+
+function parseCronValue(text: string, field: typeof CRON_FIELDS[number]): number {
+  const nameIndex = field.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = nameIndex >= 0 ? nameIndex + (field.nameOffset ?? 0) : /^\d+$/.test(text) ? Number(text) : NaN;
+  if (!Number.isInteger(value) || value < field.min || value > field.max) {
+    throw new Error(`"${text}" is not a valid ${field.name}`);
+  }
+  return value;
+}
+
+function parseCronField(text: string, field: typeof CRON_FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+  text.split(',').forEach(part => {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`"${part}" has an invalid step in the ${field.name} field`);
+    }
+
+    let from = field.min;
+    let to = field.max;
+    if (range !== '*') {
+      const [start, end] = range.split('-');
+      from = parseCronValue(start, field);
+      // "5/15" means from 5 to the end in steps of 15
+      to = end !== undefined ? parseCronValue(end, field) : stepText !== undefined ? field.max : from;
+      if (from > to) {
+        throw new Error(`"${part}" is an empty range in the ${field.name} field`);
+      }
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  });
+  return values;
+}
+
+/**
+ * Parses a five-field cron expression (minute hour day-of-month month
+ * day-of-week) or a macro such as @daily. Throws with a readable message when
+ * the expression is invalid.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (CRON_MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`"${expression}" must have five fields: minute hour day-of-month month day-of-week`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((text, index) => parseCronField(text, CRON_FIELDS[index]));
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === '*',
+    anyWeekday: fields[4] === '*'
+  };
+}
+
+function matchesDay(cron: CronSchedule, date: Date): boolean {
+  const dayMatches = cron.days.has(date.getDate());
+  const weekdayMatches = cron.weekdays.has(date.getDay());
+  if (!cron.anyDay && !cron.anyWeekday) {
+    return dayMatches || weekdayMatches;
+  }
+  return dayMatches && weekdayMatches;
+}
+
+/** The first minute strictly after `after` that the expression matches, in local time */
+export function nextCronTime(cron: CronSchedule, after: number): number | undefined {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  while (date.getTime() <= after + CRON_SEARCH_LIMIT_MS) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * When the schedule next fires after `after`. Intervals count from `anchor`,
+ * usually the last run, so they keep their rhythm across sessions; without
+ * one they count from `after`.
+ */
+export function getNextRun(schedule: CommandSchedule, after: number, anchor?: number): number | undefined {
+  if (schedule.cron) {
+    try {
+      return nextCronTime(parseCron(schedule.cron), after);
+    } catch {
+      return undefined;
+    }
+  }
+  if (schedule.intervalMinutes && schedule.intervalMinutes > 0) {
+    const interval = schedule.intervalMinutes * MINUTE_MS;
+    const start = anchor ?? after;
+    return start > after ? start : start + (Math.floor((after - start) / interval) + 1) * interval;
+  }
+  return undefined;
+}
+
+/**
+ * How many times the schedule would have fired between `since` and `until`,
+ * not counting runs up to `lastRun`. Counting stops at `limit`.
+ */
+export function countMissedRuns(schedule: CommandSchedule, since: number, until: number, lastRun?: number, limit = 100): number {
+  let time = Math.max(since, lastRun ?? since);
+  let count = 0;
+  while (count < limit) {
+    const next = getNextRun(schedule, time, lastRun ?? since);
+    if (next === undefined || next > until) {
+      break;
+    }
+    count++;
+    time = next;
+  }
+  return count;
+}
+
+export function hasTimedSchedule(command: Command): boolean {
+  return Boolean(command.schedule?.cron || command.schedule?.intervalMinutes);
+}
+
+export interface SchedulerCallbacks {
+  run(command: Command): void;
+  /** Called after a run and when pausing or resuming changes the next-run times */
+  changed?(): void;
+}
+
+interface ScheduledEntry {
+  command: Command;
+  next?: number;
+  timer?: unknown;
+}
+
+/**
+ * Fires commands on their cron or interval schedule while it is running.
+ * Runs that fall due while paused or stopped are skipped, never replayed.
+ */
+export class CommandScheduler {
+  private readonly entries = new Map<string, ScheduledEntry>();
+  private readonly lastRuns: Map<string, number>;
+  private paused = false;
+
+  constructor(
+    private readonly clock: Clock,
+    private readonly callbacks: SchedulerCallbacks,
+    lastRuns: Record<string, number> = {}
+  ) {
+    this.lastRuns = new Map(Object.entries(lastRuns));
+  }
+
+  /**
+   * Replaces the scheduled commands. Commands whose schedule did not change
+   * keep their next run, so unrelated edits do not push intervals back.
+   */
+  public setCommands(commands: Command[]): void {
+    const previous = new Map(this.entries);
+    this.entries.forEach(entry => this.clock.clearTimeout(entry.timer));
+    this.entries.clear();
+
+    commands.filter(hasTimedSchedule).forEach(command => {
+      const existing = previous.get(command.id);
+      const unchanged = existing && JSON.stringify(existing.command.schedule) === JSON.stringify(command.schedule);
+      const entry: ScheduledEntry = {
+        command,
+        next: unchanged ? existing.next : getNextRun(command.schedule!, this.clock.now(), this.lastRuns.get(command.id))
+      };
+      this.entries.set(command.id, entry);
+      this.arm(entry);
+    });
+  }
+
+  /** Runs the commands marked to run when the workspace opens, unless paused */
+  public runStartupCommands(commands: Command[]): void {
+    if (this.paused) {
+      return;
+    }
+    commands.filter(command => command.schedule?.onWorkspaceOpen).forEach(command => this.fire(command));
+  }
+
+  public setPaused(paused: boolean): void {
+    if (this.paused === paused) {
+      return;
+    }
+    this.paused = paused;
+    this.entries.forEach(entry => {
+      this.clock.clearTimeout(entry.timer);
+      entry.timer = undefined;
+      if (!paused) {
+        // What fell due while paused is skipped
+        entry.next = getNextRun(entry.command.schedule!, this.clock.now(), this.lastRuns.get(entry.command.id));
+        this.arm(entry);
+      }
+    });
+    this.callbacks.changed?.();
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  /** When the command fires next; undefined when it has no timed schedule or schedules are paused */
+  public getNextRun(commandId: string): number | undefined {
+    return this.paused ? undefined : this.entries.get(commandId)?.next;
+  }
+
+  public getLastRuns(): Record<string, number> {
+    return Object.fromEntries(this.lastRuns);
+  }
+
+  public dispose(): void {
+    this.entries.forEach(entry => this.clock.clearTimeout(entry.timer));
+    this.entries.clear();
+  }
+
+  private arm(entry: ScheduledEntry): void {
+    if (this.paused || entry.next === undefined) {
+      return;
+    }
+    const delay = Math.max(0, entry.next - this.clock.now());
+    entry.timer = this.clock.setTimeout(() => this.onTimer(entry), Math.min(delay, MAX_TIMER_DELAY_MS));
+  }
+
+  private onTimer(entry: ScheduledEntry): void {
+    entry.timer = undefined;
+    if (this.entries.get(entry.command.id) !== entry || this.paused) {
+      return;
+    }
+    if (entry.next !== undefined && this.clock.now() < entry.next) {
+      this.arm(entry);
+      return;
+    }
+    const now = this.clock.now();
+    entry.next = getNextRun(entry.command.schedule!, now, now);
+    this.arm(entry);
+    this.fire(entry.command);
+  }
+
+  private fire(command: Command): void {
+    this.lastRuns.set(command.id, this.clock.now());
+    this.callbacks.run(command);
+    this.callbacks.changed?.();
+  }
+}
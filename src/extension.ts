@@ -1,12 +1,16 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { ConfigManager } from './config/ConfigManager';
+import { ConfigManager, ROLLBACK_MIGRATION_COMMAND } from './config/ConfigManager';
 import { CommandTreeProvider } from '../apps/tasks/treeView/CommandTreeProvider';
 import { CommandExecutor } from '../apps/tasks/execution/CommandExecutor';
 import { WebviewManager } from './ui/webview/WebviewManager';
 import { CommandTreeItem } from '../apps/tasks/treeView/CommandTreeItem';
+import { normalizeTags } from '../apps/tasks/treeView/commandFilter';
 import { DocumentationTreeProvider } from '../apps/documentation/DocumentationTreeProvider';
 import { StatusBarManager } from './ui/StatusBarManager';
+import { CommandShortcutManager } from './ui/CommandShortcutManager';
+import { QuickRunPicker } from './ui/QuickRunPicker';
+import { ConfigDiagnosticsProvider } from './config/ConfigDiagnosticsProvider';
 import { TestRunnerConfig, Timer, SubTimer, Folder, Command } from './types';
 import { TestRunnerTreeProvider } from '../apps/testRunner/TestRunnerTreeProvider';
 import { TestRunnerTreeItem } from '../apps/testRunner/TestRunnerTreeItem';
@@ -16,6 +20,18 @@ import { TimeTrackerManager } from '../apps/timeTracker/TimeTrackerManager';
 import { TimeTrackerTreeProvider } from '../apps/timeTracker/TimeTrackerTreeProvider';
 import { TimeTrackerTreeItem } from '../apps/timeTracker/TimeTrackerTreeItem';
 import { TimeTrackerStatusBar } from '../apps/timeTracker/TimeTrackerStatusBar';
+import { CommandHistoryManager } from '../apps/history/CommandHistoryManager';
+import { HistoryTreeProvider } from '../apps/history/HistoryTreeProvider';
+import { HistoryTreeItem } from '../apps/history/HistoryTreeItem';
+import { SecretVariableStore } from './variables/SecretVariableStore';
+import { VariableValueHistory } from './variables/VariableValueHistory';
+import { BackgroundProcessManager } from './execution/BackgroundProcessManager';
+import { TerminalManager } from './execution/TerminalManager';
+import { ScheduleManager } from './execution/ScheduleManager';
+import { buildTasksExport, mergeTasksJson } from '../apps/tasks/export/tasksJsonExporter';
+import { getSourceFileLabel } from '../apps/tasks/import/workspaceSources';
+import { getWorkspaceFolderPath } from './utils/workspaceFolders';
+import { createCommandFromTemplate, createTemplateFromCommand } from './config/templates';
 type DocumentationPosition = 'top' | 'bottom';
 
 async function applyDocumentationViewPosition(position: DocumentationPosition): Promise<void> {
@@ -47,6 +63,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
     // Initialize configuration
     await configManager.initialize();
+    SecretVariableStore.getInstance().setSecretStorage(context.secrets, configManager.getConfigPath());
 
     // Check if this is the first time the extension is activated
     const hasShownWelcome = context.globalState.get<boolean>('hasShownWelcome', false);
@@ -66,12 +83,21 @@ export async function activate(context: vscode.ExtensionContext) {
     }
 
     // Create tree provider
-    const treeProvider = new CommandTreeProvider();
+    const treeProvider = new CommandTreeProvider(context.workspaceState);
     const commandTreeView = vscode.window.createTreeView('commandManagerTree', {
         treeDataProvider: treeProvider,
         dragAndDropController: treeProvider.dragAndDropController
     });
 
+    const historyManager = CommandHistoryManager.getInstance();
+    historyManager.setWorkspaceState(context.workspaceState);
+    VariableValueHistory.getInstance().setWorkspaceState(context.workspaceState);
+    const historyProvider = new HistoryTreeProvider(historyManager);
+    const historyTreeView = vscode.window.createTreeView('commandHistoryTree', {
+        treeDataProvider: historyProvider
+    });
+    context.subscriptions.push(historyProvider, historyTreeView);
+
     const documentationProvider = new DocumentationTreeProvider(configManager, context.workspaceState);
     const documentationTreeView = vscode.window.createTreeView('documentationHubTree', {
         treeDataProvider: documentationProvider,
@@ -279,8 +305,23 @@ export async function activate(context: vscode.ExtensionContext) {
     webviewManager.setTimeTrackerTreeProvider(timeTrackerProvider);
 
     const statusBarManager = new StatusBarManager(context, treeProvider, configManager);
+    const shortcutManager = new CommandShortcutManager(context, treeProvider, commandExecutor);
+    const quickRunPicker = new QuickRunPicker(treeProvider, commandExecutor, statusBarManager, webviewManager);
+    const configDiagnostics = new ConfigDiagnosticsProvider();
+
+    // Scheduled runs reuse the last values picked for their variables; the rest are still asked for
+    const scheduleManager = ScheduleManager.getInstance();
+    scheduleManager.onDidChange(() => treeProvider.refresh());
+    scheduleManager.start(context.workspaceState, command => commandExecutor.executeCommandWithProgress(command, {
+        presetVariables: VariableValueHistory.getInstance().getLastValues(command.id),
+        // Nobody is there to answer prompts, so runs that would ask are skipped and logged
+        unattended: true
+    }));
+
     context.subscriptions.push(
         statusBarManager,
+        scheduleManager,
+        configDiagnostics,
         documentationProvider,
         documentationTreeView,
         commandTreeView,
@@ -391,9 +432,75 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     });
 
-    const runCommandById = vscode.commands.registerCommand('commands-manager-next.tasks.runCommandById', async (payload: string | { commandId: string }) => {
+    const runWithLastValues = vscode.commands.registerCommand('commands-manager-next.tasks.runWithLastValues', async (item: CommandTreeItem) => {
+        const command = item?.isCommand() ? item.getCommand() : undefined;
+        if (!command) {
+            return;
+        }
+
+        // Variables without a remembered value are still asked for
+        const presetVariables = VariableValueHistory.getInstance().getLastValues(command.id);
+        try {
+            await commandExecutor.executeCommandWithProgress(command, { presetVariables });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to execute command: ${error}`);
+        }
+    });
+
+    const previewCommand = vscode.commands.registerCommand('commands-manager-next.tasks.previewCommand', (item: CommandTreeItem) => {
+        const command = item?.isCommand() ? item.getCommand() : undefined;
+        if (command) {
+            webviewManager.showCommandPreview(command);
+        }
+    });
+
+    const pauseSchedules = vscode.commands.registerCommand('commands-manager-next.tasks.pauseSchedules', async () => {
+        await ScheduleManager.getInstance().setPaused(true);
+        vscode.window.showInformationMessage('Scheduled commands are paused.');
+    });
+
+    const resumeSchedules = vscode.commands.registerCommand('commands-manager-next.tasks.resumeSchedules', async () => {
+        await ScheduleManager.getInstance().setPaused(false);
+        vscode.window.showInformationMessage('Scheduled commands resumed. Runs missed while paused are skipped.');
+    });
+
+    const backgroundProcesses = BackgroundProcessManager.getInstance();
+
+    const stopProcess = vscode.commands.registerCommand('commands-manager-next.processes.stop', async (item: CommandTreeItem) => {
+        if (item?.backgroundProcess) {
+            TerminalManager.getInstance().cancelPendingRestarts(item.backgroundProcess.commandId);
+            await backgroundProcesses.stop(item.backgroundProcess.id);
+        }
+    });
+
+    const restartProcess = vscode.commands.registerCommand('commands-manager-next.processes.restart', async (item: CommandTreeItem) => {
+        if (!item?.backgroundProcess) {
+            return;
+        }
+
+        try {
+            await backgroundProcesses.restart(item.backgroundProcess.id);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to restart "${item.backgroundProcess.label}": ${error}`);
+        }
+    });
+
+    const showProcessOutput = vscode.commands.registerCommand('commands-manager-next.processes.showOutput', (item: CommandTreeItem) => {
+        if (item?.backgroundProcess) {
+            backgroundProcesses.showOutput(item.backgroundProcess.id);
+        }
+    });
+
+    const stopAllProcesses = vscode.commands.registerCommand('commands-manager-next.processes.stopAll', async () => {
+        TerminalManager.getInstance().cancelPendingRestarts();
+        await backgroundProcesses.stopAll();
+    });
+
+    const runCommandById = vscode.commands.registerCommand('commands-manager-next.tasks.runCommandById', async (payload?: string | { commandId: string }) => {
         const commandId = typeof payload === 'string' ? payload : payload?.commandId;
         if (!commandId) {
+            // From the command palette, without an id to run
+            await shortcutManager.showRunPicker();
             return;
         }
 
@@ -423,6 +530,61 @@ export async function activate(context: vscode.ExtensionContext) {
         await statusBarManager.togglePin(command);
     });
 
+    const searchCommands = vscode.commands.registerCommand('commands-manager-next.tasks.search', async () => {
+        await treeProvider.setSearchQuery();
+    });
+
+    const toggleGroupByTag = vscode.commands.registerCommand('commands-manager-next.tasks.toggleGroupByTag', () => {
+        treeProvider.toggleViewMode();
+    });
+
+    const toggleFavorite = vscode.commands.registerCommand('commands-manager-next.tasks.toggleFavorite', async (item: CommandTreeItem) => {
+        if (!item || !item.isCommand()) {
+            return;
+        }
+
+        try {
+            await treeProvider.updateCommand(item, command => {
+                if (command.favorite) {
+                    delete command.favorite;
+                } else {
+                    command.favorite = true;
+                }
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to update favorites: ${error}`);
+        }
+    });
+
+    const editTags = vscode.commands.registerCommand('commands-manager-next.tasks.editTags', async (item: CommandTreeItem) => {
+        const command = item?.getCommand();
+        if (!command) {
+            return;
+        }
+
+        const input = await vscode.window.showInputBox({
+            prompt: `Tags for "${command.label}"`,
+            placeHolder: 'Comma-separated, e.g. build, ci',
+            value: (command.tags ?? []).join(', ')
+        });
+        if (input === undefined) {
+            return;
+        }
+
+        try {
+            const tags = normalizeTags(input);
+            await treeProvider.updateCommand(item, stored => {
+                if (tags.length > 0) {
+                    stored.tags = tags;
+                } else {
+                    delete stored.tags;
+                }
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to update tags: ${error}`);
+        }
+    });
+
     const moveItemUp = vscode.commands.registerCommand('commands-manager-next.tasks.moveItemUp', async (item: CommandTreeItem) => {
         if (!item) {
             return;
@@ -536,15 +698,94 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    const saveAsTemplate = vscode.commands.registerCommand('commands-manager-next.tasks.saveAsTemplate', async (item: CommandTreeItem) => {
+        const command = item?.isCommand() ? item.getCommand() : undefined;
+        if (!command || command.readOnly) {
+            return;
+        }
+        if (command.template) {
+            vscode.window.showInformationMessage(`"${command.label}" is already based on the template "${command.template}".`);
+            return;
+        }
+
+        const label = await vscode.window.showInputBox({
+            prompt: 'Name of the template',
+            value: command.label,
+            validateInput: value => value.trim() ? undefined : 'Enter a name for the template'
+        });
+        if (!label) {
+            return;
+        }
+
+        const config = configManager.getConfig();
+        const existingIds = new Set((config.templates ?? []).map(template => template.id));
+        const baseId = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'template';
+        let templateId = baseId;
+        let counter = 1;
+        while (existingIds.has(templateId)) {
+            templateId = `${baseId}-${counter++}`;
+        }
+
+        // The command becomes the first instance of the template and inherits everything
+        const { template, command: instance } = createTemplateFromCommand(command, templateId, label.trim());
+        const replaceCommand = (folders: Folder[]): boolean => folders.some(folder => {
+            const index = folder.commands.findIndex(candidate => candidate.id === command.id);
+            if (index >= 0) {
+                folder.commands[index] = instance;
+                return true;
+            }
+            return replaceCommand(folder.subfolders ?? []);
+        });
+        if (!replaceCommand(config.folders)) {
+            return;
+        }
+        config.templates = [...(config.templates ?? []), template];
+
+        try {
+            await configManager.saveConfig(config);
+            treeProvider.refresh();
+            vscode.window.showInformationMessage(`Saved "${template.label}" as a template. Commands created from it follow its changes.`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to save template: ${error}`);
+        }
+    });
+
+    const newCommandFromTemplate = vscode.commands.registerCommand('commands-manager-next.tasks.newCommandFromTemplate', async (item?: CommandTreeItem) => {
+        const templates = configManager.getConfig().templates ?? [];
+        if (templates.length === 0) {
+            vscode.window.showInformationMessage('There are no command templates yet. Use "Save as Template" on a command to create one.');
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            templates.map(template => ({ label: template.label, description: template.id, detail: template.command, template })),
+            { placeHolder: 'Template for the new command' }
+        );
+        if (!picked) {
+            return;
+        }
+
+        let contextInfo: { folderPath: number[] } | undefined;
+        if (item?.isFolder()) {
+            contextInfo = { folderPath: item.getFolderPath() };
+        } else if (item?.isCommand() && item.parent?.isFolder()) {
+            contextInfo = { folderPath: item.parent.getFolderPath() };
+        }
+
+        const draft = createCommandFromTemplate(picked.template, `${picked.template.id}-${Date.now()}`);
+        webviewManager.showCommandEditor(draft, contextInfo);
+    });
+
     const convertWorkspaceTask = vscode.commands.registerCommand('commands-manager-next.tasks.convertWorkspaceTask', async (item: CommandTreeItem) => {
         if (!item || !item.isCommand()) {
             return;
         }
 
         const command = item.getCommand();
-        if (!command || !command.readOnly || command.source !== 'vscode-task') {
+        if (!command || !command.readOnly || !command.source || command.source === 'config') {
             return;
         }
+        const sourceLabel = getSourceFileLabel(command.source);
 
         const config = configManager.getConfig();
 
@@ -589,7 +830,7 @@ export async function activate(context: vscode.ExtensionContext) {
             id: candidateId,
             label: command.label,
             command: command.command,
-            description: command.description?.replace('Imported from tasks.json', 'Converted from tasks.json') ?? 'Converted from tasks.json',
+            description: command.description?.replace(`Imported from ${sourceLabel}`, `Converted from ${sourceLabel}`) ?? `Converted from ${sourceLabel}`,
             terminal: { ...command.terminal },
             variables: command.variables ? command.variables.map(variable => ({ ...variable })) : undefined,
             icon: command.icon,
@@ -618,28 +859,7 @@ export async function activate(context: vscode.ExtensionContext) {
     });
 
     const quickRun = vscode.commands.registerCommand('commands-manager-next.tasks.quickRun', async () => {
-        const commands = await treeProvider.getAllCommands();
-        if (commands.length === 0) {
-            vscode.window.showInformationMessage('No commands configured yet. Create one from the Commands Manager Next view.');
-            return;
-        }
-
-        const selection = await vscode.window.showQuickPick(commands.map(command => ({
-            label: command.label,
-            description: command.description || '',
-            detail: command.command,
-            command
-        })), {
-            placeHolder: 'Select a command to run'
-        });
-
-        if (selection?.command) {
-            try {
-                await commandExecutor.executeCommandWithProgress(selection.command);
-            } catch (error) {
-                vscode.window.showErrorMessage(`Failed to execute command: ${error}`);
-            }
-        }
+        await quickRunPicker.show();
     });
 
     const deleteItem = vscode.commands.registerCommand('commands-manager-next.tasks.deleteItem', async (item: CommandTreeItem) => {
@@ -693,6 +913,32 @@ export async function activate(context: vscode.ExtensionContext) {
         await configManager.openConfigFile();
     });
 
+    const rollbackConfigMigration = vscode.commands.registerCommand(ROLLBACK_MIGRATION_COMMAND, async () => {
+        const backups = configManager.getMigrationBackups();
+        if (backups.length === 0) {
+            vscode.window.showInformationMessage('There is no configuration migration to roll back.');
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            backups.map(backup => ({ label: path.basename(backup.filePath), description: backup.filePath, picked: true, backup })),
+            { canPickMany: true, placeHolder: 'Files to restore to their state before the last migration' }
+        );
+        if (!picked?.length) {
+            return;
+        }
+
+        try {
+            await configManager.rollbackMigrations(picked.map(item => item.backup));
+            treeProvider.refresh();
+            vscode.window.showInformationMessage(
+                `Restored ${picked.length} ${picked.length === 1 ? 'file' : 'files'} from before the migration. They will be upgraded again after the window reloads.`
+            );
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to roll back the migration: ${error}`);
+        }
+    });
+
     const refresh = vscode.commands.registerCommand('commands-manager-next.tasks.refresh', async () => {
         await configManager.loadConfig();
         treeProvider.refresh();
@@ -742,6 +988,57 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    const exportFolderToTasksJson = vscode.commands.registerCommand('commands-manager-next.tasks.exportFolderToTasksJson', async (item: CommandTreeItem) => {
+        const folder = item?.isFolder() ? item.getFolder() : undefined;
+        if (!folder) {
+            return;
+        }
+
+        const collectCommands = (source: Folder): Command[] => [
+            ...source.commands,
+            ...(source.subfolders ?? []).flatMap(collectCommands)
+        ];
+        const commands = collectCommands(folder);
+        if (commands.length === 0) {
+            vscode.window.showInformationMessage(`"${folder.name}" has no commands to export.`);
+            return;
+        }
+
+        const workspaceRoot = getWorkspaceFolderPath(configManager.getCommandWorkspaceRoot(commands[0].id));
+        if (!workspaceRoot) {
+            vscode.window.showErrorMessage('Open a workspace folder to export commands to tasks.json.');
+            return;
+        }
+
+        const config = configManager.getConfig();
+        const labelsById = new Map((await treeProvider.getAllCommands()).map(command => [command.id, command.label] as const));
+        const exported = buildTasksExport(commands, {
+            workspaceRoot,
+            sharedVariables: config.sharedVariables,
+            sharedLists: config.sharedLists,
+            labelsById
+        });
+
+        const tasksUri = vscode.Uri.file(path.join(workspaceRoot, '.vscode', 'tasks.json'));
+        try {
+            let content = '';
+            try {
+                content = Buffer.from(await vscode.workspace.fs.readFile(tasksUri)).toString('utf8');
+            } catch {
+                // No tasks.json yet; the merge starts a new one
+            }
+
+            await vscode.workspace.fs.writeFile(tasksUri, Buffer.from(mergeTasksJson(content, exported), 'utf8'));
+            const document = await vscode.workspace.openTextDocument(tasksUri);
+            await vscode.window.showTextDocument(document, { preview: false });
+            vscode.window.showInformationMessage(
+                `Exported ${commands.length} ${commands.length === 1 ? 'command' : 'commands'} from "${folder.name}" to tasks.json.`
+            );
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to export to tasks.json: ${error}`);
+        }
+    });
+
     // Helper methods for deletion
     function deleteCommandFromConfig(config: any, commandId: string): void {
         for (const folder of config.folders) {
@@ -801,11 +1098,27 @@ export async function activate(context: vscode.ExtensionContext) {
     // Add all commands to context
     context.subscriptions.push(
         runCommand,
+        runWithLastValues,
+        previewCommand,
+        pauseSchedules,
+        resumeSchedules,
+        stopProcess,
+        restartProcess,
+        showProcessOutput,
+        stopAllProcesses,
+        backgroundProcesses,
+        TerminalManager.getInstance(),
         editCommand,
         newCommand,
         newFolder,
         editFolder,
         duplicateCommand,
+        saveAsTemplate,
+        newCommandFromTemplate,
+        searchCommands,
+        toggleGroupByTag,
+        toggleFavorite,
+        editTags,
         convertWorkspaceTask,
         runCommandById,
         pinToStatusBar,
@@ -814,11 +1127,79 @@ export async function activate(context: vscode.ExtensionContext) {
         moveItemToFolder,
         deleteItem,
         openConfig,
+        rollbackConfigMigration,
         refresh,
         openConfiguration,
         quickRun,
         importCommands,
-        exportCommands
+        exportCommands,
+        exportFolderToTasksJson
+    );
+
+    const rerunHistoryEntry = vscode.commands.registerCommand('commands-manager-next.history.rerun', async (item?: HistoryTreeItem) => {
+        if (!item) {
+            return;
+        }
+
+        const command = await treeProvider.findCommandById(item.entry.commandId);
+        if (!command) {
+            vscode.window.showWarningMessage(`Command "${item.entry.label}" no longer exists.`);
+            return;
+        }
+
+        try {
+            // Secrets are masked in history, so they are asked for again
+            const presetVariables = item.entry.variables.filter(variable => !variable.secret);
+            await commandExecutor.executeCommandWithProgress(command, { presetVariables });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to execute command: ${error}`);
+        }
+    });
+
+    const showHistoryOutput = vscode.commands.registerCommand('commands-manager-next.history.showOutput', async (item?: HistoryTreeItem) => {
+        if (!item) {
+            return;
+        }
+
+        const { entry } = item;
+        const header = [
+            `# ${entry.label}`,
+            `$ ${entry.command}`,
+            entry.cwd ? `# cwd: ${entry.cwd}` : undefined,
+            `# started: ${new Date(entry.startTime).toLocaleString()}`,
+            `# exit code: ${typeof entry.exitCode === 'number' ? entry.exitCode : 'unknown'}`
+        ].filter(line => line !== undefined).join('\n');
+        const body = entry.output ?? 'No output was captured for this run.';
+
+        const document = await vscode.workspace.openTextDocument({
+            content: `${header}\n\n${body}`,
+            language: 'log'
+        });
+        await vscode.window.showTextDocument(document, { preview: true });
+    });
+
+    const clearHistory = vscode.commands.registerCommand('commands-manager-next.history.clear', async () => {
+        const confirm = await vscode.window.showWarningMessage(
+            'Clear the command run history for this workspace?',
+            { modal: true },
+            'Clear'
+        );
+        if (confirm === 'Clear') {
+            await historyManager.clear();
+        }
+    });
+
+    const deleteHistoryEntry = vscode.commands.registerCommand('commands-manager-next.history.deleteEntry', async (item?: HistoryTreeItem) => {
+        if (item) {
+            await historyManager.removeEntry(item.entry.id);
+        }
+    });
+
+    context.subscriptions.push(
+        rerunHistoryEntry,
+        showHistoryOutput,
+        clearHistory,
+        deleteHistoryEntry
     );
 
     const newTestRunnerConfiguration = vscode.commands.registerCommand(
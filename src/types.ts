@@ -33,19 +33,26 @@ export interface TimeTrackerConfig {
   ignoredBranches?: string[]; // Branches to ignore for auto-timer creation (default: ['master', 'main'])
   autoCreateOnBranchCheckout?: boolean; // Default: true
   enabled?: boolean; // Default: true - whether time tracking is enabled
+  schemaVersion?: number; // Shape of the file, see config/migrations.ts
 }
 
 export interface CommandConfig {
   folders: Folder[];
+  templates?: CommandTemplate[];
   globalVariables?: VariablePreset[];
   sharedVariables?: SharedVariable[];
   sharedLists?: SharedList[];
   testRunners?: TestRunnerConfig[];
   pinnedCommands?: string[];
   version?: number;
+  /** Shape of the file, upgraded by config/migrations.ts; `version` only counts saves */
+  schemaVersion?: number;
   lastModified?: string;
 }
 
+/** Where a command comes from: the configuration, or a workspace file it is imported from read-only */
+export type CommandSource = 'config' | 'vscode-task' | 'npm' | 'make' | 'just' | 'taskfile' | 'pyproject';
+
 export interface Folder {
   name: string;
   icon?: string;
@@ -53,7 +60,9 @@ export interface Folder {
   commands: Command[];
   subfolders?: Folder[];
   readOnly?: boolean;
-  source?: 'config' | 'vscode-task';
+  source?: CommandSource | 'processes' | 'favorites' | 'tag';
+  workspaceRoot?: string; // Runtime only: name of the workspace folder whose commands.json holds this top-level folder
+  layer?: string; // Runtime only: id of the config layer (team, user, workspace, folder:<path>) this top-level folder was loaded from
 }
 
 export interface Command {
@@ -65,21 +74,136 @@ export interface Command {
   description?: string;
   icon?: string;
   readOnly?: boolean;
-  source?: 'config' | 'vscode-task';
+  source?: CommandSource;
+  chain?: CommandChain; // Saved commands to run before this command's own text
+  workspaceFolder?: string; // Workspace folder name used for ${workspaceFolder} and relative paths
+  keybinding?: string; // Keyboard shortcut such as "ctrl+alt+t", written to the user's keybindings.json when keybinding sync is on
+  when?: string; // Context in which the keybinding is active
+  tags?: string[]; // Free-form labels the tree filters and groups by
+  favorite?: boolean; // Listed in the Favorites group at the top of the tree
+  confirm?: ConfirmLevel; // Asks before running; unset falls back to dangerous-pattern detection
+  schedule?: CommandSchedule; // Runs the command on its own while VS Code is open
+  readiness?: ReadinessProbe; // Shows the command as starting until the probe succeeds
+  restart?: RestartPolicy; // Restarts background and dedicated-terminal processes when they exit
+  problemMatcher?: ProblemMatcherSetting; // Runs the command as a task so its errors reach the Problems panel
+  template?: string; // Id of a CommandTemplate; in the file, fields the command leaves out come from the template
+  inherited?: string[]; // Runtime only: fields filled in from the template, with inherited variables as "variables.<key>"
+}
+
+/**
+ * Shared definition of near-identical commands. Commands that reference it
+ * override a subset of its fields, so editing the template updates them all.
+ */
+export interface CommandTemplate {
+  id: string;
+  label: string;
+  command: string;
+  terminal: TerminalConfig;
+  variables?: CommandVariable[]; // Commands override these by key, e.g. to fix the service or environment
+  description?: string;
+  icon?: string;
+}
+
+/** A built-in matcher name such as "$tsc", an inline definition, or a list of both */
+export type ProblemMatcherSetting = string | ProblemMatcherDefinition | Array<string | ProblemMatcherDefinition>;
+
+/** Inline matcher in the tasks.json format */
+export interface ProblemMatcherDefinition {
+  owner?: string;
+  source?: string; // Shown next to each problem; defaults to owner
+  severity?: 'error' | 'warning' | 'info';
+  fileLocation?: 'absolute' | 'relative' | ['relative', string]; // Relative paths resolve against the working directory by default
+  pattern: ProblemPattern | ProblemPattern[];
+}
+
+/** Group indexes into `regexp`; several patterns match consecutive lines */
+export interface ProblemPattern {
+  regexp: string;
+  file?: number;
+  location?: number; // "line,column[,endLine,endColumn]" in one group
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  severity?: number;
+  code?: number;
+  message?: number;
+  loop?: boolean; // Last pattern only: keep matching it on following lines
+}
+
+/**
+ * Condition that marks a long-running command as ready. When several are set,
+ * the first one met wins.
+ */
+export interface ReadinessProbe {
+  pattern?: string; // Regular expression matched against the process output
+  port?: number; // TCP port that starts accepting connections on localhost
+  url?: string; // Local URL that answers with HTTP 200
+  timeoutSeconds?: number; // Default: 60
+}
+
+export interface RestartPolicy {
+  mode: 'on-failure' | 'always';
+  maxRetries?: number; // Default: 5
+  backoffSeconds?: number; // First delay, doubled on each retry up to a minute. Default: 1
+}
+
+/**
+ * How a command is confirmed before it runs: not at all, with a yes/no
+ * dialog, or by typing the command's label.
+ */
+export type ConfirmLevel = 'none' | 'modal' | 'typeLabel';
+
+/**
+ * When a command runs on its own. Set `cron` or `intervalMinutes` for a
+ * recurring run, `onWorkspaceOpen` to run it when the workspace opens, or both.
+ */
+export interface CommandSchedule {
+  cron?: string; // minute hour day-of-month month day-of-week, in local time, or a macro such as @daily
+  intervalMinutes?: number;
+  onWorkspaceOpen?: boolean;
+}
+
+export interface CommandChain {
+  steps: string[]; // Command ids, resolved through CommandTreeProvider.findCommandById
+  mode?: 'sequential' | 'parallel'; // Default: sequential
+  onFailure?: 'stop' | 'continue'; // Default: stop
 }
 
 export interface TerminalConfig {
-  type: 'vscode-current' | 'vscode-new' | 'external-cmd' | 'external-powershell';
+  type: 'vscode-current' | 'vscode-new' | 'external-cmd' | 'external-powershell' | 'external-system' | 'background';
   name?: string;
   cwd?: string;
+  env?: Record<string, string>; // Values support $VARIABLE and ${workspaceFolder} placeholders
+  envFile?: string; // Path to a .env file, relative to cwd or the workspace root
 }
 
+export type CommandVariableType = 'fixed' | 'options' | 'file' | 'number' | 'boolean' | 'multiselect' | 'text' | 'secret';
+
 export interface CommandVariable {
   key: string;
-  value: string;
+  value: string; // Fixed value, options (one per line) or default, depending on type
   label?: string;
-  type: 'fixed' | 'options' | 'file';
+  type: CommandVariableType;
   description?: string;
+  min?: number; // number: smallest accepted value
+  max?: number; // number: largest accepted value
+  trueValue?: string; // boolean: literal used when switched on (default "true")
+  falseValue?: string; // boolean: literal used when switched off (default "false")
+  separator?: string; // multiselect: joins the picked options (default ",")
+  pattern?: string; // text: regular expression the whole input must match
+  source?: OptionSource; // options/multiselect: load the options at run time instead of `value`
+}
+
+/**
+ * Where a list gets its options at run time. Set either `command`, whose stdout
+ * gives one option per line, or `file` (JSON or YAML) with a JSONPath in `path`.
+ */
+export interface OptionSource {
+  command?: string;
+  file?: string; // relative paths use the command's workspace folder
+  path?: string; // JSONPath, e.g. $.environments[*].name
+  cacheSeconds?: number; // reuse the options for this long (default 0, always reload)
 }
 
 export interface TestRunnerConfig {
@@ -96,6 +220,7 @@ export interface TestRunnerConfig {
   allowNonTest?: boolean; // Default: true
   autoFind?: boolean; // Default: true
   inlineButton?: boolean; // Default: true
+  workspaceFolder?: string; // Workspace folder name to discover tests in and resolve workingDirectory against
 }
 
 
@@ -107,21 +232,39 @@ export interface VariablePreset {
 export interface ResolvedVariable {
   key: string;
   value: string;
+  secret?: boolean; // Masked in history and never offered for re-use
 }
 
 export interface ExecutionResult {
   success: boolean;
   output?: string;
   error?: string;
-  exitCode?: number;
+  exitCode?: number; // Undefined when the command was handed to a shell we cannot observe
+  durationMs?: number;
+  skipped?: boolean; // An unattended run that stopped before starting because it would have had to ask the user
 }
 
+export interface CommandHistoryEntry {
+  id: string;
+  commandId: string;
+  label: string;
+  command: string; // Command text after variable substitution
+  variables: ResolvedVariable[];
+  cwd?: string;
+  startTime: string; // ISO timestamp
+  endTime: string; // ISO timestamp
+  exitCode?: number;
+  success: boolean;
+  output?: string;
+}
 
 export interface SharedVariable {
   key: string;
   label: string;
   value: string;
   description?: string;
+  /** The value lives in VS Code's secret storage; `value` stays empty */
+  secret?: boolean;
 }
 
 export interface SharedList {
@@ -129,10 +272,12 @@ export interface SharedList {
   label: string;
   options: string[];
   description?: string;
+  source?: OptionSource; // replaces `options` when set
 }
 
 export enum ExecutionState {
   Idle = 'idle',
+  Starting = 'starting',
   Running = 'running',
   Success = 'success',
   Error = 'error'
@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Command } from '../types';
+import { CommandTreeProvider } from '../../apps/tasks/treeView/CommandTreeProvider';
+import { CommandExecutor } from '../../apps/tasks/execution/CommandExecutor';
+import { SavedCommandKeybinding, updateKeybindingsContent } from './keybindings';
+
+const SYNCED_KEYBINDINGS_KEY = 'keybindings.synced';
+
+interface RunPickItem extends vscode.QuickPickItem {
+  command: Command;
+}
+
+/**
+ * Offers a "Commands Manager: Run <label>" entry per saved command and, when
+ * `tasks.keybindings.sync` is on, mirrors their `keybinding`/`when` fields into
+ * the user's keybindings.json as bindings of the run-by-id command.
+ */
+export class CommandShortcutManager {
+  private pendingRefresh: Promise<void> = Promise.resolve();
+  private hasReportedSyncError = false;
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly treeProvider: CommandTreeProvider,
+    private readonly commandExecutor: CommandExecutor
+  ) {
+    const treeDisposable = this.treeProvider.onDidChangeTreeData(() => this.scheduleRefresh());
+    const settingsDisposable = vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('commands-manager-next.tasks.keybindings.sync')) {
+        this.scheduleRefresh();
+      }
+    });
+    this.context.subscriptions.push(treeDisposable, settingsDisposable);
+
+    this.scheduleRefresh();
+  }
+
+  /**
+   * Lists every saved command as "Commands Manager: Run <label>". The list is
+   * built on each call, so it always reflects the current configuration.
+   */
+  public async showRunPicker(): Promise<void> {
+    const commands = await this.treeProvider.getAllCommands();
+    const items: RunPickItem[] = commands.map(command => ({
+      label: `Commands Manager: Run ${command.label}`,
+      description: command.keybinding,
+      command
+    }));
+
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Run a saved command',
+      matchOnDescription: true
+    });
+    if (picked) {
+      await this.commandExecutor.executeCommandWithProgress(picked.command);
+    }
+  }
+
+  private scheduleRefresh(): void {
+    // Refreshes run one after another so the keybindings file is never written concurrently
+    this.pendingRefresh = this.pendingRefresh.then(() => this.syncKeybindings()).catch(() => undefined);
+  }
+
+  private async syncKeybindings(): Promise<void> {
+    const enabled = vscode.workspace.getConfiguration('commands-manager-next.tasks').get<boolean>('keybindings.sync', false);
+    const synced = this.context.workspaceState.get<SavedCommandKeybinding[]>(SYNCED_KEYBINDINGS_KEY, []);
+
+    const bindings: SavedCommandKeybinding[] = [];
+    if (enabled) {
+      const seen = new Set<string>();
+      for (const command of await this.treeProvider.getAllCommands()) {
+        const key = command.keybinding?.trim();
+        if (key && !seen.has(command.id)) {
+          seen.add(command.id);
+          bindings.push({ commandId: command.id, key, when: command.when?.trim() || undefined });
+        }
+      }
+    }
+
+    // The file is only opened when the bindings differ from what this workspace last wrote
+    if (JSON.stringify(bindings) === JSON.stringify(synced)) {
+      return;
+    }
+
+    try {
+      const document = await this.openKeybindingsDocument();
+      const content = document.getText();
+      const updated = updateKeybindingsContent(content, bindings, synced.map(binding => binding.commandId));
+      if (updated !== content) {
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, new vscode.Range(document.positionAt(0), document.positionAt(content.length)), updated);
+        if (!await vscode.workspace.applyEdit(edit) || !await document.save()) {
+          throw new Error('the changes could not be saved');
+        }
+      }
+      // Remember what this workspace wrote so removed shortcuts are cleaned up later
+      await this.context.workspaceState.update(SYNCED_KEYBINDINGS_KEY, bindings);
+    } catch (error) {
+      if (!this.hasReportedSyncError) {
+        this.hasReportedSyncError = true;
+        const message = error instanceof Error ? error.message : String(error);
+        void vscode.window.showWarningMessage(`Could not update keyboard shortcuts for saved commands: ${message}`);
+      }
+    }
+  }
+
+  private async openKeybindingsDocument(): Promise<vscode.TextDocument> {
+    // VS Code resolves the file of the active profile itself; no API exposes its location
+    await vscode.commands.executeCommand('workbench.action.openGlobalKeybindingsFile');
+    const document = vscode.window.activeTextEditor?.document;
+    if (!document || path.basename(document.uri.path) !== 'keybindings.json') {
+      throw new Error('keybindings.json could not be opened');
+    }
+    return document;
+  }
+}
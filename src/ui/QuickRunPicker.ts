@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import { Command, Folder } from '../types';
+import { ConfigManager } from '../config/ConfigManager';
+import { CommandTreeProvider } from '../../apps/tasks/treeView/CommandTreeProvider';
+import { CommandExecutor } from '../../apps/tasks/execution/CommandExecutor';
+import { CommandHistoryManager } from '../../apps/history/CommandHistoryManager';
+import { getSourceFileLabel } from '../../apps/tasks/import/workspaceSources';
+import { VariableResolver } from '../variables/VariableResolver';
+import { UserCancelledError } from '../variables/errors';
+import { StatusBarManager } from './StatusBarManager';
+import { WebviewManager } from './webview/WebviewManager';
+import { QuickRunCandidate, computeFrecency, formatVariableHint, rankCandidates } from './quickRunRanking';
+
+interface QuickRunItem extends vscode.QuickPickItem {
+  candidate: QuickRunCandidate;
+}
+
+const EDIT_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('edit'), tooltip: 'Edit Command' };
+const PIN_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('pin'), tooltip: 'Pin in Status Bar' };
+const UNPIN_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('pinned'), tooltip: 'Unpin from Status Bar' };
+const COPY_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('copy'), tooltip: 'Copy Resolved Command' };
+
+/**
+ * Quick-run palette: fuzzy matches the folder path, label and command text,
+ * ranks by how often and how recently commands ran, and runs the pick
+ * through the executor so its variables are prompted for right away.
+ */
+export class QuickRunPicker {
+  constructor(
+    private readonly treeProvider: CommandTreeProvider,
+    private readonly commandExecutor: CommandExecutor,
+    private readonly statusBarManager: StatusBarManager,
+    private readonly webviewManager: WebviewManager
+  ) { }
+
+  public async show(): Promise<void> {
+    const candidates = await this.getCandidates();
+    if (candidates.length === 0) {
+      vscode.window.showInformationMessage('No commands configured yet. Create one from the Commands Manager Next view.');
+      return;
+    }
+
+    const frecency = computeFrecency(CommandHistoryManager.getInstance().getEntries(), Date.now());
+    const picker = vscode.window.createQuickPick<QuickRunItem>();
+    picker.placeholder = 'Select a command to run; matches folder, label and command text';
+
+    const update = () => {
+      picker.items = rankCandidates(candidates, picker.value, frecency).map(candidate => this.createItem(candidate));
+    };
+    update();
+
+    const selected = await new Promise<Command | undefined>(resolve => {
+      picker.onDidChangeValue(update);
+      picker.onDidTriggerItemButton(async ({ button, item }) => {
+        const command = item.candidate.command;
+        if (button === EDIT_BUTTON) {
+          picker.hide();
+          this.webviewManager.showCommandEditor(command);
+        } else if (button === COPY_BUTTON) {
+          // Variable prompts replace the picker, so close it first
+          picker.hide();
+          await this.copyResolvedCommand(command);
+        } else {
+          await this.statusBarManager.togglePin(command);
+          update();
+        }
+      });
+      picker.onDidAccept(() => {
+        resolve(picker.selectedItems[0]?.candidate.command);
+        picker.hide();
+      });
+      picker.onDidHide(() => {
+        resolve(undefined);
+        picker.dispose();
+      });
+      picker.show();
+    });
+
+    if (selected) {
+      try {
+        await this.commandExecutor.executeCommandWithProgress(selected);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to execute command: ${error}`);
+      }
+    }
+  }
+
+  private createItem(candidate: QuickRunCandidate): QuickRunItem {
+    const command = candidate.command;
+    const hint = formatVariableHint(this.getPromptedVariableLabels(command));
+    return {
+      label: command.label,
+      description: [candidate.folderPath.join(' / '), command.keybinding].filter(Boolean).join(' · '),
+      detail: hint ? `$(symbol-variable) ${hint} · ${command.command}` : command.command,
+      // Ranking already filtered the items; keep the picker from filtering them again
+      alwaysShow: true,
+      buttons: [
+        ...(command.readOnly ? [] : [EDIT_BUTTON]),
+        this.statusBarManager.isPinned(command.id) ? UNPIN_BUTTON : PIN_BUTTON,
+        COPY_BUTTON
+      ],
+      candidate
+    };
+  }
+
+  /** Labels of the placeholders that prompt when the command runs; fixed values are filled in silently */
+  private getPromptedVariableLabels(command: Command): string[] {
+    const resolver = VariableResolver.getInstance();
+    const config = ConfigManager.getInstance().getConfig();
+    return resolver.extractPlaceholders(resolver.getPlaceholderSource(command)).flatMap(key => {
+      const variable = command.variables?.find(candidate => candidate.key === key);
+      if (variable) {
+        return variable.type === 'fixed' ? [] : [variable.label || key];
+      }
+      const shared = config.sharedVariables?.find(candidate => candidate.key === key);
+      if (shared) {
+        return shared.secret ? [shared.label || key] : [];
+      }
+      return [config.sharedLists?.find(candidate => candidate.key === key)?.label || key];
+    });
+  }
+
+  private async copyResolvedCommand(command: Command): Promise<void> {
+    try {
+      const text = await this.commandExecutor.resolveCommandText(command);
+      await vscode.env.clipboard.writeText(text);
+      vscode.window.showInformationMessage(`Copied "${command.label}" to the clipboard.`);
+    } catch (error) {
+      if (!(error instanceof UserCancelledError)) {
+        vscode.window.showErrorMessage(`Failed to resolve command: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  private async getCandidates(): Promise<QuickRunCandidate[]> {
+    const candidates: QuickRunCandidate[] = [];
+    const collect = (folders: Folder[], names: string[]) => {
+      folders.forEach(folder => {
+        const folderPath = [...names, folder.name];
+        folder.commands.forEach(command => candidates.push({ command, folderPath }));
+        collect(folder.subfolders ?? [], folderPath);
+      });
+    };
+    collect(ConfigManager.getInstance().getConfig().folders, []);
+
+    // Commands imported read-only from tasks.json, package.json and the other workspace files
+    (await this.treeProvider.getAllCommands())
+      .filter(command => command.readOnly)
+      .forEach(command => candidates.push({ command, folderPath: [getSourceFileLabel(command.source)] }));
+    return candidates;
+  }
+}
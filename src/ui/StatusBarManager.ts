@@ -2,12 +2,16 @@ import * as vscode from 'vscode';
 import { Command, Folder } from '../types';
 import { CommandTreeProvider } from '../../apps/tasks/treeView/CommandTreeProvider';
 import { ConfigManager } from '../config/ConfigManager';
+import { TerminalManager } from '../execution/TerminalManager';
+import { isDangerousCommand } from '../execution/confirmation';
 
 export class StatusBarManager implements vscode.Disposable {
   private readonly mainItem: vscode.StatusBarItem;
   private readonly pinnedItems = new Map<string, vscode.StatusBarItem>();
   private pinnedCommandIds: string[] = [];
   private isRebuilding = false;
+  // Labels of commands still waiting for their readiness probe, by command id
+  private readonly startingCommands = new Map<string, string>();
 
   constructor(
     private readonly context: vscode.ExtensionContext,
@@ -37,6 +41,23 @@ export class StatusBarManager implements vscode.Disposable {
     });
     this.context.subscriptions.push(treeDisposable);
 
+    const readinessDisposable = TerminalManager.getInstance().onDidChangeReadiness(({ commandId, label, starting }) => {
+      if (starting) {
+        this.startingCommands.set(commandId, label);
+      } else {
+        this.startingCommands.delete(commandId);
+      }
+      this.updateStartingState();
+    });
+    this.context.subscriptions.push(readinessDisposable);
+
+    const settingsDisposable = vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('commands-manager-next.tasks.confirm')) {
+        void this.rebuildPinnedItems();
+      }
+    });
+    this.context.subscriptions.push(settingsDisposable);
+
     void this.restorePinnedCommands();
     void this.updateCommandsTooltip();
   }
@@ -123,10 +144,11 @@ export class StatusBarManager implements vscode.Disposable {
       }
 
       // Rebuild all pinned items
+      const detection = this.configManager.getDangerDetection();
       this.pinnedCommandIds.forEach((id, index) => {
         const command = commandsById.get(id);
         if (command) {
-          this.createPinnedItem(command, index);
+          this.createPinnedItem(command, index, isDangerousCommand(command, detection));
         }
       });
 
@@ -136,11 +158,30 @@ export class StatusBarManager implements vscode.Disposable {
     }
   }
 
-  private createPinnedItem(command: Command, index: number): void {
+  private updateStartingState(): void {
+    const labels = Array.from(this.startingCommands.values());
+    this.mainItem.text = labels.length > 0
+      ? `$(loading~spin) Starting ${labels.length === 1 ? labels[0] : `${labels.length} commands`}`
+      : '$(rocket) Tasks';
+
+    this.pinnedItems.forEach((item, commandId) => {
+      item.text = this.getPinnedText(commandId, item.name ?? '');
+    });
+  }
+
+  private getPinnedText(commandId: string, label: string): string {
+    return `${this.startingCommands.has(commandId) ? '$(loading~spin)' : '$(pin)'} ${label}`;
+  }
+
+  private createPinnedItem(command: Command, index: number, dangerous: boolean): void {
     const priority = 100 - (index + 1);
     const item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, priority);
-    item.text = `$(pin) ${command.label}`;
-    item.tooltip = `Run ${command.label}`;
+    item.name = command.label;
+    item.text = this.getPinnedText(command.id, command.label);
+    item.tooltip = dangerous ? `Run ${command.label} (asks for confirmation)` : `Run ${command.label}`;
+    if (dangerous) {
+      item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+    }
     item.command = {
       command: 'commands-manager-next.tasks.runCommandById',
       title: 'Run Command',
@@ -0,0 +1,88 @@
+import { applyEdits, modify, parse, ParseError } from 'jsonc-parser';
+
+/** The contributed command that runs a saved command by id, given as `args` */
+export const RUN_COMMAND_BY_ID = 'commands-manager-next.tasks.runCommandById';
+
+export interface SavedCommandKeybinding {
+  commandId: string;
+  key: string;
+  when?: string;
+}
+
+interface KeybindingEntry {
+  key: string;
+  command: string;
+  args: { commandId: string };
+  when?: string;
+}
+
+const FORMATTING = { formattingOptions: { insertSpaces: true, tabSize: 4, eol: '\n' } };
+
+function getBoundCommandId(entry: unknown): string | undefined {
+  if (typeof entry !== 'object' || entry === null) {
+    return undefined;
+  }
+  const { command, args } = entry as { command?: unknown; args?: unknown };
+  if (command !== RUN_COMMAND_BY_ID) {
+    return undefined;
+  }
+  if (typeof args === 'string') {
+    return args;
+  }
+  const commandId = typeof args === 'object' && args !== null ? (args as { commandId?: unknown }).commandId : undefined;
+  return typeof commandId === 'string' ? commandId : undefined;
+}
+
+/**
+ * Rewrites the generated entries of a keybindings.json document. Entries that run
+ * the given saved commands by id are replaced by `bindings`; the user's own bindings,
+ * comments and generated entries of other workspaces are left untouched. The
+ * content is returned unchanged when it already matches.
+ */
+export function updateKeybindingsContent(
+  content: string,
+  bindings: SavedCommandKeybinding[],
+  managedCommandIds: string[]
+): string {
+  const text = content.trim() ? content : '[]';
+  const errors: ParseError[] = [];
+  const entries = parse(text, errors, { allowTrailingComma: true });
+  if (errors.length > 0 || !Array.isArray(entries)) {
+    throw new Error('keybindings.json is not a valid array of keybindings');
+  }
+
+  const managed = new Set([...managedCommandIds, ...bindings.map(binding => binding.commandId)]);
+  const desired: KeybindingEntry[] = bindings.map(binding => ({
+    key: binding.key,
+    command: RUN_COMMAND_BY_ID,
+    args: { commandId: binding.commandId },
+    ...(binding.when ? { when: binding.when } : {})
+  }));
+
+  const existingIndexes = entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => {
+      const commandId = getBoundCommandId(entry);
+      return commandId !== undefined && managed.has(commandId);
+    });
+
+  const unchanged = existingIndexes.length === desired.length && existingIndexes.every(({ entry }, position) =>
+    entry.key === desired[position].key &&
+    getBoundCommandId(entry) === desired[position].args.commandId &&
+    (entry.when || undefined) === desired[position].when
+  );
+  if (unchanged) {
+    return content;
+  }
+
+  let result = text;
+  // Remove from the end so earlier indexes stay valid
+  for (const { index } of [...existingIndexes].reverse()) {
+    result = applyEdits(result, modify(result, [index], undefined, FORMATTING));
+  }
+  for (const entry of desired) {
+    result = applyEdits(result, modify(result, [-1], entry, { ...FORMATTING, isArrayInsertion: true }));
+  }
+
+  return result;
+}
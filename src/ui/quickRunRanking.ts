@@ -0,0 +1,119 @@
+import { Command } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weight of one run by its age; recent runs count for more than many old ones
+const FRECENCY_BUCKETS: Array<{ maxAgeDays: number; weight: number }> = [
+  { maxAgeDays: 1, weight: 100 },
+  { maxAgeDays: 7, weight: 70 },
+  { maxAgeDays: 30, weight: 50 },
+  { maxAgeDays: 90, weight: 30 }
+];
+const OLD_RUN_WEIGHT = 10;
+
+// How much a match in each field counts; the label is what people usually type
+const FIELD_WEIGHTS = { label: 1, folderPath: 0.7, command: 0.5 };
+
+export interface QuickRunCandidate {
+  command: Command;
+  /** Names of the folders holding the command, e.g. ['Build', 'Docker'] */
+  folderPath: string[];
+}
+
+export interface RankedCandidate extends QuickRunCandidate {
+  score: number;
+}
+
+export interface RunRecord {
+  commandId: string;
+  startTime: string;
+}
+
+/**
+ * Scores `query` as a subsequence of `text`, or returns undefined when it is
+ * not one. Consecutive characters and characters at the start of a word
+ * score higher, so "bd" ranks "build docs" above "abandoned".
+ */
+export function fuzzyScore(query: string, text: string): number | undefined {
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) {
+      return undefined;
+    }
+    score += 1;
+    if (index === previous + 1) {
+      score += 5;
+    }
+    if (index === 0 || /[\s/\\\-_.:]/.test(haystack[index - 1]) || (text[index] !== haystack[index] && text[index - 1] === haystack[index - 1])) {
+      score += 8;
+    }
+    previous = index;
+    from = index + 1;
+  }
+
+  return score;
+}
+
+/** Sums a weight per recorded run of each command, by how long ago it ran */
+export function computeFrecency(runs: RunRecord[], now: number): Map<string, number> {
+  const scores = new Map<string, number>();
+  runs.forEach(run => {
+    const ageDays = (now - Date.parse(run.startTime)) / DAY_MS;
+    if (!Number.isFinite(ageDays)) {
+      return;
+    }
+    const weight = FRECENCY_BUCKETS.find(bucket => ageDays <= bucket.maxAgeDays)?.weight ?? OLD_RUN_WEIGHT;
+    scores.set(run.commandId, (scores.get(run.commandId) ?? 0) + weight);
+  });
+  return scores;
+}
+
+function matchScore(candidate: QuickRunCandidate, word: string): number | undefined {
+  const scores = [
+    [fuzzyScore(word, candidate.command.label), FIELD_WEIGHTS.label],
+    [fuzzyScore(word, candidate.folderPath.join('/')), FIELD_WEIGHTS.folderPath],
+    [fuzzyScore(word, candidate.command.command), FIELD_WEIGHTS.command]
+  ]
+    .filter((entry): entry is [number, number] => entry[0] !== undefined)
+    .map(([score, weight]) => score * weight);
+  return scores.length > 0 ? Math.max(...scores) : undefined;
+}
+
+/**
+ * Keeps the candidates every word of the query matches, in the folder path,
+ * label or command text, and orders them by match quality plus frecency.
+ * Without a query they are ordered by frecency alone.
+ */
+export function rankCandidates(candidates: QuickRunCandidate[], query: string, frecency: Map<string, number>): RankedCandidate[] {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  const ranked: Array<RankedCandidate & { order: number }> = [];
+
+  candidates.forEach((candidate, order) => {
+    let score = 0;
+    for (const word of words) {
+      const wordScore = matchScore(candidate, word);
+      if (wordScore === undefined) {
+        return;
+      }
+      score += wordScore;
+    }
+    // Logarithmic so frecency breaks ties between good matches without burying better ones
+    score += Math.log2(1 + (frecency.get(candidate.command.id) ?? 0)) * 2;
+    ranked.push({ ...candidate, score, order });
+  });
+
+  return ranked
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(({ order, ...candidate }) => candidate);
+}
+
+/** Detail line hint listing the values a command will ask for, e.g. "Asks for Environment, Service" */
+export function formatVariableHint(labels: string[]): string {
+  return labels.length > 0 ? `Asks for ${labels.join(', ')}` : '';
+}
@@ -4,10 +4,14 @@ import * as fs from 'fs';
 import { Command, CommandConfig, Folder, TestRunnerConfig, Timer, SubTimer } from '../../types';
 import { ConfigManager } from '../../config/ConfigManager';
 import { CommandTreeProvider } from '../../../apps/tasks/treeView/CommandTreeProvider';
+import { CommandExecutor } from '../../../apps/tasks/execution/CommandExecutor';
 import { VariableResolver } from '../../variables/VariableResolver';
+import { SecretVariableStore } from '../../variables/SecretVariableStore';
+import { CommandPreview } from '../../variables/commandPreview';
 import { TestRunnerManager } from '../../../apps/testRunner/TestRunnerManager';
 import { TestRunnerTreeProvider } from '../../../apps/testRunner/TestRunnerTreeProvider';
 import { TimeTrackerManager } from '../../../apps/timeTracker/TimeTrackerManager';
+import { getWorkspaceFolderPath } from '../../utils/workspaceFolders';
 
 interface CommandEditorContext {
   folderPath?: number[];
@@ -27,6 +31,9 @@ export class WebviewManager {
   private configPanel?: vscode.WebviewPanel;
   private testRunnerPanel?: vscode.WebviewPanel;
   private timerPanel?: vscode.WebviewPanel;
+  private previewPanel?: vscode.WebviewPanel;
+  private previewedCommand?: Command;
+  private commandPreview?: CommandPreview;
 
   private readonly configManager = ConfigManager.getInstance();
   private readonly variableResolver = VariableResolver.getInstance();
@@ -92,6 +99,9 @@ export class WebviewManager {
           await this.saveCommand(message.command as Command, message.context as CommandEditorContext | undefined);
           this.sendCommandEditorState(message.command as Command, this.resolveCommandContext(message.command as Command, message.context));
           break;
+        case 'previewCommand':
+          this.showCommandPreview(message.command as Command);
+          break;
         case 'error':
           vscode.window.showErrorMessage(message.message);
           break;
@@ -106,6 +116,71 @@ export class WebviewManager {
     });
   }
 
+  /**
+   * Shows what a command would run without running it. The preview is built
+   * before the panel opens, while the active editor still fills ${file}.
+   */
+  public showCommandPreview(command: Command): void {
+    this.previewedCommand = command;
+    this.commandPreview = CommandExecutor.getInstance().previewCommand(command);
+
+    if (this.previewPanel) {
+      this.previewPanel.reveal();
+      this.previewPanel.title = `Preview ${command.label}`;
+      this.sendCommandPreview();
+      return;
+    }
+
+    this.previewPanel = vscode.window.createWebviewPanel(
+      'commandPreview',
+      `Preview ${command.label}`,
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [this.getWebviewRoot()]
+      }
+    );
+
+    this.previewPanel.webview.html = this.getHtmlContent('command-preview.html', this.previewPanel.webview);
+
+    this.previewPanel.webview.onDidReceiveMessage(async (message) => {
+      switch (message.type) {
+        case 'ready':
+          this.sendCommandPreview();
+          break;
+        case 'copy':
+          if (this.commandPreview) {
+            await vscode.env.clipboard.writeText(this.commandPreview.text);
+            vscode.window.showInformationMessage(`Copied "${this.commandPreview.label}" to the clipboard.`);
+          }
+          break;
+        case 'run':
+          if (this.previewedCommand) {
+            try {
+              await CommandExecutor.getInstance().executeCommandWithProgress(this.previewedCommand);
+            } catch (error) {
+              vscode.window.showErrorMessage(`Failed to execute command: ${error}`);
+            }
+          }
+          break;
+        case 'cancel':
+          this.previewPanel?.dispose();
+          break;
+      }
+    });
+
+    this.previewPanel.onDidDispose(() => {
+      this.previewPanel = undefined;
+      this.previewedCommand = undefined;
+      this.commandPreview = undefined;
+    });
+  }
+
+  private sendCommandPreview(): void {
+    this.previewPanel?.webview.postMessage({ type: 'init', preview: this.commandPreview });
+  }
+
   public showFolderEditor(folder?: Folder, context?: FolderEditorContext): void {
     const resolvedContext = this.resolveFolderContext(folder, context);
 
@@ -186,6 +261,15 @@ export class WebviewManager {
         case 'deleteSharedList':
           await this.deleteSharedList(message.key);
           break;
+        case 'setSecret':
+          await this.promptForSecret(message.key, message.label);
+          break;
+        case 'storeSecret':
+          await SecretVariableStore.getInstance().store(message.key, message.value);
+          break;
+        case 'clearSecret':
+          await this.clearSecret(message.key);
+          break;
         case 'saveConfig':
           await this.saveConfigFromJson(message.configJson);
           break;
@@ -201,7 +285,10 @@ export class WebviewManager {
       }
     });
 
+    const secretsDisposable = SecretVariableStore.getInstance().onDidChange(() => this.sendConfigToConfigPanel());
+
     this.configPanel.onDidDispose(() => {
+      secretsDisposable.dispose();
       this.configPanel = undefined;
     });
   }
@@ -240,7 +327,7 @@ export class WebviewManager {
                 label: test.label,
                 file: test.file.fsPath,
                 filePath: path.relative(
-                  vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '',
+                  getWorkspaceFolderPath(undefined, test.file) || '',
                   test.file.fsPath
                 ),
                 line: test.line
@@ -393,7 +480,7 @@ export class WebviewManager {
               label: test.label,
               file: test.file.fsPath,
               filePath: path.relative(
-                vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '',
+                getWorkspaceFolderPath(undefined, test.file) || '',
                 test.file.fsPath
               ),
               line: test.line
@@ -485,7 +572,8 @@ export class WebviewManager {
       config,
       isExisting,
       tests: tests || [],
-      iconUris: { pass: passIcon.toString(), fail: failIcon.toString() }
+      iconUris: { pass: passIcon.toString(), fail: failIcon.toString() },
+      workspaceFolders: (vscode.workspace.workspaceFolders ?? []).map(folder => folder.name)
     });
   }
 
@@ -540,6 +628,9 @@ export class WebviewManager {
     const allowNonTest = typeof data?.allowNonTest === 'boolean' ? data.allowNonTest : false;
     const autoFind = typeof data?.autoFind === 'boolean' ? data.autoFind : true;
     const inlineButton = typeof data?.inlineButton === 'boolean' ? data.inlineButton : true;
+    const workspaceFolder = typeof data?.workspaceFolder === 'string' && data.workspaceFolder.trim()
+      ? data.workspaceFolder.trim()
+      : undefined;
 
     if (!runTestCommand) {
       throw new Error('Run test command is required. Use $test_name, $test_path, or other available variables.');
@@ -558,7 +649,8 @@ export class WebviewManager {
       terminalName: terminalName || title,
       allowNonTest,
       autoFind,
-      inlineButton
+      inlineButton,
+      workspaceFolder
     };
   }
 
@@ -567,6 +659,7 @@ export class WebviewManager {
     this.folderPanel?.dispose();
     this.configPanel?.dispose();
     this.testRunnerPanel?.dispose();
+    this.previewPanel?.dispose();
     this.treeProvider = undefined;
   }
 
@@ -705,8 +798,12 @@ export class WebviewManager {
   private async deleteSharedVariable(key: string): Promise<void> {
     try {
       const config = this.configManager.getConfig();
+      const removed = (config.sharedVariables || []).find(variable => variable.key === key);
       config.sharedVariables = (config.sharedVariables || []).filter(variable => variable.key !== key);
       await this.configManager.saveConfig(config);
+      if (removed?.secret) {
+        await SecretVariableStore.getInstance().delete(key);
+      }
       this.treeProvider?.refresh();
       this.sendConfigToConfigPanel();
       vscode.window.showInformationMessage(`Deleted variable "${key}".`);
@@ -716,6 +813,26 @@ export class WebviewManager {
     }
   }
 
+  private async promptForSecret(key: string, label?: string): Promise<void> {
+    const value = await vscode.window.showInputBox({
+      prompt: `Enter the value for ${label || key}. It is kept in VS Code's secret storage, not in the configuration.`,
+      password: true,
+      ignoreFocusOut: true
+    });
+
+    if (value === undefined) {
+      return;
+    }
+
+    await SecretVariableStore.getInstance().store(key, value);
+    vscode.window.showInformationMessage(`Stored secret "${key}".`);
+  }
+
+  private async clearSecret(key: string): Promise<void> {
+    await SecretVariableStore.getInstance().delete(key);
+    vscode.window.showInformationMessage(`Cleared secret "${key}". It will be asked for on the next run.`);
+  }
+
   private async deleteSharedList(key: string): Promise<void> {
     try {
       const config = this.configManager.getConfig();
@@ -772,8 +889,27 @@ export class WebviewManager {
       type: 'init',
       command,
       context,
-      variables: this.variableResolver.getAvailableVariables()
+      variables: this.variableResolver.getAvailableVariables(),
+      commands: this.getChainableCommands(command?.id),
+      templates: this.configManager.getConfig().templates ?? [],
+      workspaceFolders: (vscode.workspace.workspaceFolders ?? []).map(folder => folder.name)
+    });
+  }
+
+  private getChainableCommands(excludeId?: string, folders: Folder[] = this.configManager.getConfig().folders): Array<{ id: string; label: string }> {
+    const commands: Array<{ id: string; label: string }> = [];
+
+    folders.forEach(folder => {
+      folder.commands
+        .filter(cmd => cmd.id !== excludeId)
+        .forEach(cmd => commands.push({ id: cmd.id, label: cmd.label }));
+
+      if (folder.subfolders) {
+        commands.push(...this.getChainableCommands(excludeId, folder.subfolders));
+      }
     });
+
+    return commands;
   }
 
   private sendAvailableVariables(): void {
@@ -804,9 +940,17 @@ export class WebviewManager {
       return;
     }
 
-    this.configPanel.webview.postMessage({
-      type: 'config',
-      config: this.configManager.getConfig()
+    const config = this.configManager.getConfig();
+    const store = SecretVariableStore.getInstance();
+    const secretKeys = (config.sharedVariables || []).filter(variable => variable.secret).map(variable => variable.key);
+
+    // Only whether a secret is set is sent to the webview, never its value
+    void Promise.all(secretKeys.map(async key => [key, await store.has(key)] as const)).then(entries => {
+      this.configPanel?.webview.postMessage({
+        type: 'config',
+        config,
+        secrets: Object.fromEntries(entries)
+      });
     });
   }
 
@@ -914,7 +1058,13 @@ export class WebviewManager {
     const [index, ...rest] = path;
 
     if (rest.length === 0) {
-      folders[index] = folder;
+      // The editor never sees which workspace root or layer a top-level folder came from
+      const { workspaceRoot, layer } = folders[index] ?? {};
+      folders[index] = {
+        ...folder,
+        ...(workspaceRoot ? { workspaceRoot } : {}),
+        ...(layer ? { layer } : {})
+      };
       return;
     }
 
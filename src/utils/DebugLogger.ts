@@ -6,7 +6,8 @@ export enum DebugTag {
   VARIABLE = '[ Variable ]',
   MOVE = '[ Move ]',
   RESOLVER = '[ Resolver ]',
-  TEST_RUNNER = '[ TestRunner ]'
+  TEST_RUNNER = '[ TestRunner ]',
+  HISTORY = '[ History ]'
 }
 
 export class DebugLogger {
@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * Returns the workspace folder with the given name. Without a name (or when the
+ * name is unknown) the folder owning `resource` is used, then the first folder.
+ */
+export function getWorkspaceFolder(name?: string, resource?: vscode.Uri): vscode.WorkspaceFolder | undefined {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+
+  if (name) {
+    const named = folders.find(folder => folder.name === name);
+    if (named) {
+      return named;
+    }
+  }
+
+  if (resource) {
+    const owner = vscode.workspace.getWorkspaceFolder(resource);
+    if (owner) {
+      return owner;
+    }
+  }
+
+  return folders[0];
+}
+
+export function getWorkspaceFolderPath(name?: string, resource?: vscode.Uri): string | undefined {
+  return getWorkspaceFolder(name, resource)?.uri.fsPath;
+}
+
+export function isMultiRootWorkspace(): boolean {
+  return (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+}
+
+/**
+ * Resolves a possibly relative path against a workspace folder. Returns the
+ * folder itself when no path is given.
+ */
+export function resolveWorkspacePath(target: string | undefined, folderName?: string): string | undefined {
+  const root = getWorkspaceFolderPath(folderName);
+  if (!target) {
+    return root;
+  }
+  if (path.isAbsolute(target) || !root) {
+    return target;
+  }
+  return path.resolve(root, target);
+}
+
+/**
+ * Replaces `${workspaceFolder}`, `${workspaceFolderBasename}` and the multi-root
+ * form `${workspaceFolder:name}`. The unnamed forms use `defaultFolderName`.
+ */
+export function substituteWorkspaceFolderVariables(text: string, defaultFolderName?: string): string {
+  let result = text.replace(/\$\{workspaceFolder:([^}]+)\}/g, (_match, name: string) => {
+    const folder = (vscode.workspace.workspaceFolders ?? []).find(candidate => candidate.name === name.trim());
+    if (!folder) {
+      throw new Error(`Workspace folder "${name}" is not open in this window.`);
+    }
+    return folder.uri.fsPath;
+  });
+
+  const defaultFolder = getWorkspaceFolder(defaultFolderName);
+  if (defaultFolder) {
+    result = result.replace(/\$\{workspaceFolder\}/g, defaultFolder.uri.fsPath);
+    result = result.replace(/\$\{workspaceFolderBasename\}/g, defaultFolder.name);
+  }
+
+  return result;
+}
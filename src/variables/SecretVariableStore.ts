@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+
+const SECRET_KEY_PREFIX = 'commands-manager-next.secret.';
+
+/** Shown in place of secret values in history, previews and confirmations */
+export const SECRET_MASK = '••••••';
+
+/**
+ * Values of secret variables, kept in VS Code's SecretStorage so they never
+ * reach commands.json or anything synced from it. SecretStorage is shared by
+ * every window, so values are keyed by the workspace config file and variable
+ * key, plus the command id for secrets declared on a single command.
+ */
+export class SecretVariableStore {
+  private static instance: SecretVariableStore;
+  private secrets?: vscode.SecretStorage;
+  private scope = '';
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  public readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  private constructor() { }
+
+  public static getInstance(): SecretVariableStore {
+    if (!SecretVariableStore.instance) {
+      SecretVariableStore.instance = new SecretVariableStore();
+    }
+    return SecretVariableStore.instance;
+  }
+
+  /** `scope` identifies the workspace, e.g. the path of its commands.json */
+  public setSecretStorage(secrets: vscode.SecretStorage, scope: string): void {
+    this.secrets = secrets;
+    this.scope = scope;
+  }
+
+  public isAvailable(): boolean {
+    return this.secrets !== undefined;
+  }
+
+  public async get(key: string, commandId?: string): Promise<string | undefined> {
+    return this.secrets?.get(this.getStorageKey(key, commandId));
+  }
+
+  public async has(key: string, commandId?: string): Promise<boolean> {
+    return (await this.get(key, commandId)) !== undefined;
+  }
+
+  public async store(key: string, value: string, commandId?: string): Promise<void> {
+    if (!this.secrets) {
+      return;
+    }
+    await this.secrets.store(this.getStorageKey(key, commandId), value);
+    this._onDidChange.fire();
+  }
+
+  public async delete(key: string, commandId?: string): Promise<void> {
+    if (!this.secrets) {
+      return;
+    }
+    await this.secrets.delete(this.getStorageKey(key, commandId));
+    this._onDidChange.fire();
+  }
+
+  private getStorageKey(key: string, commandId?: string): string {
+    // Encoded as JSON so paths, ids and keys can never run into each other
+    return `${SECRET_KEY_PREFIX}${JSON.stringify([this.scope, commandId ?? null, key])}`;
+  }
+}
@@ -1,21 +1,54 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { Command, CommandVariable, ResolvedVariable, SharedList, SharedVariable } from '../types';
+import * as fs from 'fs';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { Command, CommandVariable, CommandVariableType, OptionSource, ResolvedVariable, SharedList, SharedVariable } from '../types';
 import { ConfigManager } from '../config/ConfigManager';
-import { MissingVariableError, UserCancelledError } from './errors';
+import { InteractionRequiredError, MissingVariableError, UserCancelledError } from './errors';
+import { SECRET_MASK, SecretVariableStore } from './SecretVariableStore';
+import { VariableValueHistory } from './VariableValueHistory';
+import { orderByRecent } from './recentValues';
+import { getWorkspaceFolder, resolveWorkspacePath, substituteWorkspaceFolderVariables } from '../utils/workspaceFolders';
+import {
+  describeNumberRange,
+  getBooleanValues,
+  joinSelectedOptions,
+  validateNumberInput,
+  validatePatternInput
+} from './validation';
+import { parseStructuredFile, queryJsonPath, splitCommandOutput, toOptionStrings } from './optionSources';
+
+const execAsync = promisify(exec);
+// Option commands feed a picker, so give up rather than leave the user waiting
+const OPTION_COMMAND_TIMEOUT_MS = 15000;
 
 interface VariableMetadata {
   key: string;
   label?: string;
-  type: 'fixed' | 'options' | 'file';
+  type: CommandVariableType;
   description?: string;
   value?: string;
   options?: string[];
 }
 
+// VS Code style ${...} variables that CommandExecutor fills in from the workspace and editor
+const BUILTIN_VARIABLES = new Set([
+  'workspaceFolder',
+  'workspaceFolderBasename',
+  'file',
+  'fileBasename',
+  'fileDirname',
+  'fileExtname',
+  'fileBasenameNoExt',
+  'cwd',
+  'pathSeparator'
+]);
+
 export class VariableResolver {
   private static instance: VariableResolver;
   private readonly configManager: ConfigManager;
+  private readonly optionSourceCache = new Map<string, { options: string[]; expiresAt: number }>();
 
   private constructor() {
     this.configManager = ConfigManager.getInstance();
@@ -34,7 +67,7 @@ export class VariableResolver {
     let match: RegExpExecArray | null;
 
     while ((match = regex.exec(commandText)) !== null) {
-      if (match[1]) {
+      if (match[1] && !(match[0].startsWith('${') && BUILTIN_VARIABLES.has(match[1]))) {
         placeholders.add(match[1]);
       }
     }
@@ -42,6 +75,33 @@ export class VariableResolver {
     return Array.from(placeholders);
   }
 
+  /**
+   * The built-in ${...} variables in the text, filled in from the workspace and
+   * editor rather than prompted for, e.g. ['workspaceFolder:api', 'file'].
+   */
+  public extractWorkspaceVariables(commandText: string): string[] {
+    const variables = new Set<string>();
+    const regex = /\$\{([A-Za-z]+)(?::([^}]+))?\}/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(commandText)) !== null) {
+      if (BUILTIN_VARIABLES.has(match[1])) {
+        variables.add(match[2] ? `${match[1]}:${match[2]}` : match[1]);
+      }
+    }
+
+    return Array.from(variables);
+  }
+
+  /**
+   * Text that may contain placeholders for a command: the command itself plus
+   * its environment values and env file path.
+   */
+  public getPlaceholderSource(command: Command): string {
+    const envValues = Object.values(command.terminal?.env ?? {});
+    return [command.command, ...envValues, command.terminal?.envFile ?? ''].join('\n');
+  }
+
   private extractInputHelpText(commandText: string): string | undefined {
     const regex = /\$(?:\{)?input(?::helptext=(?:"([^"]*)"|'([^']*)'))?(?:\})?/gi;
     let match: RegExpExecArray | null;
@@ -64,9 +124,9 @@ export class VariableResolver {
       variables.push({
         key: variable.key,
         label: variable.label,
-        type: 'fixed',
+        type: variable.secret ? 'secret' : 'fixed',
         description: variable.description,
-        value: variable.value
+        value: variable.secret ? undefined : variable.value
       });
     });
 
@@ -83,12 +143,24 @@ export class VariableResolver {
     return variables;
   }
 
-  public async resolveCommandVariables(command: Command): Promise<ResolvedVariable[]> {
-    const placeholders = this.extractPlaceholders(command.command);
+  /**
+   * Resolves every placeholder in the command. Values in `presets` are reused
+   * as-is (e.g. when re-running from history) and are not prompted for again.
+   * Without `interactive`, a value that would have to be asked for throws an
+   * InteractionRequiredError instead.
+   */
+  public async resolveCommandVariables(
+    command: Command,
+    presets: ResolvedVariable[] = [],
+    { interactive = true }: { interactive?: boolean } = {}
+  ): Promise<ResolvedVariable[]> {
+    const placeholders = this.extractPlaceholders(this.getPlaceholderSource(command));
     if (placeholders.length === 0) {
       return [];
     }
 
+    const presetValues = new Map(presets.map(preset => [preset.key, preset] as const));
+
     const inputHelpText = this.extractInputHelpText(command.command);
 
     const config = this.configManager.getConfig();
@@ -100,17 +172,30 @@ export class VariableResolver {
       commandVariables.set(variable.key, variable);
     });
 
+    const workspaceFolder = command.workspaceFolder || this.configManager.getCommandWorkspaceRoot(command.id);
+    const valueHistory = VariableValueHistory.getInstance();
+    const fixedKeys = new Set<string>();
     const resolved: ResolvedVariable[] = [];
 
     for (const key of placeholders) {
+      const preset = presetValues.get(key);
+      // A masked secret, e.g. from a history entry, is read from secret storage again
+      if (preset !== undefined && !(preset.secret && preset.value === SECRET_MASK)) {
+        resolved.push({ ...preset });
+        continue;
+      }
+
       // Handle manual input variable
       if (key === 'input') {
+        if (!interactive) {
+          throw new InteractionRequiredError('Variable "input" would have to be typed in');
+        }
         const userInput = await vscode.window.showInputBox({
           prompt: inputHelpText
             ? 'Tip: add $input:helptext="Your text" to commands to show custom guidance.'
             : 'Enter input for the command',
           placeHolder: inputHelpText || 'Type your input here (can be empty)',
-          value: ''
+          value: valueHistory.getRecentValues(command.id, key)[0] ?? ''
         });
 
         if (userInput === undefined) {
@@ -125,12 +210,24 @@ export class VariableResolver {
       const sharedVariable = variableMap.get(key);
       const sharedList = listMap.get(key);
 
-      const type = variableDefinition?.type || (sharedList ? 'options' : sharedVariable ? 'fixed' : undefined);
+      const type = variableDefinition?.type ||
+        (sharedList ? 'options' : sharedVariable ? (sharedVariable.secret ? 'secret' : 'fixed') : undefined);
 
       if (!type) {
         throw new MissingVariableError(key);
       }
 
+      if (type === 'secret') {
+        resolved.push(await this.resolveSecretVariable(key, {
+          label: variableDefinition?.label || sharedVariable?.label || key,
+          description: variableDefinition?.description || sharedVariable?.description,
+          // A secret declared on the command is its own; shared ones are shared by every command
+          commandId: variableDefinition?.type === 'secret' ? command.id : undefined,
+          interactive
+        }));
+        continue;
+      }
+
       if (type === 'fixed') {
         let value: string | undefined;
         if (variableDefinition?.value) {
@@ -155,10 +252,16 @@ export class VariableResolver {
           source: variableDefinition?.value ? 'command' : 'shared'
         });
         
+        fixedKeys.add(key);
         resolved.push({ key, value: value || '' });
         continue;
       }
 
+      // Every kind below is picked or typed by the user
+      if (!interactive) {
+        throw new InteractionRequiredError(`Variable "${key}" has no remembered value and would be asked for`);
+      }
+
       if (type === 'options') {
         const { DebugLogger, DebugTag } = await import('../utils/DebugLogger');
         
@@ -167,11 +270,15 @@ export class VariableResolver {
 
         if (variableDefinition) {
           // Use command variable options
-          options = variableDefinition.value.split('\n').filter(opt => opt.trim());
+          options = variableDefinition.source
+            ? await this.loadSourceOptions(variableDefinition.source, workspaceFolder)
+            : variableDefinition.value.split('\n').filter(opt => opt.trim());
           quickPickLabel = variableDefinition.label || key;
         } else if (sharedList) {
           // Use shared list options
-          options = sharedList.options;
+          options = sharedList.source
+            ? await this.loadSourceOptions(sharedList.source, workspaceFolder)
+            : sharedList.options;
           quickPickLabel = sharedList.label || key;
         } else {
           throw new MissingVariableError(key);
@@ -183,9 +290,11 @@ export class VariableResolver {
           source: variableDefinition ? 'command' : 'shared'
         });
 
-        // Add custom input option to the list
+        // Recently used values come first, then the custom input option and the rest
         const customInputOption = '✏️ Custom Input...';
-        const allOptions = [customInputOption, ...options];
+        const recent = valueHistory.getRecentValues(command.id, key);
+        const ordered = orderByRecent(options, recent);
+        const allOptions = [...ordered.slice(0, recent.length), customInputOption, ...ordered.slice(recent.length)];
 
         const selection = await vscode.window.showQuickPick(allOptions, {
           placeHolder: `Select ${quickPickLabel} or choose custom input`
@@ -203,7 +312,7 @@ export class VariableResolver {
           const customInput = await vscode.window.showInputBox({
             prompt: `Enter custom value for ${quickPickLabel}`,
             placeHolder: 'Type your custom option here',
-            value: ''
+            value: recent[0] ?? ''
           });
 
           if (customInput === undefined) {
@@ -225,7 +334,7 @@ export class VariableResolver {
 
       if (type === 'file') {
         const basePath = variableDefinition?.value?.trim() || '';
-        const defaultUri = this.resolveBaseDirectoryUri(basePath);
+        const defaultUri = this.resolveBaseDirectoryUri(basePath, workspaceFolder);
 
         const selection = await vscode.window.showOpenDialog({
           canSelectFiles: true,
@@ -242,20 +351,183 @@ export class VariableResolver {
         resolved.push({ key, value: selection[0].fsPath });
         continue;
       }
+
+      if (variableDefinition) {
+        resolved.push(await this.promptTypedVariable(
+          variableDefinition,
+          workspaceFolder,
+          valueHistory.getRecentValues(command.id, key)
+        ));
+      }
     }
 
+    // Fixed values and presets were not picked by the user, so there is nothing to remember
+    await valueHistory.remember(
+      command.id,
+      resolved.filter(variable => !presetValues.has(variable.key) && !fixedKeys.has(variable.key))
+    );
+
     return resolved;
   }
 
-  private resolveBaseDirectoryUri(inputPath: string): vscode.Uri | undefined {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+  /**
+   * Reads a secret from secret storage, prompting for it (and storing it) only
+   * the first time. Without secret storage the value is prompted on every run.
+   */
+  private async resolveSecretVariable(
+    key: string,
+    { label, description, commandId, interactive }: { label: string; description?: string; commandId?: string; interactive: boolean }
+  ): Promise<ResolvedVariable> {
+    const store = SecretVariableStore.getInstance();
+    const stored = await store.get(key, commandId);
+    if (stored !== undefined) {
+      return { key, value: stored, secret: true };
+    }
+    if (!interactive) {
+      throw new InteractionRequiredError(`Secret "${key}" is not stored yet and would be asked for`);
+    }
+
+    const value = await vscode.window.showInputBox({
+      prompt: `Enter ${label}${store.isAvailable() ? ' (stored securely, asked only once)' : ''}`,
+      placeHolder: description,
+      password: true,
+      ignoreFocusOut: true
+    });
+
+    if (value === undefined) {
+      throw new UserCancelledError();
+    }
+
+    await store.store(key, value, commandId);
+    return { key, value, secret: true };
+  }
+
+  /**
+   * Prompts for the typed kinds: number, boolean, multiselect and text.
+   */
+  private async promptTypedVariable(
+    variable: CommandVariable,
+    workspaceFolder?: string,
+    recent: string[] = []
+  ): Promise<ResolvedVariable> {
+    const { DebugLogger, DebugTag } = await import('../utils/DebugLogger');
+    const label = variable.label || variable.key;
+    let value: string | undefined;
+
+    switch (variable.type) {
+      case 'number': {
+        const range = describeNumberRange(variable.min, variable.max);
+        value = await vscode.window.showInputBox({
+          prompt: `Enter ${label}${range ? ` (${range})` : ''}`,
+          value: recent[0] ?? (variable.value || ''),
+          validateInput: text => validateNumberInput(text, variable.min, variable.max)
+        });
+        value = value?.trim();
+        break;
+      }
+      case 'boolean': {
+        const { on, off } = getBooleanValues(variable);
+        const choices = [
+          { label: 'Yes', description: on, value: on },
+          { label: 'No', description: off, value: off }
+        ];
+        // Offer the last answer first
+        if (recent[0] === off && off !== on) {
+          choices.reverse();
+        }
+        const selection = await vscode.window.showQuickPick(choices, { placeHolder: label });
+        value = selection?.value;
+        break;
+      }
+      case 'multiselect': {
+        const options = variable.source
+          ? await this.loadSourceOptions(variable.source, workspaceFolder)
+          : variable.value.split('\n').filter(option => option.trim());
+        // Pre-select what was picked last time
+        const lastPicked = new Set(recent.length > 0 ? recent[0].split(variable.separator ?? ',') : []);
+        const selection = await vscode.window.showQuickPick(
+          options.map(option => ({ label: option, picked: lastPicked.has(option) })),
+          { placeHolder: `Select ${label}`, canPickMany: true }
+        );
+        value = selection ? joinSelectedOptions(selection.map(item => item.label), variable.separator) : undefined;
+        break;
+      }
+      case 'text':
+        value = await vscode.window.showInputBox({
+          prompt: `Enter ${label}`,
+          placeHolder: variable.description,
+          value: recent[0] ?? (variable.value || ''),
+          validateInput: text => validatePatternInput(text, variable.pattern)
+        });
+        break;
+      default:
+        throw new MissingVariableError(variable.key);
+    }
+
+    if (value === undefined) {
+      throw new UserCancelledError();
+    }
+
+    DebugLogger.log(DebugTag.VARIABLE, `Resolved ${variable.type} variable`, { key: variable.key, value });
+
+    return { key: variable.key, value };
+  }
+
+  /**
+   * Loads options from a command's output or a JSON/YAML file. Results are kept
+   * for `cacheSeconds` so repeated runs do not re-run slow commands.
+   */
+  private async loadSourceOptions(source: OptionSource, workspaceFolder?: string): Promise<string[]> {
+    const cacheKey = JSON.stringify([workspaceFolder, source.command, source.file, source.path]);
+    const cached = this.optionSourceCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.options;
+    }
+
+    const cwd = resolveWorkspacePath(undefined, workspaceFolder);
+    let options: string[];
+
+    if (source.command) {
+      const command = substituteWorkspaceFolderVariables(source.command, workspaceFolder);
+      try {
+        const { stdout } = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Window, title: `Loading options: ${command}` },
+          () => execAsync(command, { cwd, timeout: OPTION_COMMAND_TIMEOUT_MS, maxBuffer: 1024 * 1024 })
+        );
+        options = splitCommandOutput(stdout);
+      } catch (error: unknown) {
+        // exec errors carry the command's stderr, which says more than the exit code
+        const stderr = error instanceof Error && 'stderr' in error ? String(error.stderr).trim() : '';
+        const detail = stderr || (error instanceof Error ? error.message : String(error));
+        throw new Error(`Could not load options from "${command}": ${detail}`);
+      }
+    } else if (source.file) {
+      const filePath = resolveWorkspacePath(substituteWorkspaceFolderVariables(source.file, workspaceFolder), workspaceFolder)!;
+      try {
+        const data = parseStructuredFile(await fs.promises.readFile(filePath, 'utf8'), filePath);
+        options = toOptionStrings(source.path ? queryJsonPath(data, source.path) : [data]);
+      } catch (error) {
+        const detail = error instanceof Error ? error.message : String(error);
+        throw new Error(`Could not load options from ${source.file}: ${detail}`);
+      }
+    } else {
+      throw new Error('Option source needs a command or a file');
+    }
+
+    if (source.cacheSeconds && source.cacheSeconds > 0) {
+      this.optionSourceCache.set(cacheKey, { options, expiresAt: Date.now() + source.cacheSeconds * 1000 });
+    }
+    return options;
+  }
+
+  private resolveBaseDirectoryUri(inputPath: string, workspaceFolderName?: string): vscode.Uri | undefined {
+    const workspaceFolder = getWorkspaceFolder(workspaceFolderName);
 
     if (!inputPath) {
       return workspaceFolder?.uri;
     }
 
-    const trimmed = inputPath.replace('${workspaceFolder}', workspaceFolder?.uri.fsPath ?? '');
-    const normalized = trimmed.trim();
+    const normalized = substituteWorkspaceFolderVariables(inputPath, workspaceFolderName).trim();
 
     if (!normalized) {
       return workspaceFolder?.uri;
@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { ResolvedVariable } from '../types';
+import { rememberValue } from './recentValues';
+
+const STORAGE_KEY = 'variableHistory.values';
+const DEFAULT_RECENT_VALUES = 5;
+
+type StoredValues = Record<string, Record<string, string[]>>;
+
+/**
+ * Remembers the values picked for each command's variables in workspace state,
+ * newest first, so prompts can offer them again.
+ */
+export class VariableValueHistory {
+  private static instance: VariableValueHistory;
+  private workspaceState?: vscode.Memento;
+  private values: StoredValues = {};
+
+  private constructor() { }
+
+  public static getInstance(): VariableValueHistory {
+    if (!VariableValueHistory.instance) {
+      VariableValueHistory.instance = new VariableValueHistory();
+    }
+    return VariableValueHistory.instance;
+  }
+
+  public setWorkspaceState(workspaceState: vscode.Memento): void {
+    this.workspaceState = workspaceState;
+    this.values = workspaceState.get<StoredValues>(STORAGE_KEY, {});
+  }
+
+  public getRecentValues(commandId: string, key: string): string[] {
+    return [...(this.values[commandId]?.[key] ?? [])];
+  }
+
+  /** The most recent value of every variable remembered for the command */
+  public getLastValues(commandId: string): ResolvedVariable[] {
+    return Object.entries(this.values[commandId] ?? {})
+      .filter(([, recent]) => recent.length > 0)
+      .map(([key, recent]) => ({ key, value: recent[0] }));
+  }
+
+  public async remember(commandId: string, variables: ResolvedVariable[]): Promise<void> {
+    const limit = this.getLimit();
+    const remembered = variables.filter(variable => !variable.secret);
+    if (remembered.length === 0) {
+      return;
+    }
+
+    const commandValues = { ...(this.values[commandId] ?? {}) };
+    remembered.forEach(variable => {
+      commandValues[variable.key] = rememberValue(commandValues[variable.key] ?? [], variable.value, limit);
+    });
+    this.values = { ...this.values, [commandId]: commandValues };
+
+    await this.workspaceState?.update(STORAGE_KEY, this.values);
+  }
+
+  private getLimit(): number {
+    return vscode.workspace.getConfiguration('commands-manager-next.tasks')
+      .get<number>('variables.recentValues', DEFAULT_RECENT_VALUES);
+  }
+}
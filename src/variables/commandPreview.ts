@@ -0,0 +1,107 @@
+import { Command, CommandConfig } from '../types';
+
+/** Where a placeholder's value comes from when the command runs */
+export type PlaceholderSource = 'command' | 'sharedVariable' | 'sharedList' | 'workspace' | 'input';
+
+/**
+ * How far a placeholder can be resolved without asking: `resolved` has its
+ * value, `prompt` is asked for at run time, `secret` is masked and `missing`
+ * has nothing to fill it with, so the run would fail.
+ */
+export type PlaceholderState = 'resolved' | 'prompt' | 'secret' | 'missing';
+
+export interface PreviewPlaceholder {
+  key: string;
+  label: string;
+  source?: PlaceholderSource;
+  state: PlaceholderState;
+  value?: string;
+}
+
+export interface PreviewSegment {
+  text: string;
+  /** Set when the text is a placeholder that is still unresolved */
+  placeholder?: string;
+}
+
+export interface CommandPreview {
+  label: string;
+  /** The command text with every value known up front filled in and secrets masked */
+  text: string;
+  segments: PreviewSegment[];
+  placeholders: PreviewPlaceholder[];
+}
+
+// Placeholders may carry metadata suffixes such as :helptext="..." that are stripped on run
+const METADATA_PATTERN = String.raw`(?::[A-Za-z0-9_-]+(?:=(?:"[^"]*"|'[^']*'|[^\s"']+))?)?`;
+
+/**
+ * Describes a placeholder the way VariableResolver would resolve it, without
+ * prompting: command variables win over shared variables and shared lists.
+ */
+export function describePlaceholder(
+  key: string,
+  command: Command,
+  config: Pick<CommandConfig, 'sharedVariables' | 'sharedLists'>
+): PreviewPlaceholder {
+  if (key === 'input') {
+    return { key, label: 'Manual input', source: 'input', state: 'prompt' };
+  }
+
+  const variable = command.variables?.find(candidate => candidate.key === key);
+  const shared = config.sharedVariables?.find(candidate => candidate.key === key);
+  const list = config.sharedLists?.find(candidate => candidate.key === key);
+  const label = variable?.label || shared?.label || list?.label || key;
+  const type = variable?.type || (list ? 'options' : shared ? (shared.secret ? 'secret' : 'fixed') : undefined);
+
+  if (!type) {
+    return { key, label, state: 'missing' };
+  }
+
+  if (type === 'secret') {
+    return { key, label, source: variable ? 'command' : 'sharedVariable', state: 'secret' };
+  }
+
+  if (type === 'fixed') {
+    const value = variable?.value || shared?.value;
+    // A command variable without a value falls back to the shared one, even when that is empty
+    if (!value && !(variable && shared)) {
+      return { key, label, source: variable ? 'command' : 'sharedVariable', state: 'missing' };
+    }
+    return { key, label, source: variable?.value ? 'command' : 'sharedVariable', state: 'resolved', value: value || '' };
+  }
+
+  if (type === 'options' && !variable) {
+    return { key, label, source: 'sharedList', state: 'prompt' };
+  }
+
+  return { key, label, source: 'command', state: 'prompt' };
+}
+
+/** Splits the text around the given placeholders so they can be highlighted */
+export function splitPreviewText(text: string, keys: string[]): PreviewSegment[] {
+  if (keys.length === 0) {
+    return text ? [{ text }] : [];
+  }
+
+  const alternatives = keys.map(key => key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(
+    `\\$\\{(${alternatives.join('|')})${METADATA_PATTERN}\\}|\\$(${alternatives.join('|')})${METADATA_PATTERN}(?![\\w-])`,
+    'g'
+  );
+
+  const segments: PreviewSegment[] = [];
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > last) {
+      segments.push({ text: text.slice(last, match.index) });
+    }
+    segments.push({ text: match[0], placeholder: match[1] ?? match[2] });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) {
+    segments.push({ text: text.slice(last) });
+  }
+  return segments;
+}
@@ -5,6 +5,14 @@ export class MissingVariableError extends Error {
   }
 }
 
+/** An unattended run reached something that would have to ask the user */
+export class InteractionRequiredError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'InteractionRequiredError';
+  }
+}
+
 export class UserCancelledError extends Error {
   constructor() {
     super('Command execution cancelled by user');
@@ -0,0 +1,109 @@
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { parse, ParseError } from 'jsonc-parser';
+
+/**
+ * Splits command output into options: one per non-empty line, trimmed and
+ * without duplicates, in the order they were printed.
+ */
+export function splitCommandOutput(stdout: string): string[] {
+  const options = stdout
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+  return Array.from(new Set(options));
+}
+
+/**
+ * Parses a JSON (comments allowed) or YAML document, picked by file extension.
+ */
+export function parseStructuredFile(content: string, fileName: string): unknown {
+  const extension = path.extname(fileName).toLowerCase();
+  if (extension === '.yaml' || extension === '.yml') {
+    return yaml.load(content);
+  }
+
+  const errors: ParseError[] = [];
+  const data = parse(content, errors, { allowTrailingComma: true });
+  if (errors.length > 0) {
+    throw new Error(`${path.basename(fileName)} is not valid JSON`);
+  }
+  return data;
+}
+
+type PathSegment = string | number | '*';
+
+function parseJsonPath(expression: string): PathSegment[] {
+  const trimmed = expression.trim();
+  if (!trimmed.startsWith('$')) {
+    throw new Error(`JSONPath "${expression}" must start with $`);
+  }
+
+  const segments: PathSegment[] = [];
+  const tokenPattern = /\.(\*|[A-Za-z_$][\w$-]*)|\[(\*|\d+|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")\]/y;
+  let position = 1;
+
+  while (position < trimmed.length) {
+    tokenPattern.lastIndex = position;
+    const match = tokenPattern.exec(trimmed);
+    if (!match) {
+      throw new Error(`Unsupported JSONPath "${expression}" at position ${position}`);
+    }
+
+    const token = match[1] ?? match[2];
+    if (token === '*') {
+      segments.push('*');
+    } else if (/^\d+$/.test(token) && match[2] !== undefined) {
+      segments.push(Number(token));
+    } else if (token.startsWith('\'') || token.startsWith('"')) {
+      segments.push(token.slice(1, -1).replace(/\\(.)/g, '$1'));
+    } else {
+      segments.push(token);
+    }
+    position = tokenPattern.lastIndex;
+  }
+
+  return segments;
+}
+
+/**
+ * Evaluates the subset of JSONPath that option lists need: `$`, `.key`,
+ * `['key']`, `[0]` and the `*` / `[*]` wildcards.
+ */
+export function queryJsonPath(data: unknown, expression: string): unknown[] {
+  let current: unknown[] = [data];
+
+  for (const segment of parseJsonPath(expression)) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      if (value === null || typeof value !== 'object') {
+        continue;
+      }
+      if (segment === '*') {
+        next.push(...(Array.isArray(value) ? value : Object.values(value)));
+      } else if (typeof segment === 'number') {
+        if (Array.isArray(value) && segment < value.length) {
+          next.push(value[segment]);
+        }
+      } else if (!Array.isArray(value) && Object.prototype.hasOwnProperty.call(value, segment)) {
+        next.push((value as Record<string, unknown>)[segment]);
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Turns query results into option strings. A single array result is expanded,
+ * objects are skipped and duplicates removed.
+ */
+export function toOptionStrings(values: unknown[]): string[] {
+  const flattened = values.length === 1 && Array.isArray(values[0]) ? values[0] : values;
+  const options = flattened
+    .filter(value => typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean')
+    .map(value => String(value).trim())
+    .filter(value => value.length > 0);
+  return Array.from(new Set(options));
+}
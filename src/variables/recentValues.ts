@@ -0,0 +1,20 @@
+/**
+ * Puts `value` in front of the recently used values, dropping an older copy of
+ * it and anything beyond `limit`.
+ */
+export function rememberValue(recent: string[], value: string, limit: number): string[] {
+  if (limit <= 0) {
+    return [];
+  }
+  return [value, ...recent.filter(existing => existing !== value)].slice(0, limit);
+}
+
+/**
+ * Lists recently used values first, most recent at the top, followed by the
+ * remaining options in their configured order. Recent custom values that are
+ * not among the options are kept so they can be picked again.
+ */
+export function orderByRecent(options: string[], recent: string[]): string[] {
+  const recentSet = new Set(recent);
+  return [...recent, ...options.filter(option => !recentSet.has(option))];
+}
@@ -0,0 +1,57 @@
+import { CommandVariable } from '../types';
+
+const NUMBER_PATTERN = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/;
+
+/**
+ * Returns an error message for `showInputBox` when the text is not a number
+ * within the optional range, otherwise undefined.
+ */
+export function validateNumberInput(text: string, min?: number, max?: number): string | undefined {
+  const trimmed = text.trim();
+  if (!NUMBER_PATTERN.test(trimmed)) {
+    return 'Enter a number';
+  }
+
+  const value = Number(trimmed);
+  if (min !== undefined && value < min) {
+    return `Enter a number of at least ${min}`;
+  }
+  if (max !== undefined && value > max) {
+    return `Enter a number no greater than ${max}`;
+  }
+  return undefined;
+}
+
+export function describeNumberRange(min?: number, max?: number): string {
+  if (min !== undefined && max !== undefined) {
+    return `between ${min} and ${max}`;
+  }
+  if (min !== undefined) {
+    return `of at least ${min}`;
+  }
+  if (max !== undefined) {
+    return `no greater than ${max}`;
+  }
+  return '';
+}
+
+/**
+ * The pattern has to match the whole input, so `\d+` rejects "12a".
+ */
+export function validatePatternInput(text: string, pattern?: string): string | undefined {
+  if (!pattern) {
+    return undefined;
+  }
+  return new RegExp(`^(?:${pattern})$`).test(text) ? undefined : `Value must match ${pattern}`;
+}
+
+export function getBooleanValues(variable: Pick<CommandVariable, 'trueValue' | 'falseValue'>): { on: string; off: string } {
+  return {
+    on: variable.trueValue ?? 'true',
+    off: variable.falseValue ?? 'false'
+  };
+}
+
+export function joinSelectedOptions(selected: string[], separator?: string): string {
+  return selected.join(separator ?? ',');
+}
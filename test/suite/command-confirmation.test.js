@@ -0,0 +1,53 @@
+const assert = require('assert');
+
+const {
+  DEFAULT_DANGEROUS_PATTERNS,
+  findDangerousMatch,
+  getConfirmationRequirement,
+  isDangerousCommand,
+  matchesConfirmationText
+} = require('../../src/execution/confirmation');
+const { validateConfig } = require('../../src/config/schema');
+
+const detection = { enabled: true, patterns: DEFAULT_DANGEROUS_PATTERNS };
+const command = (text, extra = {}) => ({ id: 'cmd', label: 'Nuke staging', command: text, terminal: { type: 'vscode-new' }, ...extra });
+
+suite('Command confirmation', () => {
+  test('flags destructive commands in the resolved text', () => {
+    assert.strictEqual(findDangerousMatch('cd infra && terraform apply -auto-approve', DEFAULT_DANGEROUS_PATTERNS), 'terraform apply');
+    assert.strictEqual(findDangerousMatch('kubectl delete ns staging', DEFAULT_DANGEROUS_PATTERNS), 'kubectl delete');
+    assert.strictEqual(findDangerousMatch('psql -c "drop database app"', DEFAULT_DANGEROUS_PATTERNS), 'drop database');
+    assert.ok(findDangerousMatch('git push --force origin main', DEFAULT_DANGEROUS_PATTERNS));
+    assert.strictEqual(findDangerousMatch('terraform plan && kubectl get pods && git push', DEFAULT_DANGEROUS_PATTERNS), undefined);
+  });
+
+  test('skips patterns that are not valid regular expressions', () => {
+    assert.strictEqual(findDangerousMatch('make deploy-prod', ['(unclosed', 'deploy-prod']), 'deploy-prod');
+  });
+
+  test('an explicit level wins over detection, and none silences it', () => {
+    assert.deepStrictEqual(getConfirmationRequirement(command('terraform destroy'), 'terraform destroy', detection), {
+      level: 'modal',
+      matched: 'terraform destroy'
+    });
+    assert.deepStrictEqual(getConfirmationRequirement(command('terraform destroy', { confirm: 'none' }), 'terraform destroy', detection), { level: 'none' });
+    assert.deepStrictEqual(getConfirmationRequirement(command('echo hi', { confirm: 'typeLabel' }), 'echo hi', detection), { level: 'typeLabel' });
+    assert.deepStrictEqual(getConfirmationRequirement(command('terraform destroy'), 'terraform destroy', { ...detection, enabled: false }), { level: 'none' });
+  });
+
+  test('judges pinned commands on their unresolved text', () => {
+    assert.strictEqual(isDangerousCommand(command('kubectl delete pod $POD'), detection), true);
+    assert.strictEqual(isDangerousCommand(command('$TOOL delete'), detection), false);
+    assert.strictEqual(isDangerousCommand(command('echo hi', { confirm: 'modal' }), detection), true);
+  });
+
+  test('typed confirmation must match the label', () => {
+    assert.strictEqual(matchesConfirmationText('  Nuke staging ', 'Nuke staging'), true);
+    assert.strictEqual(matchesConfirmationText('nuke staging', 'Nuke staging'), false);
+  });
+
+  test('validateConfig rejects unknown confirm levels', () => {
+    const config = { folders: [{ name: 'Ops', commands: [command('echo', { confirm: 'always' })] }] };
+    assert.deepStrictEqual(validateConfig(config, 'linux').errors, ['Command 0 in folder 0 confirm must be one of none, modal, typeLabel']);
+  });
+});
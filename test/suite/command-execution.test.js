@@ -4,6 +4,7 @@ const vscode = require('vscode');
 const { CommandExecutor } = require('../../apps/tasks/execution/CommandExecutor');
 const { TerminalManager } = require('../../src/execution/TerminalManager');
 const { ConfigManager } = require('../../src/config/ConfigManager');
+const { SecretVariableStore } = require('../../src/variables/SecretVariableStore');
 
 suite('Command execution integration', () => {
   const executor = CommandExecutor.getInstance();
@@ -77,4 +78,365 @@ suite('Command execution integration', () => {
     assert.strictEqual(result.success, false, 'Command should fail when variable is missing');
     assert.strictEqual(executedCommand, '', 'Command should not execute when variable is missing');
   });
+
+  test('reports the exit code and output returned by the runner', async () => {
+    terminalManager.setRunner(async (command) => {
+      executedCommand = command;
+      return { success: false, exitCode: 2, output: 'boom\n', error: 'Command exited with code 2' };
+    });
+
+    const result = await executor.executeCommand({
+      id: 'exit-code-test',
+      label: 'Failing command',
+      command: 'exit 2',
+      terminal: { type: 'vscode-new' }
+    });
+
+    assert.strictEqual(executedCommand, 'exit 2');
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.exitCode, 2);
+    assert.strictEqual(result.output, 'boom\n');
+    assert.strictEqual(typeof result.durationMs, 'number');
+  });
+
+  test('substitutes variables in environment values', async () => {
+    let receivedConfig;
+    terminalManager.setRunner(async (command, config) => {
+      executedCommand = command;
+      receivedConfig = config;
+    });
+
+    const result = await executor.executeCommand({
+      id: 'env-test',
+      label: 'Env',
+      command: 'printenv GREETING',
+      terminal: { type: 'vscode-new', env: { GREETING: 'hello $FOO' } },
+      variables: [{ key: 'FOO', type: 'fixed', label: 'Foo' }]
+    });
+
+    assert.strictEqual(result.success, true, result.error);
+    assert.strictEqual(executedCommand, 'printenv GREETING');
+    assert.deepStrictEqual(receivedConfig.env, { GREETING: 'hello bar' });
+  });
+
+  test('refuses to run commands that reference a workspace folder that is not open', async () => {
+    const originalShowError = vscode.window.showErrorMessage;
+    vscode.window.showErrorMessage = async () => undefined;
+    try {
+      const result = await executor.executeCommand({
+        id: 'named-folder',
+        label: 'Named folder',
+        command: 'ls ${workspaceFolder:missing-root}',
+        terminal: { type: 'vscode-new' }
+      });
+
+      assert.strictEqual(result.success, false);
+      assert.ok(/missing-root/.test(result.error), result.error);
+      assert.strictEqual(executedCommand, '');
+    } finally {
+      vscode.window.showErrorMessage = originalShowError;
+    }
+  });
+
+  test('previews a workspace folder that is not open as missing', () => {
+    const preview = executor.previewCommand({
+      id: 'named-folder-preview',
+      label: 'Named folder',
+      command: 'ls ${workspaceFolder:missing-root} $FOO',
+      terminal: { type: 'vscode-new' },
+      variables: [{ key: 'FOO', type: 'fixed', label: 'Foo' }]
+    });
+
+    assert.strictEqual(preview.text, 'ls ${workspaceFolder:missing-root} bar');
+    const folder = preview.placeholders.find(placeholder => placeholder.key === 'workspaceFolder:missing-root');
+    assert.strictEqual(folder.state, 'missing');
+    assert.ok(preview.segments.some(segment => segment.placeholder === 'workspaceFolder:missing-root'));
+  });
+
+  test('offers options produced by a source command', async () => {
+    originalQuickPick = vscode.window.showQuickPick;
+    let offered;
+    vscode.window.showQuickPick = async (items) => {
+      offered = items;
+      return 'develop';
+    };
+
+    const command = {
+      id: 'source-test',
+      label: 'Checkout',
+      command: 'git checkout $BRANCH',
+      terminal: { type: 'vscode-new' },
+      variables: [{ key: 'BRANCH', type: 'options', label: 'Branch', value: '', source: { command: 'echo main && echo develop' } }]
+    };
+
+    const result = await executor.executeCommand(command);
+    assert.strictEqual(result.success, true, result.error);
+    assert.strictEqual(executedCommand, 'git checkout develop');
+
+    // Only develop is ever picked, so it is the one recent value and is offered first
+    await executor.executeCommand(command);
+    assert.deepStrictEqual(offered.slice(1), ['✏️ Custom Input...', 'main']);
+    assert.strictEqual(offered[0], 'develop');
+  });
+
+  test('pre-fills a custom option value with the last one used', async () => {
+    originalQuickPick = vscode.window.showQuickPick;
+    const originalInputBox = vscode.window.showInputBox;
+    const prefilled = [];
+    vscode.window.showQuickPick = async (items) => items.find(item => item.includes('Custom Input'));
+    vscode.window.showInputBox = async (options) => {
+      prefilled.push(options.value);
+      return 'feature/login';
+    };
+
+    try {
+      const command = {
+        id: 'custom-option-test',
+        label: 'Checkout',
+        command: 'git checkout $BRANCH',
+        terminal: { type: 'vscode-new' },
+        variables: [{ key: 'BRANCH', type: 'options', label: 'Branch', value: 'main\ndevelop' }]
+      };
+
+      await executor.executeCommand(command);
+      await executor.executeCommand(command);
+
+      assert.strictEqual(prefilled[1], 'feature/login');
+      assert.strictEqual(executedCommand, 'git checkout feature/login');
+    } finally {
+      vscode.window.showInputBox = originalInputBox;
+    }
+  });
+
+  test('asks for a secret once and keeps it out of the configuration and preview', async () => {
+    const config = configManager.getConfig();
+    config.sharedVariables = [{ key: 'TOKEN', label: 'Token', value: '', secret: true }];
+    await configManager.saveConfig(config);
+
+    const originalInputBox = vscode.window.showInputBox;
+    let prompts = 0;
+    vscode.window.showInputBox = async (options) => {
+      prompts += 1;
+      assert.strictEqual(options.password, true);
+      return 's3cr3t';
+    };
+
+    const command = {
+      id: 'secret-test',
+      label: 'Secret',
+      command: 'deploy --token $TOKEN',
+      terminal: { type: 'vscode-new' }
+    };
+
+    try {
+      const first = await executor.executeCommand(command);
+      const second = await executor.executeCommand(command);
+
+      assert.strictEqual(first.success, true, first.error);
+      assert.strictEqual(second.success, true, second.error);
+      assert.strictEqual(prompts, 1, 'stored secret should not be asked for again');
+      assert.strictEqual(executedCommand, 'deploy --token s3cr3t');
+      assert.ok(!JSON.stringify(configManager.getConfig()).includes('s3cr3t'));
+      assert.ok(!(await executor.previewCommand(command)).includes('s3cr3t'));
+    } finally {
+      vscode.window.showInputBox = originalInputBox;
+      await SecretVariableStore.getInstance().delete('TOKEN');
+    }
+  });
+
+  test('keeps secrets declared on a command apart from other commands', async () => {
+    const originalInputBox = vscode.window.showInputBox;
+    const answers = ['staging-token', 'prod-token'];
+    vscode.window.showInputBox = async () => answers.shift();
+
+    const commandWithSecret = (id) => ({
+      id,
+      label: id,
+      command: 'deploy --token $TOKEN',
+      terminal: { type: 'vscode-new' },
+      variables: [{ key: 'TOKEN', type: 'secret', label: 'Token' }]
+    });
+
+    try {
+      await executor.executeCommand(commandWithSecret('deploy-staging'));
+      await executor.executeCommand(commandWithSecret('deploy-prod'));
+      assert.strictEqual(executedCommand, 'deploy --token prod-token');
+
+      await executor.executeCommand(commandWithSecret('deploy-staging'));
+      assert.strictEqual(executedCommand, 'deploy --token staging-token');
+      assert.strictEqual(await SecretVariableStore.getInstance().has('TOKEN'), false);
+    } finally {
+      vscode.window.showInputBox = originalInputBox;
+      await SecretVariableStore.getInstance().delete('TOKEN', 'deploy-staging');
+      await SecretVariableStore.getInstance().delete('TOKEN', 'deploy-prod');
+    }
+  });
+
+  test('skips unattended runs that would prompt or ask for confirmation', async () => {
+    originalQuickPick = vscode.window.showQuickPick;
+    const originalWarning = vscode.window.showWarningMessage;
+    let prompts = 0;
+    vscode.window.showQuickPick = async () => { prompts += 1; return undefined; };
+    vscode.window.showWarningMessage = async () => { prompts += 1; return 'Run'; };
+
+    try {
+      const picked = await executor.executeCommand({
+        id: 'unattended-pick',
+        label: 'Pick target',
+        command: 'deploy $TARGET',
+        terminal: { type: 'vscode-new' },
+        variables: [{ key: 'TARGET', type: 'options', label: 'Target' }]
+      }, { unattended: true });
+      const confirmed = await executor.executeCommand({
+        id: 'unattended-confirm',
+        label: 'Confirm first',
+        command: 'echo hi',
+        confirm: 'modal',
+        terminal: { type: 'vscode-new' }
+      }, { unattended: true });
+
+      assert.strictEqual(picked.skipped, true);
+      assert.ok(/TARGET/.test(picked.error), picked.error);
+      assert.strictEqual(confirmed.skipped, true);
+      assert.ok(/confirm/i.test(confirmed.error), confirmed.error);
+      assert.strictEqual(prompts, 0);
+      assert.strictEqual(executedCommand, '');
+    } finally {
+      vscode.window.showWarningMessage = originalWarning;
+    }
+  });
+
+  suite('command chains', () => {
+    const terminal = { type: 'vscode-new' };
+    let executed;
+
+    async function saveCommands(commands) {
+      const config = configManager.getConfig();
+      config.folders[0].commands = commands;
+      await configManager.saveConfig(config);
+    }
+
+    setup(() => {
+      executed = [];
+      terminalManager.setRunner(async (command) => {
+        executed.push(command);
+        if (command.startsWith('fail')) {
+          return { success: false, exitCode: 1, error: 'Command exited with code 1' };
+        }
+        return { success: true, exitCode: 0 };
+      });
+    });
+
+    test('runs steps in order with the variables picked for the parent', async () => {
+      originalQuickPick = vscode.window.showQuickPick;
+      let prompts = 0;
+      vscode.window.showQuickPick = async () => {
+        prompts += 1;
+        return 'staging';
+      };
+
+      await saveCommands([
+        { id: 'build', label: 'Build', command: 'build $TARGET', terminal },
+        { id: 'deploy', label: 'Deploy', command: 'deploy $TARGET', terminal }
+      ]);
+
+      const result = await executor.executeCommand({
+        id: 'release',
+        label: 'Release',
+        command: 'notify $TARGET',
+        terminal,
+        chain: { steps: ['build', 'deploy'] }
+      });
+
+      assert.strictEqual(result.success, true, result.error);
+      assert.strictEqual(prompts, 1, 'shared variable should only be prompted once');
+      assert.deepStrictEqual(executed, ['build staging', 'deploy staging', 'notify staging']);
+    });
+
+    test('asks once for a confirmed chain and not again for its steps', async () => {
+      const originalWarning = vscode.window.showWarningMessage;
+      let confirmations = 0;
+      vscode.window.showWarningMessage = async () => {
+        confirmations += 1;
+        return 'Run';
+      };
+
+      try {
+        await saveCommands([
+          { id: 'migrate', label: 'Migrate', command: 'migrate db', terminal, confirm: 'modal' },
+          { id: 'restart', label: 'Restart', command: 'restart app', terminal, confirm: 'modal' }
+        ]);
+
+        const result = await executor.executeCommand({
+          id: 'release-confirmed',
+          label: 'Release',
+          command: '',
+          terminal,
+          confirm: 'modal',
+          chain: { steps: ['migrate', 'restart'] }
+        });
+
+        assert.strictEqual(result.success, true, result.error);
+        assert.strictEqual(confirmations, 1);
+        assert.deepStrictEqual(executed, ['migrate db', 'restart app']);
+      } finally {
+        vscode.window.showWarningMessage = originalWarning;
+      }
+    });
+
+    test('stops after a failing step unless configured to continue', async () => {
+      await saveCommands([
+        { id: 'broken', label: 'Broken', command: 'fail now', terminal },
+        { id: 'after', label: 'After', command: 'echo after', terminal }
+      ]);
+
+      const stopped = await executor.executeCommand({
+        id: 'stop-chain',
+        label: 'Stop chain',
+        command: '',
+        terminal,
+        chain: { steps: ['broken', 'after'], onFailure: 'stop' }
+      });
+
+      assert.strictEqual(stopped.success, false);
+      assert.deepStrictEqual(executed, ['fail now']);
+
+      executed = [];
+      const continued = await executor.executeCommand({
+        id: 'continue-chain',
+        label: 'Continue chain',
+        command: '',
+        terminal,
+        chain: { steps: ['broken', 'after'], onFailure: 'continue' }
+      });
+
+      assert.strictEqual(continued.success, false, 'a failed step still fails the chain');
+      assert.deepStrictEqual(executed, ['fail now', 'echo after']);
+    });
+
+    test('refuses to run chains that reference themselves', async () => {
+      await saveCommands([
+        { id: 'loop-a', label: 'Loop A', command: '', terminal, chain: { steps: ['loop-b'] } },
+        { id: 'loop-b', label: 'Loop B', command: '', terminal, chain: { steps: ['loop-a'] } }
+      ]);
+
+      const originalShowError = vscode.window.showErrorMessage;
+      vscode.window.showErrorMessage = async () => undefined;
+      try {
+        const result = await executor.executeCommand({
+          id: 'loop-a',
+          label: 'Loop A',
+          command: '',
+          terminal,
+          chain: { steps: ['loop-b'] }
+        });
+
+        assert.strictEqual(result.success, false);
+        assert.ok(/cycle/i.test(result.error), result.error);
+        assert.deepStrictEqual(executed, []);
+      } finally {
+        vscode.window.showErrorMessage = originalShowError;
+      }
+    });
+  });
 });
@@ -0,0 +1,62 @@
+const assert = require('assert');
+
+const {
+  folderHasMatch,
+  groupByTag,
+  locateCommands,
+  matchesCommandFilter,
+  normalizeTags,
+  parseCommandFilter
+} = require('../../apps/tasks/treeView/commandFilter');
+
+const command = (id, extra = {}) => ({ id, label: id, command: `echo ${id}`, terminal: { type: 'vscode-new' }, ...extra });
+
+const folders = [
+  {
+    name: 'Build',
+    commands: [command('build', { tags: ['ci', 'Release'] }), command('clean', { description: 'Remove dist' })],
+    subfolders: [{ name: 'Docker', commands: [command('image', { tags: ['ci'], favorite: true })] }]
+  },
+  { name: 'Serve', commands: [command('dev')] }
+];
+
+suite('Command filter', () => {
+  test('matches words against label, command text, description and tags', () => {
+    assert.ok(matchesCommandFilter(folders[0].commands[1], parseCommandFilter('dist')));
+    assert.ok(matchesCommandFilter(folders[0].commands[0], parseCommandFilter('RELEASE echo')));
+    assert.ok(!matchesCommandFilter(folders[0].commands[0], parseCommandFilter('build dist')));
+  });
+
+  test('#tag, tag: and is:favorite narrow the filter down', () => {
+    assert.deepStrictEqual(parseCommandFilter('  #CI tag:release is:favorite deploy '), {
+      terms: ['deploy'],
+      tags: ['ci', 'release'],
+      favoritesOnly: true
+    });
+
+    const image = folders[0].subfolders[0].commands[0];
+    assert.ok(matchesCommandFilter(image, parseCommandFilter('#ci is:favorite')));
+    assert.ok(!matchesCommandFilter(folders[0].commands[0], parseCommandFilter('#ci is:favorite')));
+    assert.ok(!matchesCommandFilter(image, parseCommandFilter('#release')));
+  });
+
+  test('keeps folders whose subfolders hold a match', () => {
+    const filter = parseCommandFilter('is:favorite');
+    assert.deepStrictEqual(folders.map(folder => folderHasMatch(folder, filter)), [true, false]);
+  });
+
+  test('groups commands by tag with the paths they are stored at', () => {
+    const groups = groupByTag(locateCommands(folders));
+
+    assert.deepStrictEqual(groups.map(group => [group.tag, group.commands.map(entry => entry.command.id)]), [
+      ['ci', ['build', 'image']],
+      ['Release', ['build']],
+      ['Untagged', ['clean', 'dev']]
+    ]);
+    assert.deepStrictEqual(groups[0].commands.map(entry => [entry.folderPath, entry.index]), [[[0], 0], [[0, 0], 0]]);
+  });
+
+  test('normalizes tags typed as a list', () => {
+    assert.deepStrictEqual(normalizeTags(' build, #ci,, Build , deploy'), ['build', 'ci', 'deploy']);
+  });
+});
@@ -0,0 +1,99 @@
+const assert = require('assert');
+const vscode = require('vscode');
+
+const { CommandExecutor } = require('../../apps/tasks/execution/CommandExecutor');
+const { CommandHistoryManager } = require('../../apps/history/CommandHistoryManager');
+const { TerminalManager } = require('../../src/execution/TerminalManager');
+const { ConfigManager } = require('../../src/config/ConfigManager');
+
+suite('Command history', () => {
+  const executor = CommandExecutor.getInstance();
+  const historyManager = CommandHistoryManager.getInstance();
+  const terminalManager = TerminalManager.getInstance();
+  const configManager = ConfigManager.getInstance();
+
+  let originalQuickPick;
+  let executedCommand;
+
+  suiteSetup(async () => {
+    const extension = vscode.extensions.getExtension('your-name.command-manager');
+    if (extension && !extension.isActive) {
+      await extension.activate();
+    }
+  });
+
+  setup(async () => {
+    executedCommand = '';
+    terminalManager.setRunner(async (command) => {
+      executedCommand = command;
+      return { success: true, exitCode: 0, output: `ran ${command}\n` };
+    });
+
+    const config = configManager.getConfig();
+    config.sharedLists = [
+      { key: 'ENVIRONMENT_NAME', label: 'Environment', options: ['dev', 'prod'] }
+    ];
+    await configManager.saveConfig(config);
+    await historyManager.clear();
+  });
+
+  teardown(() => {
+    terminalManager.setRunner(undefined);
+    if (originalQuickPick) {
+      vscode.window.showQuickPick = originalQuickPick;
+      originalQuickPick = undefined;
+    }
+  });
+
+  test('records the resolved command, variables and exit code', async () => {
+    originalQuickPick = vscode.window.showQuickPick;
+    vscode.window.showQuickPick = async () => 'prod';
+
+    await executor.executeCommand({
+      id: 'deploy',
+      label: 'Deploy',
+      command: 'deploy $ENVIRONMENT_NAME',
+      terminal: { type: 'vscode-new' }
+    });
+
+    const [entry] = historyManager.getEntries();
+    assert.ok(entry, 'A history entry should be recorded');
+    assert.strictEqual(entry.commandId, 'deploy');
+    assert.strictEqual(entry.command, 'deploy prod');
+    assert.deepStrictEqual(entry.variables, [{ key: 'ENVIRONMENT_NAME', value: 'prod' }]);
+    assert.strictEqual(entry.exitCode, 0);
+    assert.strictEqual(entry.output, 'ran deploy prod\n');
+  });
+
+  test('re-runs with preset variables without prompting', async () => {
+    originalQuickPick = vscode.window.showQuickPick;
+    vscode.window.showQuickPick = async () => {
+      throw new Error('Preset variables should not prompt');
+    };
+
+    const result = await executor.executeCommand({
+      id: 'deploy',
+      label: 'Deploy',
+      command: 'deploy $ENVIRONMENT_NAME',
+      terminal: { type: 'vscode-new' }
+    }, { presetVariables: [{ key: 'ENVIRONMENT_NAME', value: 'dev' }] });
+
+    assert.strictEqual(result.success, true, result.error);
+    assert.strictEqual(executedCommand, 'deploy dev');
+    assert.strictEqual(historyManager.getEntries().length, 1);
+  });
+
+  test('does not record runs cancelled before execution', async () => {
+    originalQuickPick = vscode.window.showQuickPick;
+    vscode.window.showQuickPick = async () => undefined;
+
+    await executor.executeCommand({
+      id: 'deploy',
+      label: 'Deploy',
+      command: 'deploy $ENVIRONMENT_NAME',
+      terminal: { type: 'vscode-new' }
+    });
+
+    assert.strictEqual(historyManager.getEntries().length, 0);
+  });
+});
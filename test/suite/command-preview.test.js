@@ -0,0 +1,71 @@
+const assert = require('assert');
+
+const { describePlaceholder, splitPreviewText } = require('../../src/variables/commandPreview');
+
+const config = {
+  sharedVariables: [
+    { key: 'REGION', label: 'Region', value: 'eu-west-1' },
+    { key: 'TOKEN', label: 'API token', value: '', secret: true },
+    { key: 'EMPTY', label: 'Empty', value: '' }
+  ],
+  sharedLists: [{ key: 'ENV', label: 'Environment', options: ['dev', 'prod'] }]
+};
+
+const command = (variables = []) => ({
+  id: 'deploy',
+  label: 'Deploy',
+  command: 'deploy',
+  terminal: { type: 'vscode-new' },
+  variables
+});
+
+suite('Command preview', () => {
+  test('reports where each value comes from', () => {
+    assert.deepStrictEqual(describePlaceholder('REGION', command(), config), {
+      key: 'REGION', label: 'Region', source: 'sharedVariable', state: 'resolved', value: 'eu-west-1'
+    });
+    assert.deepStrictEqual(describePlaceholder('ENV', command(), config), {
+      key: 'ENV', label: 'Environment', source: 'sharedList', state: 'prompt'
+    });
+    assert.deepStrictEqual(describePlaceholder('TOKEN', command(), config), {
+      key: 'TOKEN', label: 'API token', source: 'sharedVariable', state: 'secret'
+    });
+    assert.deepStrictEqual(describePlaceholder('input', command(), config), {
+      key: 'input', label: 'Manual input', source: 'input', state: 'prompt'
+    });
+  });
+
+  test('command variables win over shared ones', () => {
+    const overriding = command([
+      { key: 'REGION', value: 'us-east-1', type: 'fixed' },
+      { key: 'ENV', value: 'dev\nstaging', type: 'options', label: 'Stage' }
+    ]);
+    assert.deepStrictEqual(describePlaceholder('REGION', overriding, config), {
+      key: 'REGION', label: 'Region', source: 'command', state: 'resolved', value: 'us-east-1'
+    });
+    assert.strictEqual(describePlaceholder('ENV', overriding, config).source, 'command');
+
+    // Without its own value a fixed command variable falls back to the shared one
+    const fallback = command([{ key: 'REGION', value: '', type: 'fixed' }]);
+    assert.deepStrictEqual(describePlaceholder('REGION', fallback, config), {
+      key: 'REGION', label: 'Region', source: 'sharedVariable', state: 'resolved', value: 'eu-west-1'
+    });
+  });
+
+  test('flags values nothing defines as missing', () => {
+    assert.deepStrictEqual(describePlaceholder('UNKNOWN', command(), config), { key: 'UNKNOWN', label: 'UNKNOWN', state: 'missing' });
+    assert.strictEqual(describePlaceholder('EMPTY', command(), config).state, 'missing');
+    assert.strictEqual(describePlaceholder('PORT', command([{ key: 'PORT', value: '', type: 'fixed' }]), config).state, 'missing');
+  });
+
+  test('splits the text around unresolved placeholders', () => {
+    assert.deepStrictEqual(splitPreviewText('deploy --env ${ENV} --to $ENVIRONMENT -t $input:helptext="Tag"', ['ENV', 'input']), [
+      { text: 'deploy --env ' },
+      { text: '${ENV}', placeholder: 'ENV' },
+      { text: ' --to $ENVIRONMENT -t ' },
+      { text: '$input:helptext="Tag"', placeholder: 'input' }
+    ]);
+    assert.deepStrictEqual(splitPreviewText('echo ${file}', ['file']), [{ text: 'echo ' }, { text: '${file}', placeholder: 'file' }]);
+    assert.deepStrictEqual(splitPreviewText('echo hi', []), [{ text: 'echo hi' }]);
+  });
+});
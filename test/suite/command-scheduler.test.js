@@ -0,0 +1,152 @@
+const assert = require('assert');
+
+const { CommandScheduler, countMissedRuns, getNextRun, nextCronTime, parseCron } = require('../../src/execution/scheduler');
+const { validateConfig } = require('../../src/config/schema');
+
+const MINUTE = 60 * 1000;
+
+// Local times, so the cron expectations hold in any time zone
+const at = (month, day, hour, minute = 0) => new Date(2026, month - 1, day, hour, minute).getTime();
+
+class FakeClock {
+  constructor(time) {
+    this.time = time;
+    this.timers = new Map();
+    this.nextId = 1;
+  }
+
+  now() {
+    return this.time;
+  }
+
+  setTimeout(callback, delay) {
+    const id = this.nextId++;
+    this.timers.set(id, { callback, due: this.time + delay });
+    return id;
+  }
+
+  clearTimeout(id) {
+    this.timers.delete(id);
+  }
+
+  advance(ms) {
+    const end = this.time + ms;
+    for (;;) {
+      const due = [...this.timers].filter(([, timer]) => timer.due <= end).sort((a, b) => a[1].due - b[1].due)[0];
+      if (!due) {
+        break;
+      }
+      this.timers.delete(due[0]);
+      this.time = due[1].due;
+      due[1].callback();
+    }
+    this.time = end;
+  }
+}
+
+const command = (id, schedule) => ({ id, label: id, command: `echo ${id}`, terminal: { type: 'vscode-new' }, schedule });
+
+suite('Command scheduler', () => {
+  test('finds the next time a cron expression matches', () => {
+    const weekdayMornings = parseCron('30 9 * * mon-fri');
+    // 6 March 2026 is a Friday
+    assert.strictEqual(nextCronTime(weekdayMornings, at(3, 6, 8)), at(3, 6, 9, 30));
+    assert.strictEqual(nextCronTime(weekdayMornings, at(3, 6, 9, 30)), at(3, 9, 9, 30));
+    assert.strictEqual(nextCronTime(parseCron('*/15 * * * *'), at(3, 6, 8, 7)), at(3, 6, 8, 15));
+    assert.strictEqual(nextCronTime(parseCron('@monthly'), at(3, 6, 8)), at(4, 1, 0));
+    // Day of month and day of week together match either
+    assert.strictEqual(nextCronTime(parseCron('0 0 13 * 5'), at(3, 1, 12)), at(3, 6, 0));
+  });
+
+  test('rejects invalid cron expressions with a reason', () => {
+    assert.throws(() => parseCron('* * * *'), /five fields/);
+    assert.throws(() => parseCron('61 * * * *'), /not a valid minute/);
+    assert.throws(() => parseCron('0 9 * * 2-1'), /empty range/);
+    assert.throws(() => parseCron('*/0 * * * *'), /invalid step/);
+  });
+
+  test('intervals keep their rhythm from the last run', () => {
+    const schedule = { intervalMinutes: 30 };
+    assert.strictEqual(getNextRun(schedule, at(3, 6, 9)), at(3, 6, 9, 30));
+    assert.strictEqual(getNextRun(schedule, at(3, 6, 9), at(3, 6, 7, 10)), at(3, 6, 9, 10));
+  });
+
+  test('fires commands when they fall due and reports the next run', () => {
+    const clock = new FakeClock(at(3, 6, 8, 59));
+    const runs = [];
+    const scheduler = new CommandScheduler(clock, { run: cmd => runs.push([cmd.id, clock.now()]) });
+    scheduler.setCommands([command('report', { cron: '0 9 * * *' }), command('sync', { intervalMinutes: 5 }), command('plain')]);
+
+    assert.strictEqual(scheduler.getNextRun('report'), at(3, 6, 9));
+    assert.strictEqual(scheduler.getNextRun('plain'), undefined);
+
+    clock.advance(11 * MINUTE);
+    assert.deepStrictEqual(runs, [
+      ['report', at(3, 6, 9)],
+      ['sync', at(3, 6, 9, 4)],
+      ['sync', at(3, 6, 9, 9)]
+    ]);
+    assert.strictEqual(scheduler.getNextRun('report'), at(3, 7, 9));
+    assert.strictEqual(scheduler.getNextRun('sync'), at(3, 6, 9, 14));
+    scheduler.dispose();
+  });
+
+  test('skips what falls due while paused instead of catching up', () => {
+    const clock = new FakeClock(at(3, 6, 9));
+    const runs = [];
+    const scheduler = new CommandScheduler(clock, { run: cmd => runs.push(clock.now()) });
+    scheduler.setCommands([command('sync', { intervalMinutes: 10 })]);
+
+    scheduler.setPaused(true);
+    assert.strictEqual(scheduler.getNextRun('sync'), undefined);
+    clock.advance(60 * MINUTE);
+    assert.deepStrictEqual(runs, []);
+
+    scheduler.setPaused(false);
+    assert.strictEqual(scheduler.getNextRun('sync'), at(3, 6, 10, 10));
+    clock.advance(10 * MINUTE);
+    assert.deepStrictEqual(runs, [at(3, 6, 10, 10)]);
+  });
+
+  test('runs workspace-open commands once, unless paused', () => {
+    const clock = new FakeClock(at(3, 6, 9));
+    const runs = [];
+    const commands = [command('install', { onWorkspaceOpen: true }), command('report', { cron: '@daily' })];
+    const scheduler = new CommandScheduler(clock, { run: cmd => runs.push(cmd.id) });
+    scheduler.runStartupCommands(commands);
+    assert.deepStrictEqual(runs, ['install']);
+    assert.deepStrictEqual(scheduler.getLastRuns(), { install: at(3, 6, 9) });
+
+    const paused = new CommandScheduler(clock, { run: cmd => runs.push(cmd.id) });
+    paused.setPaused(true);
+    paused.runStartupCommands(commands);
+    assert.deepStrictEqual(runs, ['install']);
+  });
+
+  test('counts runs missed while closed, after the last run', () => {
+    assert.strictEqual(countMissedRuns({ cron: '0 9 * * *' }, at(3, 1, 18), at(3, 4, 12)), 3);
+    assert.strictEqual(countMissedRuns({ intervalMinutes: 60 }, at(3, 6, 8), at(3, 6, 12), at(3, 6, 8, 30)), 3);
+    assert.strictEqual(countMissedRuns({ intervalMinutes: 1 }, at(3, 1, 0), at(3, 6, 0), undefined, 100), 100);
+    assert.strictEqual(countMissedRuns({ onWorkspaceOpen: true }, at(3, 1, 0), at(3, 6, 0)), 0);
+  });
+
+  test('validateConfig checks schedules', () => {
+    const config = {
+      folders: [{
+        name: 'Ops',
+        commands: [
+          command('a', { cron: '0 25 * * *' }),
+          command('b', { cron: '@daily', intervalMinutes: 5 }),
+          command('c', { intervalMinutes: 0 }),
+          command('d', { onWorkspaceOpen: true })
+        ]
+      }]
+    };
+    assert.deepStrictEqual(validateConfig(config, 'linux').errors, [
+      'Command 0 in folder 0 schedule cron "25" is not a valid hour',
+      'Command 1 in folder 0 schedule must set either cron or intervalMinutes, not both',
+      'Command 2 in folder 0 schedule must set cron, intervalMinutes or onWorkspaceOpen',
+      'Command 2 in folder 0 schedule intervalMinutes must be a positive number'
+    ]);
+  });
+});
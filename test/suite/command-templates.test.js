@@ -0,0 +1,96 @@
+const assert = require('assert');
+
+const { applyTemplate, collapseTemplates, createCommandFromTemplate, createTemplateFromCommand, expandTemplates } = require('../../src/config/templates');
+const { validateConfig } = require('../../src/config/schema');
+
+const deployTemplate = {
+  id: 'deploy',
+  label: 'Deploy service',
+  command: 'deploy $service --env $env',
+  terminal: { type: 'vscode-new', name: 'Deploy' },
+  variables: [
+    { key: 'service', label: 'Service', type: 'fixed', value: 'api' },
+    { key: 'env', label: 'Environment', type: 'options', value: 'staging\nproduction' }
+  ],
+  icon: '$(rocket)'
+};
+
+function configWith(commands, templates = [deployTemplate]) {
+  return { templates, folders: [{ name: 'Deploy', commands }] };
+}
+
+suite('Command templates', () => {
+  test('commands inherit what they leave out and override variables by key', () => {
+    const command = applyTemplate({
+      id: 'deploy-web',
+      label: 'Deploy web',
+      template: 'deploy',
+      variables: [{ key: 'service', label: 'Service', type: 'fixed', value: 'web' }]
+    }, deployTemplate);
+
+    assert.strictEqual(command.command, 'deploy $service --env $env');
+    assert.deepStrictEqual(command.terminal, { type: 'vscode-new', name: 'Deploy' });
+    assert.deepStrictEqual(command.variables.map(variable => [variable.key, variable.value]), [['service', 'web'], ['env', 'staging\nproduction']]);
+    assert.deepStrictEqual(command.inherited, ['command', 'terminal', 'icon', 'variables.env']);
+  });
+
+  test('saving keeps only the overrides, so template changes reach every command', () => {
+    const expanded = expandTemplates(configWith([
+      { id: 'deploy-web', label: 'Deploy web', template: 'deploy', terminal: { type: 'background' } }
+    ]));
+    const stored = collapseTemplates(expanded);
+
+    assert.deepStrictEqual(stored.folders[0].commands[0], {
+      id: 'deploy-web',
+      label: 'Deploy web',
+      template: 'deploy',
+      terminal: { type: 'background' }
+    });
+
+    const changed = expandTemplates({ ...stored, templates: [{ ...deployTemplate, command: 'deploy $service to $env' }] });
+    assert.strictEqual(changed.folders[0].commands[0].command, 'deploy $service to $env');
+    assert.deepStrictEqual(changed.folders[0].commands[0].terminal, { type: 'background' });
+  });
+
+  test('re-applying a changed template replaces inherited values only', () => {
+    const first = applyTemplate({ id: 'a', label: 'A', template: 'deploy', description: 'Mine' }, deployTemplate);
+    const again = applyTemplate(first, { ...deployTemplate, icon: '$(cloud-upload)', description: 'Theirs' });
+
+    assert.strictEqual(again.icon, '$(cloud-upload)');
+    assert.strictEqual(again.description, 'Mine');
+  });
+
+  test('turns a command into a template and its first instance', () => {
+    const source = { id: 'deploy-api', label: 'Deploy API', command: 'deploy api', terminal: { type: 'vscode-current' }, keybinding: 'ctrl+alt+d' };
+    const { template, command } = createTemplateFromCommand(source, 'deploy-api-template', 'Deploy API');
+
+    assert.deepStrictEqual(template, { id: 'deploy-api-template', label: 'Deploy API', command: 'deploy api', terminal: { type: 'vscode-current' } });
+    assert.strictEqual(command.template, 'deploy-api-template');
+    assert.strictEqual(command.keybinding, 'ctrl+alt+d');
+    assert.deepStrictEqual(collapseTemplates(configWith([command], [template])).folders[0].commands[0], {
+      id: 'deploy-api', label: 'Deploy API', keybinding: 'ctrl+alt+d', template: 'deploy-api-template'
+    });
+  });
+
+  test('creates a new command that inherits everything from the template', () => {
+    const command = createCommandFromTemplate(deployTemplate, 'deploy-1');
+
+    assert.strictEqual(command.label, 'Deploy service');
+    assert.strictEqual(command.command, 'deploy $service --env $env');
+    assert.deepStrictEqual(command.inherited, ['command', 'terminal', 'icon', 'variables.service', 'variables.env']);
+    assert.deepStrictEqual(collapseTemplates(configWith([command])).folders[0].commands[0], {
+      id: 'deploy-1', label: 'Deploy service', template: 'deploy'
+    });
+  });
+
+  test('validateConfig checks template references and the fields commands inherit', () => {
+    assert.deepStrictEqual(validateConfig(configWith([{ id: 'deploy-web', label: 'Deploy web', template: 'deploy' }]), 'linux').errors, []);
+
+    const missing = validateConfig(configWith([{ id: 'deploy-web', label: 'Deploy web', template: 'ship' }]), 'linux');
+    assert.ok(missing.errors.includes('Command 0 in folder 0 references unknown template "ship"'));
+    assert.ok(missing.errors.includes('Command 0 in folder 0 must have a command string'));
+
+    const duplicate = validateConfig(configWith([], [deployTemplate, { ...deployTemplate, terminal: undefined }]), 'linux');
+    assert.deepStrictEqual(duplicate.errors, ['Template 1 reuses the id "deploy"', 'Template 1 must have terminal settings']);
+  });
+});
@@ -0,0 +1,67 @@
+const assert = require('assert');
+const path = require('path');
+
+const { getConfigFileIssues, getConfigFileKind } = require('../../src/config/configDiagnostics');
+const { collectConfigIssues } = require('../../src/config/schema');
+
+function textAt(text, issue) {
+  return text.slice(issue.offset, issue.offset + issue.length);
+}
+
+suite('Config diagnostics', () => {
+  test('recognizes the commands and time tracker files', () => {
+    assert.strictEqual(getConfigFileKind(path.join('/repo', '.vscode', 'commands', 'commands.json')), 'commands');
+    assert.strictEqual(getConfigFileKind(path.join('/repo', '.vscode', 'commands.json')), 'commands');
+    assert.strictEqual(getConfigFileKind(path.join('/repo', '.vscode', 'commands', 'commands-timer.json')), 'timeTracker');
+    assert.strictEqual(getConfigFileKind(path.join('/repo', 'src', 'commands.json')), undefined);
+    assert.strictEqual(getConfigFileKind(path.join('/repo', '.vscode', 'tasks.json')), undefined);
+  });
+
+  test('issues carry the JSON path of the offending value', () => {
+    const issues = collectConfigIssues({
+      folders: [{ name: 'Build', commands: [{ id: 'a', label: 'A', command: 'make', terminal: { type: 'vscode-new' }, restart: { mode: 'sometimes' } }] }]
+    });
+    assert.deepStrictEqual(issues.map(issue => [issue.path, issue.severity]), [[['folders', 0, 'commands', 0, 'restart'], 'error']]);
+  });
+
+  test('points at the invalid value itself', () => {
+    const text = JSON.stringify({
+      folders: [{
+        name: 'Build',
+        commands: [{ id: 'serve', label: 'Serve', command: 'npm start', terminal: { type: 'background' }, readiness: { port: 99999 } }]
+      }]
+    }, null, 2);
+
+    const [issue] = getConfigFileIssues(text, 'commands', 'linux');
+    assert.strictEqual(issue.message, 'Command 0 in folder 0 readiness port must be a port number');
+    assert.strictEqual(textAt(text, issue), '"readiness"');
+  });
+
+  test('reports a missing property on the object that lacks it', () => {
+    const text = [
+      '{',
+      '  "folders": [',
+      '    { "name": "Build", "commands": [',
+      '      { "id": "ok", "label": "Fine", "command": "true", "terminal": { "type": "vscode-new" } },',
+      '      { "label": "No id", "command": "make", "terminal": { "type": "vscode-new" } }',
+      '    ] }',
+      '  ]',
+      '}'
+    ].join('\n');
+
+    const issues = getConfigFileIssues(text, 'commands', 'linux');
+    assert.strictEqual(issues.length, 1);
+    assert.strictEqual(issues[0].message, 'Command 1 in folder 0 must have an id');
+    assert.strictEqual(textAt(text, issues[0]), '"No id"');
+    assert.strictEqual(text.slice(0, issues[0].offset).split('\n').length, 5);
+  });
+
+  test('validates time tracker files and skips text that does not parse', () => {
+    const text = JSON.stringify({ folders: [{ name: 'Work', timers: [{ id: 't1', subtimers: [] }] }] }, null, 2);
+    const [issue] = getConfigFileIssues(text, 'timeTracker');
+    assert.strictEqual(issue.message, 'Timer at 0/timers/0 must have a label');
+    assert.strictEqual(textAt(text, issue), '"t1"');
+
+    assert.deepStrictEqual(getConfigFileIssues('{ "folders": [', 'commands'), []);
+  });
+});
@@ -0,0 +1,95 @@
+const assert = require('assert');
+
+const { describeLayer, getFolderLayerId, mergeLayers, splitLayers } = require('../../src/config/layers');
+
+const command = (id, label = id) => ({ id, label, command: `echo ${id}`, terminal: { type: 'vscode-new' } });
+
+const layer = (id, precedence, config) => ({
+  id,
+  kind: id.startsWith('folder:') ? 'folder' : id,
+  filePath: `/${id}/commands.json`,
+  precedence,
+  config: { sharedVariables: [], sharedLists: [], testRunners: [], pinnedCommands: [], ...config }
+});
+
+function sampleLayers() {
+  return [
+    layer('workspace', 2, {
+      version: 7,
+      folders: [{ name: 'Build', commands: [command('build', 'Build (workspace)')] }],
+      sharedVariables: [{ key: 'env', value: 'dev' }]
+    }),
+    layer('folder:packages/api', 3, {
+      folders: [{ name: 'API', commands: [command('api-start')] }]
+    }),
+    layer('team', 0, {
+      version: 2,
+      folders: [{ name: 'Team', commands: [command('lint'), command('build', 'Build (team)')] }],
+      sharedVariables: [{ key: 'env', value: 'prod' }, { key: 'registry', value: 'npm' }],
+      pinnedCommands: ['lint']
+    })
+  ];
+}
+
+suite('Config layers', () => {
+  test('keeps layer order, tags top-level folders and hides commands overridden by id', () => {
+    const { config, shadowed } = mergeLayers(sampleLayers(), 'workspace');
+
+    assert.deepStrictEqual(config.folders.map(folder => [folder.name, folder.layer]), [
+      ['Build', 'workspace'],
+      ['API', 'folder:packages/api'],
+      ['Team', 'team']
+    ]);
+    assert.deepStrictEqual(config.folders[2].commands.map(item => item.id), ['lint']);
+    assert.strictEqual(shadowed.length, 1);
+    assert.deepStrictEqual(
+      { layerId: shadowed[0].layerId, shadowedBy: shadowed[0].shadowedBy, folderNames: shadowed[0].folderNames, index: shadowed[0].index },
+      { layerId: 'team', shadowedBy: 'workspace', folderNames: ['Team'], index: 1 }
+    );
+    assert.strictEqual(config.version, 7);
+  });
+
+  test('shared entries are overridden by key by the layer with the highest precedence', () => {
+    const { config } = mergeLayers(sampleLayers(), 'workspace');
+
+    assert.deepStrictEqual(config.sharedVariables, [{ key: 'env', value: 'dev' }, { key: 'registry', value: 'npm' }]);
+    assert.deepStrictEqual(config.pinnedCommands, ['lint']);
+  });
+
+  test('splitting an edited config writes each folder back to its layer', () => {
+    const merged = mergeLayers(sampleLayers(), 'workspace');
+    const edited = JSON.parse(JSON.stringify(merged.config));
+    edited.folders[2].commands[0].label = 'Lint everything';
+    edited.folders.push({ name: 'New', commands: [command('fresh')] });
+    edited.sharedVariables.push({ key: 'added', value: '1' });
+
+    const parts = splitLayers(edited, ['workspace', 'folder:packages/api', 'team'], 'workspace', merged);
+
+    const team = parts.get('team');
+    assert.deepStrictEqual(team.folders[0].commands.map(item => [item.id, item.label]), [['lint', 'Lint everything'], ['build', 'Build (team)']]);
+    assert.strictEqual(team.folders[0].layer, undefined);
+    assert.deepStrictEqual(team.sharedVariables.map(variable => variable.key), ['registry']);
+    assert.deepStrictEqual(team.pinnedCommands, ['lint']);
+
+    const workspace = parts.get('workspace');
+    assert.deepStrictEqual(workspace.folders.map(folder => folder.name), ['Build', 'New']);
+    assert.deepStrictEqual(workspace.sharedVariables.map(variable => variable.key), ['env', 'added']);
+
+    assert.deepStrictEqual(parts.get('folder:packages/api').folders.map(folder => folder.name), ['API']);
+  });
+
+  test('shadowed commands are dropped when their folder was deleted', () => {
+    const merged = mergeLayers(sampleLayers(), 'workspace');
+    const edited = { ...merged.config, folders: merged.config.folders.filter(folder => folder.layer !== 'team') };
+
+    const parts = splitLayers(edited, ['workspace', 'folder:packages/api', 'team'], 'workspace', merged);
+
+    assert.deepStrictEqual(parts.get('team').folders, []);
+  });
+
+  test('names layers for display', () => {
+    assert.strictEqual(getFolderLayerId('packages\\api'), 'folder:packages/api');
+    assert.strictEqual(describeLayer('folder:packages/api'), 'packages/api');
+    assert.strictEqual(describeLayer('team'), 'team');
+  });
+});
@@ -105,5 +105,60 @@ suite('ConfigManager filesystem layout', () => {
     const migratedTimerConfig = JSON.parse(fs.readFileSync(migratedTimer, 'utf8'));
     assert.deepStrictEqual(migratedTimerConfig.folders, legacyTimer.folders, 'migrated timer config should preserve folders');
   });
+
+  test('old schema files are upgraded with a backup that can be rolled back', async function () {
+    if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+      this.skip();
+      return;
+    }
+
+    tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'config-manager-schema-'));
+    const commandsDir = path.join(tempRoot, 'commands');
+    fs.mkdirSync(commandsDir);
+    const commandsFile = path.join(commandsDir, 'commands.json');
+    const original = JSON.stringify({ folders: [], version: 4 }, null, 2);
+    fs.writeFileSync(commandsFile, original);
+
+    const manager = await initializeWithTempRoot();
+
+    const upgraded = JSON.parse(fs.readFileSync(commandsFile, 'utf8'));
+    assert.strictEqual(upgraded.schemaVersion, 1);
+    assert.strictEqual(upgraded.version, 4, 'the save counter is not a schema version');
+    assert.deepStrictEqual(upgraded.pinnedCommands, []);
+    assert.strictEqual(fs.readFileSync(path.join(commandsDir, 'commands-pre-migration.json'), 'utf8'), original);
+
+    const backups = manager.getMigrationBackups();
+    assert.ok(backups.some(backup => backup.filePath === commandsFile));
+
+    await manager.rollbackMigrations(backups.filter(backup => backup.filePath === commandsFile));
+    assert.strictEqual(fs.readFileSync(commandsFile, 'utf8'), original);
+    assert.ok(!fs.existsSync(path.join(commandsDir, 'commands-pre-migration.json')));
+    manager.dispose();
+  });
+
+  test('an old schema team file is upgraded in memory but left untouched on disk', async function () {
+    if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+      this.skip();
+      return;
+    }
+
+    tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'config-manager-team-'));
+    const teamFile = path.join(tempRoot, 'team-commands.json');
+    const original = JSON.stringify({ folders: [{ name: 'Team', commands: [] }], version: 4 }, null, 2);
+    fs.writeFileSync(teamFile, original);
+
+    const settings = vscode.workspace.getConfiguration('commands-manager-next.tasks');
+    await settings.update('layers.teamPath', teamFile, vscode.ConfigurationTarget.Global);
+    try {
+      const manager = await initializeWithTempRoot();
+
+      assert.ok(manager.getConfig().folders.some(folder => folder.name === 'Team'));
+      assert.strictEqual(fs.readFileSync(teamFile, 'utf8'), original);
+      assert.ok(!fs.existsSync(path.join(tempRoot, 'team-commands-pre-migration.json')));
+      manager.dispose();
+    } finally {
+      await settings.update('layers.teamPath', undefined, vscode.ConfigurationTarget.Global);
+    }
+  });
 });
 
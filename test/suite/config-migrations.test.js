@@ -0,0 +1,107 @@
+const assert = require('assert');
+const path = require('path');
+
+const {
+  CONFIG_MIGRATIONS,
+  CURRENT_CONFIG_SCHEMA_VERSION,
+  CURRENT_TIME_TRACKER_SCHEMA_VERSION,
+  TIME_TRACKER_MIGRATIONS,
+  formatMigrationReport,
+  getMigrationBackupPath,
+  getSchemaVersion,
+  migrateDocument
+} = require('../../src/config/migrations');
+
+suite('Config migrations', () => {
+  test('files without a schema version count as version 0, whatever their save counter', () => {
+    assert.strictEqual(getSchemaVersion({ folders: [], version: 12 }), 0);
+    assert.strictEqual(getSchemaVersion({ schemaVersion: 1 }), 1);
+    assert.strictEqual(getSchemaVersion({ schemaVersion: 'x' }), 0);
+  });
+
+  test('config step 0 drops the embedded time tracker and adds missing lists', () => {
+    const document = { folders: [], testRunners: [], timeTracker: { folders: [] } };
+    const changes = CONFIG_MIGRATIONS.find(step => step.from === 0).migrate(document);
+
+    assert.strictEqual(document.timeTracker, undefined);
+    assert.deepStrictEqual(document.pinnedCommands, []);
+    assert.deepStrictEqual(document.testRunners, []);
+    assert.deepStrictEqual(changes, ['Moved the embedded timeTracker section to commands-timer.json', 'Added an empty pinnedCommands list']);
+  });
+
+  test('time tracker step 0 fills defaults and backfills paused subtimers', () => {
+    const document = {
+      folders: [{
+        name: 'Work',
+        timers: [],
+        subfolders: [{
+          name: 'Nested',
+          timers: [{
+            id: 't',
+            subtimers: [
+              { id: 'paused', startTime: '2024-01-01T10:00:00.000Z', endTime: '2024-01-01T10:30:00.000Z' },
+              { id: 'running', startTime: '2024-01-01T11:00:00.000Z' },
+              { id: 'tracked', startTime: '2024-01-01T10:00:00.000Z', endTime: '2024-01-01T12:00:00.000Z', totalElapsedTime: 5 }
+            ]
+          }]
+        }]
+      }],
+      enabled: false
+    };
+    const changes = TIME_TRACKER_MIGRATIONS.find(step => step.from === 0).migrate(document);
+    const [paused, running, tracked] = document.folders[0].subfolders[0].timers[0].subtimers;
+
+    assert.strictEqual(paused.totalElapsedTime, 30 * 60 * 1000);
+    assert.strictEqual(running.totalElapsedTime, undefined);
+    assert.strictEqual(tracked.totalElapsedTime, 5);
+    assert.strictEqual(document.enabled, false);
+    assert.deepStrictEqual(document.ignoredBranches, []);
+    assert.ok(changes.includes('Recorded the elapsed time of 1 paused subtimer'));
+  });
+
+  test('migrateDocument upgrades a copy and stamps the schema version', () => {
+    const original = { folders: [], version: 7 };
+    const result = migrateDocument(original, CONFIG_MIGRATIONS, CURRENT_CONFIG_SCHEMA_VERSION);
+
+    assert.strictEqual(result.migrated, true);
+    assert.strictEqual(result.document.schemaVersion, CURRENT_CONFIG_SCHEMA_VERSION);
+    assert.strictEqual(result.document.version, 7);
+    assert.strictEqual(original.schemaVersion, undefined);
+    assert.strictEqual(original.pinnedCommands, undefined);
+    assert.deepStrictEqual(result.applied.map(step => [step.from, step.to]), [[0, 1]]);
+  });
+
+  test('migrateDocument runs steps in order and leaves current or newer files alone', () => {
+    const steps = [
+      { from: 0, description: 'first', migrate: document => { document.trail = ['first']; return ['a']; } },
+      { from: 1, description: 'second', migrate: document => { document.trail.push('second'); return []; } }
+    ];
+    const result = migrateDocument({}, steps, 2);
+    assert.deepStrictEqual(result.document.trail, ['first', 'second']);
+
+    const current = { schemaVersion: 2 };
+    assert.strictEqual(migrateDocument(current, steps, 2).document, current);
+    assert.strictEqual(migrateDocument({ schemaVersion: 5 }, steps, 2).migrated, false);
+    assert.throws(() => migrateDocument({}, [steps[1]], 2), /No migration from schema version 0/);
+  });
+
+  test('time tracker files reach the current version', () => {
+    const result = migrateDocument({ folders: [] }, TIME_TRACKER_MIGRATIONS, CURRENT_TIME_TRACKER_SCHEMA_VERSION);
+    assert.strictEqual(result.document.schemaVersion, CURRENT_TIME_TRACKER_SCHEMA_VERSION);
+    assert.strictEqual(result.document.autoCreateOnBranchCheckout, true);
+  });
+
+  test('reports and backup paths name the file and each step', () => {
+    const filePath = path.join('/workspace', '.vscode', 'commands', 'commands.json');
+    const backupPath = getMigrationBackupPath(filePath);
+    assert.strictEqual(backupPath, path.join('/workspace', '.vscode', 'commands', 'commands-pre-migration.json'));
+
+    const result = migrateDocument({ folders: [], testRunners: [], pinnedCommands: [] }, CONFIG_MIGRATIONS, 1);
+    assert.deepStrictEqual(formatMigrationReport(filePath, result, backupPath), [
+      `${filePath}: schema 0 → 1`,
+      `  v0 → v1: ${CONFIG_MIGRATIONS[0].description}`,
+      '    (nothing to change)',
+      `  Backup of the original: ${backupPath}`
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+const assert = require('assert');
+
+const { mergeRootConfig, serializeConfig, splitRootConfigs } = require('../../src/config/workspaceRoots');
+
+const command = (id) => ({ id, label: id, command: `echo ${id}`, terminal: { type: 'vscode-new' } });
+
+const config = (overrides) => ({
+  folders: [],
+  sharedVariables: [],
+  sharedLists: [],
+  testRunners: [],
+  pinnedCommands: [],
+  version: 4,
+  ...overrides
+});
+
+function mergeSample() {
+  const merged = config({
+    folders: [{ name: 'App', commands: [command('build')], workspaceRoot: 'app' }],
+    sharedVariables: [{ key: 'env', value: 'dev' }]
+  });
+  const contributions = new Map([
+    ['api', mergeRootConfig(merged, 'api', config({
+      folders: [{ name: 'API', commands: [command('api-start')] }],
+      sharedVariables: [{ key: 'env', value: 'prod' }, { key: 'port', value: '8080' }],
+      pinnedCommands: ['api-start']
+    }))],
+    ['docs', mergeRootConfig(merged, 'docs', config({
+      folders: [{ name: 'Docs', commands: [command('docs-serve')] }],
+      sharedLists: [{ key: 'site', options: ['public', 'internal'] }]
+    }))]
+  ]);
+  return { merged, contributions };
+}
+
+suite('Workspace root configs', () => {
+  test('merges two roots after the primary one, first definitions winning', () => {
+    const { merged, contributions } = mergeSample();
+
+    assert.deepStrictEqual(merged.folders.map(folder => [folder.name, folder.workspaceRoot]), [
+      ['App', 'app'],
+      ['API', 'api'],
+      ['Docs', 'docs']
+    ]);
+    assert.deepStrictEqual(merged.sharedVariables, [{ key: 'env', value: 'dev' }, { key: 'port', value: '8080' }]);
+    assert.deepStrictEqual(merged.pinnedCommands, ['api-start']);
+    assert.deepStrictEqual([...contributions.get('api').sharedVariables], ['port']);
+    assert.deepStrictEqual([...contributions.get('docs').sharedLists], ['site']);
+  });
+
+  test('writes each command and shared entry back to its root', () => {
+    const { merged, contributions } = mergeSample();
+    merged.folders[1].commands.push(command('api-test'));
+    merged.folders.push({ name: 'New', commands: [command('added')] });
+
+    const { primary, roots } = splitRootConfigs(merged, ['api', 'docs', 'empty'], contributions);
+
+    assert.deepStrictEqual(primary.folders.map(folder => folder.name), ['App', 'New']);
+    assert.deepStrictEqual(primary.sharedVariables, [{ key: 'env', value: 'dev' }]);
+    assert.deepStrictEqual(primary.pinnedCommands, []);
+
+    assert.deepStrictEqual([...roots.keys()], ['api', 'docs']);
+    assert.deepStrictEqual(roots.get('api').folders[0].commands.map(cmd => cmd.id), ['api-start', 'api-test']);
+    assert.deepStrictEqual(roots.get('api').sharedVariables, [{ key: 'port', value: '8080' }]);
+    assert.deepStrictEqual(roots.get('api').pinnedCommands, ['api-start']);
+    assert.deepStrictEqual(roots.get('docs').folders.map(folder => folder.name), ['Docs']);
+    assert.deepStrictEqual(roots.get('docs').sharedLists, [{ key: 'site', options: ['public', 'internal'] }]);
+    assert.strictEqual(roots.get('docs').version, 4);
+  });
+
+  test('leaves runtime tags out of the written files', () => {
+    const { merged, contributions } = mergeSample();
+    const { roots } = splitRootConfigs(merged, ['api', 'docs'], contributions);
+
+    const written = JSON.parse(serializeConfig(roots.get('api')));
+    assert.deepStrictEqual(written.folders, [{ name: 'API', commands: [command('api-start')] }]);
+  });
+});
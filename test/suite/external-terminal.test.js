@@ -0,0 +1,75 @@
+const assert = require('assert');
+
+const {
+  detectEmulator,
+  getShellArgs,
+  buildEmulatorLaunch,
+  buildMacOsLaunch,
+  getUnsupportedTerminalReason
+} = require('../../src/execution/externalTerminal');
+const { validateConfig } = require('../../src/config/schema');
+
+suite('External system terminal', () => {
+  const onPath = (...available) => command => available.includes(command);
+
+  test('prefers the configured emulator, then $TERMINAL, then PATH', () => {
+    assert.strictEqual(detectEmulator('kitty', undefined, onPath()), 'kitty');
+    assert.strictEqual(detectEmulator('auto', '/usr/bin/alacritty', onPath('alacritty', 'xterm')), 'alacritty');
+    assert.strictEqual(detectEmulator('auto', 'st', onPath('konsole', 'xterm')), 'konsole');
+    assert.strictEqual(detectEmulator('auto', undefined, onPath()), undefined);
+  });
+
+  test('keeps the window open on a shell after the command', () => {
+    const [shell, flag, script] = getShellArgs('npm test', 'posix');
+    assert.strictEqual(shell, '/bin/sh');
+    assert.strictEqual(flag, '-c');
+    assert.ok(script.startsWith('npm test\n'));
+    assert.ok(script.includes('exec "${SHELL:-/bin/sh}"'));
+
+    assert.deepStrictEqual(getShellArgs('Get-Date', 'pwsh'), ['pwsh', '-NoExit', '-Command', '& { Get-Date }']);
+  });
+
+  test('passes the working directory the way each emulator expects', () => {
+    const shellArgs = ['/bin/sh', '-c', 'ls'];
+
+    assert.deepStrictEqual(buildEmulatorLaunch('gnome-terminal', shellArgs, '/repo').args,
+      ['--working-directory=/repo', '--', ...shellArgs]);
+    assert.deepStrictEqual(buildEmulatorLaunch('konsole', shellArgs, '/repo').args,
+      ['--workdir', '/repo', '-e', ...shellArgs]);
+    assert.deepStrictEqual(buildEmulatorLaunch('xterm', shellArgs, '/repo').args, ['-e', ...shellArgs]);
+    assert.deepStrictEqual(buildEmulatorLaunch('kitty', shellArgs, '/repo').args, ['--directory', '/repo', ...shellArgs]);
+    assert.deepStrictEqual(buildEmulatorLaunch('alacritty', shellArgs).args, ['-e', ...shellArgs]);
+    assert.deepStrictEqual(buildEmulatorLaunch('wezterm', shellArgs, '/repo'), {
+      command: 'wezterm',
+      args: ['start', '--cwd', '/repo', '--', ...shellArgs]
+    });
+  });
+
+  test('quotes the command for Terminal.app on macOS', () => {
+    const launch = buildMacOsLaunch(['/bin/sh', '-c', 'echo "it\'s"'], '/my repo');
+
+    assert.strictEqual(launch.command, 'osascript');
+    assert.strictEqual(
+      launch.args[1],
+      'tell application "Terminal" to do script "cd \'/my repo\' && \'/bin/sh\' \'-c\' \'echo \\"it\'\\\\\'\'s\\"\'"'
+    );
+  });
+
+  test('warns about terminal types the platform cannot run', () => {
+    assert.ok(getUnsupportedTerminalReason('external-cmd', 'linux'));
+    assert.strictEqual(getUnsupportedTerminalReason('external-cmd', 'win32'), undefined);
+    assert.strictEqual(getUnsupportedTerminalReason('external-system', 'darwin'), undefined);
+
+    const config = {
+      folders: [{
+        name: 'Tools',
+        commands: [{ id: 'legacy', label: 'Legacy', command: 'dir', terminal: { type: 'external-cmd' } }]
+      }]
+    };
+    const linux = validateConfig(config, 'linux');
+    assert.strictEqual(linux.valid, true);
+    assert.deepStrictEqual(linux.warnings.length, 1);
+    assert.ok(linux.warnings[0].startsWith('Command "Legacy"'));
+    assert.deepStrictEqual(validateConfig(config, 'win32').warnings, []);
+  });
+});
@@ -0,0 +1,63 @@
+const assert = require('assert');
+const { parse } = require('jsonc-parser');
+
+const { updateKeybindingsContent, RUN_COMMAND_BY_ID } = require('../../src/ui/keybindings');
+
+suite('Saved command keybindings', () => {
+  const userFile = [
+    '// Place your key bindings in this file to override the defaults',
+    '[',
+    '    {',
+    '        "key": "ctrl+k ctrl+t",',
+    '        "command": "workbench.action.selectTheme"',
+    '    }',
+    ']'
+  ].join('\n');
+
+  test('appends bindings and keeps user entries and comments', () => {
+    const updated = updateKeybindingsContent(userFile, [
+      { commandId: 'build', key: 'ctrl+alt+b', when: 'editorTextFocus' }
+    ], []);
+
+    assert.ok(updated.startsWith('// Place your key bindings'));
+    assert.deepStrictEqual(parse(updated), [
+      { key: 'ctrl+k ctrl+t', command: 'workbench.action.selectTheme' },
+      { key: 'ctrl+alt+b', command: RUN_COMMAND_BY_ID, args: { commandId: 'build' }, when: 'editorTextFocus' }
+    ]);
+  });
+
+  test('returns the content untouched when bindings already match', () => {
+    const once = updateKeybindingsContent(userFile, [{ commandId: 'build', key: 'ctrl+alt+b' }], []);
+    const twice = updateKeybindingsContent(once, [{ commandId: 'build', key: 'ctrl+alt+b' }], ['build']);
+
+    assert.strictEqual(twice, once);
+  });
+
+  test('replaces changed bindings and removes ones no longer configured', () => {
+    let content = updateKeybindingsContent(userFile, [
+      { commandId: 'build', key: 'ctrl+alt+b' },
+      { commandId: 'test', key: 'ctrl+alt+t' }
+    ], []);
+
+    content = updateKeybindingsContent(content, [{ commandId: 'build', key: 'ctrl+shift+b' }], ['build', 'test']);
+
+    assert.deepStrictEqual(parse(content), [
+      { key: 'ctrl+k ctrl+t', command: 'workbench.action.selectTheme' },
+      { key: 'ctrl+shift+b', command: RUN_COMMAND_BY_ID, args: { commandId: 'build' } }
+    ]);
+  });
+
+  test('leaves bindings written for other workspaces alone', () => {
+    const content = updateKeybindingsContent('[]', [{ commandId: 'elsewhere', key: 'ctrl+alt+e' }], []);
+    const updated = updateKeybindingsContent(content, [], ['build']);
+
+    assert.strictEqual(updated, content);
+  });
+
+  test('starts a new file and refuses to overwrite an invalid one', () => {
+    assert.deepStrictEqual(parse(updateKeybindingsContent('', [{ commandId: 'build', key: 'f6' }], [])), [
+      { key: 'f6', command: RUN_COMMAND_BY_ID, args: { commandId: 'build' } }
+    ]);
+    assert.throws(() => updateKeybindingsContent('{ "key": "f6" }', [], ['build']), /not a valid array/);
+  });
+});
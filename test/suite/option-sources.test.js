@@ -0,0 +1,43 @@
+const assert = require('assert');
+
+const {
+  splitCommandOutput,
+  parseStructuredFile,
+  queryJsonPath,
+  toOptionStrings
+} = require('../../src/variables/optionSources');
+
+suite('Dynamic option sources', () => {
+  test('splits command output into trimmed, unique lines', () => {
+    assert.deepStrictEqual(splitCommandOutput('main\r\n  feature/x\n\nmain\nrelease\n'), ['main', 'feature/x', 'release']);
+    assert.deepStrictEqual(splitCommandOutput(''), []);
+  });
+
+  test('reads JSON with comments and YAML by extension', () => {
+    assert.deepStrictEqual(parseStructuredFile('{ // envs\n "envs": ["dev",] }', 'envs.json'), { envs: ['dev'] });
+    assert.deepStrictEqual(parseStructuredFile('envs:\n  - dev\n  - prod\n', 'envs.yml'), { envs: ['dev', 'prod'] });
+    assert.throws(() => parseStructuredFile('{ "envs": ', 'config/envs.json'), /envs\.json is not valid JSON/);
+  });
+
+  test('evaluates dotted, bracketed and wildcard paths', () => {
+    const data = {
+      environments: [
+        { name: 'dev', 'deploy-target': 'eu' },
+        { name: 'prod', 'deploy-target': 'us' }
+      ],
+      regions: { eu: { id: 1 }, us: { id: 2 } }
+    };
+
+    assert.deepStrictEqual(queryJsonPath(data, '$.environments[*].name'), ['dev', 'prod']);
+    assert.deepStrictEqual(queryJsonPath(data, "$.environments[1]['deploy-target']"), ['us']);
+    assert.deepStrictEqual(queryJsonPath(data, '$.regions.*.id'), [1, 2]);
+    assert.deepStrictEqual(queryJsonPath(data, '$.missing[*]'), []);
+    assert.throws(() => queryJsonPath(data, 'environments'), /must start with \$/);
+    assert.throws(() => queryJsonPath(data, '$..name'), /Unsupported JSONPath/);
+  });
+
+  test('turns query results into option strings', () => {
+    assert.deepStrictEqual(toOptionStrings([['dev', 'prod']]), ['dev', 'prod']);
+    assert.deepStrictEqual(toOptionStrings([8080, true, { nested: 1 }, null, ' dev ', 'dev']), ['8080', 'true', 'dev']);
+  });
+});
@@ -0,0 +1,60 @@
+const assert = require('assert');
+const path = require('path');
+
+const { splitProblemMatchers, matchProblems } = require('../../src/execution/problemMatchers');
+
+suite('Problem matchers', () => {
+  test('separates matcher names from inline definitions', () => {
+    const inline = { owner: 'lint', pattern: { regexp: '(.*)', file: 1, message: 1 } };
+
+    assert.deepStrictEqual(splitProblemMatchers('$tsc'), { named: ['$tsc'], custom: [] });
+    assert.deepStrictEqual(splitProblemMatchers(['$gcc', inline]), { named: ['$gcc'], custom: [inline] });
+    assert.deepStrictEqual(splitProblemMatchers(undefined), { named: [], custom: [] });
+  });
+
+  test('matches single-line problems relative to the working directory', () => {
+    const output = [
+      'Checking 2 files',
+      '\x1b[31msrc/app.ts:12:5: error: Missing semicolon\x1b[0m',
+      'lib/util.ts:3:1: warning: Unused import',
+      'done'
+    ].join('\n');
+    const definition = {
+      owner: 'lint',
+      pattern: { regexp: '^(.*):(\\d+):(\\d+): (error|warning): (.*)$', file: 1, line: 2, column: 3, severity: 4, message: 5 }
+    };
+
+    const problems = matchProblems(output, definition, '/repo');
+    assert.deepStrictEqual(problems.map(problem => [problem.file, problem.line, problem.column, problem.severity, problem.message]), [
+      [path.resolve('/repo', 'src/app.ts'), 12, 5, 'error', 'Missing semicolon'],
+      [path.resolve('/repo', 'lib/util.ts'), 3, 1, 'warning', 'Unused import']
+    ]);
+    assert.strictEqual(problems[0].source, 'lint');
+  });
+
+  test('combines consecutive lines and loops on the last pattern', () => {
+    const output = [
+      'src/app.ts',
+      '  1:10  error  Unexpected var  no-var',
+      '  4:2   warning  Missing return  consistent-return',
+      '',
+      'src/other.ts',
+      '  7:1  error  Bad indent  indent'
+    ].join('\n');
+    const definition = {
+      owner: 'eslint',
+      fileLocation: 'absolute',
+      pattern: [
+        { regexp: '^([^\\s].*)$', file: 1 },
+        { regexp: '^\\s+(\\d+):(\\d+)\\s+(error|warning)\\s+(.*?)\\s\\s+(\\S+)$', line: 1, column: 2, severity: 3, message: 4, code: 5, loop: true }
+      ]
+    };
+
+    const problems = matchProblems(output, definition);
+    assert.deepStrictEqual(problems.map(problem => [problem.file, problem.line, problem.code]), [
+      ['src/app.ts', 1, 'no-var'],
+      ['src/app.ts', 4, 'consistent-return'],
+      ['src/other.ts', 7, 'indent']
+    ]);
+  });
+});
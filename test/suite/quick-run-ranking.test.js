@@ -0,0 +1,54 @@
+const assert = require('assert');
+
+const { computeFrecency, formatVariableHint, fuzzyScore, rankCandidates } = require('../../src/ui/quickRunRanking');
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.parse('2026-03-01T12:00:00Z');
+const daysAgo = days => new Date(now - days * DAY).toISOString();
+
+const candidate = (id, label, command, folderPath = ['Tasks']) => ({
+  command: { id, label, command, terminal: { type: 'vscode-new' } },
+  folderPath
+});
+
+const candidates = [
+  candidate('build-docs', 'Build docs', 'npm run docs', ['Docs']),
+  candidate('abandoned', 'Abandoned script', 'node bad.js'),
+  candidate('deploy-api', 'Deploy', 'kubectl apply -f api.yaml', ['Deploy', 'API']),
+  candidate('deploy-web', 'Deploy', 'kubectl apply -f web.yaml', ['Deploy', 'Web'])
+];
+
+suite('Quick-run ranking', () => {
+  test('fuzzy matches subsequences and favours word starts', () => {
+    assert.strictEqual(fuzzyScore('xyz', 'Build docs'), undefined);
+    assert.ok(fuzzyScore('bd', 'Build docs') > fuzzyScore('bd', 'abandoned'));
+    assert.ok(fuzzyScore('rd', 'runDev') > fuzzyScore('rd', 'rundev'));
+  });
+
+  test('every word must match the folder path, label or command text', () => {
+    const ranked = rankCandidates(candidates, 'deploy web', new Map());
+    assert.deepStrictEqual(ranked.map(entry => entry.command.id), ['deploy-web']);
+
+    assert.deepStrictEqual(rankCandidates(candidates, 'kubectl api', new Map()).map(entry => entry.command.id), ['deploy-api']);
+  });
+
+  test('recent and frequent runs rank first, without a query too', () => {
+    const frecency = computeFrecency([
+      { commandId: 'deploy-web', startTime: daysAgo(0.5) },
+      { commandId: 'deploy-web', startTime: daysAgo(3) },
+      { commandId: 'deploy-api', startTime: daysAgo(200) },
+      { commandId: 'deploy-api', startTime: 'not a date' }
+    ], now);
+
+    assert.deepStrictEqual([...frecency], [['deploy-web', 170], ['deploy-api', 10]]);
+    assert.deepStrictEqual(rankCandidates(candidates, '', frecency).map(entry => entry.command.id), [
+      'deploy-web', 'deploy-api', 'build-docs', 'abandoned'
+    ]);
+    assert.deepStrictEqual(rankCandidates(candidates, 'deploy', frecency).map(entry => entry.command.id), ['deploy-web', 'deploy-api']);
+  });
+
+  test('describes the variables a command asks for', () => {
+    assert.strictEqual(formatVariableHint(['Environment', 'Service']), 'Asks for Environment, Service');
+    assert.strictEqual(formatVariableHint([]), '');
+  });
+});
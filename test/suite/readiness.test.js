@@ -0,0 +1,104 @@
+const assert = require('assert');
+const http = require('http');
+const net = require('net');
+
+const {
+  createOutputMatcher,
+  watchReadiness,
+  shouldRestart,
+  getRestartDelayMs
+} = require('../../src/execution/readiness');
+const { validateConfig } = require('../../src/config/schema');
+
+suite('Readiness probes and restart policy', () => {
+  const listen = server => new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server.address().port)));
+
+  test('matches the output pattern across chunks and color codes', () => {
+    const matches = createOutputMatcher('Listening on port \\d+');
+
+    assert.strictEqual(matches('Compiling...\n'), false);
+    assert.strictEqual(matches('\x1b[32mListening on '), false);
+    assert.strictEqual(matches('port\x1b[0m 3000\n'), true);
+  });
+
+  test('is ready once the port accepts connections', async () => {
+    const server = net.createServer(socket => socket.end());
+    const port = await listen(server);
+    try {
+      assert.strictEqual(await watchReadiness({ port }).outcome, 'ready');
+    } finally {
+      server.close();
+    }
+  });
+
+  test('is ready when the port only listens on the IPv6 loopback address', async function () {
+    const server = net.createServer(socket => socket.end());
+    const port = await new Promise(resolve => {
+      server.once('error', () => resolve(undefined));
+      server.listen(0, '::1', () => resolve(server.address().port));
+    });
+    if (!port) {
+      // No IPv6 loopback on this machine
+      this.skip();
+      return;
+    }
+    try {
+      assert.strictEqual(await watchReadiness({ port }).outcome, 'ready');
+    } finally {
+      server.close();
+    }
+  });
+
+  test('waits for the URL to answer with 200', async () => {
+    let requests = 0;
+    const server = http.createServer((request, response) => {
+      requests++;
+      response.statusCode = requests < 2 ? 503 : 200;
+      response.end();
+    });
+    const port = await listen(server);
+    try {
+      assert.strictEqual(await watchReadiness({ url: `http://127.0.0.1:${port}/health` }).outcome, 'ready');
+      assert.strictEqual(requests, 2);
+    } finally {
+      server.close();
+    }
+  });
+
+  test('times out or is cancelled when the condition is never met', async () => {
+    assert.strictEqual(await watchReadiness({ pattern: 'ready', timeoutSeconds: 0.05 }).outcome, 'timeout');
+
+    const watch = watchReadiness({ pattern: 'ready' });
+    watch.cancel();
+    watch.onOutput('ready\n');
+    assert.strictEqual(await watch.outcome, 'cancelled');
+  });
+
+  test('restarts by mode until the retries run out, backing off exponentially', () => {
+    assert.strictEqual(shouldRestart(undefined, 1, 0), false);
+    assert.strictEqual(shouldRestart({ mode: 'on-failure' }, 0, 0), false);
+    assert.strictEqual(shouldRestart({ mode: 'on-failure' }, 1, 0), true);
+    assert.strictEqual(shouldRestart({ mode: 'always' }, 0, 4), true);
+    assert.strictEqual(shouldRestart({ mode: 'always' }, 0, 5), false);
+    assert.strictEqual(shouldRestart({ mode: 'always', maxRetries: 0 }, 1, 0), false);
+
+    assert.deepStrictEqual([0, 1, 2, 3].map(attempt => getRestartDelayMs({ mode: 'always', backoffSeconds: 2 }, attempt)), [2000, 4000, 8000, 16000]);
+    assert.strictEqual(getRestartDelayMs({ mode: 'always' }, 10), 60000);
+  });
+
+  test('validates readiness and restart settings', () => {
+    const configWith = fields => ({
+      folders: [{
+        name: 'Dev',
+        commands: [{ id: 'serve', label: 'Serve', command: 'npm start', terminal: { type: 'background' }, ...fields }]
+      }]
+    });
+
+    assert.strictEqual(validateConfig(configWith({ readiness: { port: 3000 }, restart: { mode: 'on-failure', maxRetries: 3 } })).valid, true);
+
+    const invalid = validateConfig(configWith({ readiness: { pattern: '(' }, restart: { mode: 'sometimes' } }));
+    assert.strictEqual(invalid.valid, false);
+    assert.ok(invalid.errors.some(error => error.includes('readiness pattern')));
+    assert.ok(invalid.errors.some(error => error.includes('restart mode')));
+  });
+});
@@ -0,0 +1,27 @@
+const assert = require('assert');
+
+const { rememberValue, orderByRecent } = require('../../src/variables/recentValues');
+
+suite('Recently used variable values', () => {
+  test('keeps the newest value first without duplicates', () => {
+    let recent = [];
+    recent = rememberValue(recent, 'dev', 3);
+    recent = rememberValue(recent, 'prod', 3);
+    recent = rememberValue(recent, 'dev', 3);
+
+    assert.deepStrictEqual(recent, ['dev', 'prod']);
+  });
+
+  test('drops values beyond the limit', () => {
+    assert.deepStrictEqual(rememberValue(['b', 'c', 'd'], 'a', 3), ['a', 'b', 'c']);
+    assert.deepStrictEqual(rememberValue(['b'], 'a', 0), []);
+  });
+
+  test('lists recent values ahead of the remaining options', () => {
+    assert.deepStrictEqual(
+      orderByRecent(['dev', 'staging', 'prod'], ['prod', 'custom-env']),
+      ['prod', 'custom-env', 'dev', 'staging']
+    );
+    assert.deepStrictEqual(orderByRecent(['dev', 'prod'], []), ['dev', 'prod']);
+  });
+});
@@ -0,0 +1,97 @@
+const assert = require('assert');
+const path = require('path');
+const { parse } = require('jsonc-parser');
+
+const { buildTasksExport, mergeTasksJson } = require('../../apps/tasks/export/tasksJsonExporter');
+const { convertTasksJsonContent } = require('../../apps/tasks/import/tasksJsonImporter');
+
+suite('tasks.json exporter', () => {
+  const workspaceRoot = path.resolve('/workspace');
+  const deploy = {
+    id: 'deploy',
+    label: 'Deploy',
+    description: 'Ship it',
+    command: 'deploy --env $ENV --user ${USER_NAME} --dry-run=$DRY_RUN --region $REGION',
+    terminal: { type: 'vscode-new', cwd: path.join(workspaceRoot, 'infra') },
+    variables: [
+      { key: 'ENV', label: 'Environment', type: 'options', value: 'staging\nproduction' },
+      { key: 'USER_NAME', label: 'User', type: 'text', value: 'admin' },
+      { key: 'DRY_RUN', label: 'Dry run', type: 'boolean', value: '' },
+      { key: 'REGION', label: 'Region', type: 'fixed', value: 'eu-west-1' }
+    ],
+    problemMatcher: '$tsc'
+  };
+  const server = {
+    id: 'server',
+    label: 'Server',
+    command: 'npm start',
+    terminal: { type: 'background' },
+    chain: { steps: ['deploy'], mode: 'sequential' }
+  };
+
+  test('turns commands into tasks with inputs for prompted variables', () => {
+    const { tasks, inputs } = buildTasksExport([deploy, server], { workspaceRoot });
+
+    assert.deepStrictEqual(tasks[0], {
+      label: 'Deploy',
+      type: 'shell',
+      command: 'deploy --env ${input:ENV} --user ${input:USER_NAME} --dry-run=${input:DRY_RUN} --region eu-west-1',
+      detail: 'Ship it',
+      options: { cwd: '${workspaceFolder}/infra' },
+      presentation: { reveal: 'always', panel: 'dedicated' },
+      problemMatcher: '$tsc'
+    });
+    assert.deepStrictEqual(tasks[1].presentation, { reveal: 'never', panel: 'dedicated' });
+    assert.strictEqual(tasks[1].isBackground, true);
+    assert.deepStrictEqual(tasks[1].dependsOn, ['Deploy']);
+    assert.strictEqual(tasks[1].dependsOrder, 'sequence');
+
+    assert.deepStrictEqual(inputs, [
+      { id: 'ENV', type: 'pickString', description: 'Environment', options: ['staging', 'production'] },
+      { id: 'USER_NAME', type: 'promptString', description: 'User', default: 'admin' },
+      { id: 'DRY_RUN', type: 'pickString', description: 'Dry run', options: ['true', 'false'] }
+    ]);
+  });
+
+  test('merges into an existing file and keeps its comments', () => {
+    const existing = [
+      '{',
+      '    // Managed by hand',
+      '    "version": "2.0.0",',
+      '    "tasks": [',
+      '        { "label": "Deploy", "type": "shell", "command": "old" },',
+      '        { "label": "Lint", "type": "shell", "command": "eslint ." } // keep me',
+      '    ]',
+      '}',
+      ''
+    ].join('\n');
+
+    const merged = mergeTasksJson(existing, buildTasksExport([deploy, server], { workspaceRoot }));
+    const parsed = parse(merged);
+
+    assert.ok(merged.includes('// Managed by hand'));
+    assert.ok(merged.includes('// keep me'));
+    assert.deepStrictEqual(parsed.tasks.map(task => task.label), ['Deploy', 'Lint', 'Server']);
+    assert.ok(parsed.tasks[0].command.startsWith('deploy --env'));
+    assert.deepStrictEqual(parsed.inputs.map(input => input.id), ['ENV', 'USER_NAME', 'DRY_RUN']);
+
+    const again = mergeTasksJson(merged, buildTasksExport([deploy, server], { workspaceRoot }));
+    assert.strictEqual(parse(again).tasks.length, 3, 'exporting twice replaces the earlier entries');
+  });
+
+  test('imports its own output back into equivalent commands', () => {
+    const content = mergeTasksJson('', buildTasksExport([deploy, server], { workspaceRoot }));
+    const [imported, importedServer] = convertTasksJsonContent(content, workspaceRoot);
+
+    assert.strictEqual(imported.command, 'deploy --env ${ENV} --user ${USER_NAME} --dry-run=${DRY_RUN} --region eu-west-1');
+    assert.strictEqual(imported.terminal.cwd, '${workspaceFolder}/infra');
+    assert.strictEqual(imported.problemMatcher, '$tsc');
+    assert.deepStrictEqual(imported.variables.map(variable => [variable.key, variable.type, variable.value]), [
+      ['ENV', 'options', 'staging\nproduction'],
+      ['USER_NAME', 'text', 'admin'],
+      ['DRY_RUN', 'options', 'true\nfalse']
+    ]);
+    assert.strictEqual(importedServer.terminal.type, 'background');
+    assert.deepStrictEqual(importedServer.chain.steps, [imported.id]);
+  });
+});
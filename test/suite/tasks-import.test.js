@@ -69,4 +69,64 @@ suite('VS Code tasks.json importer', () => {
     const commands = convertTasksJsonContent(content, undefined);
     assert.strictEqual(commands.length, 0, 'tasks without command or script should be ignored');
   });
+
+  test('maps dependsOn labels onto a command chain', () => {
+    const content = `{
+      "tasks": [
+        {
+          "label": "Build All",
+          "dependsOn": ["Compile", "Lint", "Missing"],
+          "dependsOrder": "sequence"
+        },
+        {
+          "label": "Compile",
+          "type": "shell",
+          "command": "tsc -p ."
+        },
+        {
+          "label": "Lint",
+          "type": "shell",
+          "command": "eslint src",
+          "dependsOn": "Compile"
+        }
+      ]
+    }`;
+
+    const commands = convertTasksJsonContent(content, undefined);
+    assert.strictEqual(commands.length, 3, 'aggregator task should be kept');
+
+    const [buildAll, compile, lint] = commands;
+    assert.strictEqual(buildAll.command, '');
+    assert.deepStrictEqual(buildAll.chain, {
+      steps: [compile.id, lint.id],
+      mode: 'sequential',
+      onFailure: 'stop'
+    });
+    assert.strictEqual(compile.chain, undefined);
+    assert.deepStrictEqual(lint.chain.steps, [compile.id]);
+    assert.strictEqual(lint.chain.mode, 'parallel', 'VS Code defaults to running dependencies in parallel');
+  });
+
+  test('keeps problem matcher names and inline definitions', () => {
+    const content = `{
+      "version": "2.0.0",
+      "tasks": [
+        { "label": "Compile", "type": "shell", "command": "tsc", "problemMatcher": "$tsc" },
+        {
+          "label": "Lint",
+          "type": "shell",
+          "command": "lint",
+          "problemMatcher": ["$eslint-stylish", { "owner": "lint", "pattern": { "regexp": "^(.*):(\\\\d+) (.*)$", "file": 1, "line": 2, "message": 3 } }]
+        },
+        { "label": "Plain", "type": "shell", "command": "echo", "problemMatcher": [] }
+      ]
+    }`;
+
+    const [compile, lint, plain] = convertTasksJsonContent(content, '/workspace');
+    assert.strictEqual(compile.problemMatcher, '$tsc');
+    assert.strictEqual(lint.problemMatcher.length, 2);
+    assert.strictEqual(lint.problemMatcher[0], '$eslint-stylish');
+    assert.strictEqual(lint.problemMatcher[1].pattern.regexp, '^(.*):(\\d+) (.*)$');
+    assert.strictEqual(plain.problemMatcher, undefined);
+  });
 });
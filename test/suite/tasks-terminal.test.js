@@ -83,5 +83,89 @@ suite('Terminal disposal integration', () => {
     assert(terminalManager.getTerminal('Terminal A') !== undefined);
     assert(terminalManager.getTerminal('Terminal B') !== undefined);
   });
+
+  test('keeps a running process terminal when another run shares its name', async () => {
+    terminalManager.setRunner(undefined);
+    const config = { type: 'vscode-new' };
+
+    // Parallel chain steps run like this, all under the default terminal name
+    const results = await Promise.all([
+      terminalManager.executeCommand('node -e "setTimeout(() => {}, 500)"', config),
+      terminalManager.executeCommand('node -e "setTimeout(() => {}, 500)"', config)
+    ]);
+
+    assert.deepStrictEqual(results.map(result => result.exitCode), [0, 0]);
+    assert.strictEqual(terminalManager.listTerminals().length, 2);
+  });
+
+  test('fails a process terminal that is abandoned before it opens', async () => {
+    const { ProcessTerminal } = require('../../src/execution/ProcessTerminal');
+    const pty = new ProcessTerminal('echo never');
+    pty.abandon('The task ended before the command started');
+
+    const result = await pty.completion;
+    assert.strictEqual(result.exitCode, -1);
+    assert.ok(result.output.includes('The task ended before the command started'));
+  });
 });
 
+
+suite('Background processes integration', () => {
+  const { BackgroundProcessManager } = require('../../src/execution/BackgroundProcessManager');
+  const backgroundProcesses = BackgroundProcessManager.getInstance();
+
+  teardown(async () => {
+    await backgroundProcesses.stopAll();
+  });
+
+  test('tracks a background command until it is stopped', async () => {
+    const owner = { commandId: 'dev-server', label: 'Dev Server' };
+    const started = await backgroundProcesses.start('node -e "setInterval(() => {}, 1000)"', { type: 'background' }, owner);
+
+    assert.ok(started.pid, 'Process should have a PID');
+    assert.strictEqual(backgroundProcesses.isRunning('dev-server'), true);
+    assert.deepStrictEqual(backgroundProcesses.getProcesses().map(info => info.id), [started.id]);
+
+    const exited = new Promise(resolve => backgroundProcesses.onDidExit(resolve));
+    await backgroundProcesses.stop(started.id);
+    const exit = await exited;
+
+    assert.strictEqual(exit.stopped, true);
+    assert.strictEqual(backgroundProcesses.isRunning('dev-server'), false);
+  });
+
+  test('kills a process that ignores SIGTERM once the grace period is over', async function () {
+    this.timeout(15000);
+    const owner = { commandId: 'stubborn', label: 'Stubborn' };
+    const started = await backgroundProcesses.start(
+      'node -e "process.on(\'SIGTERM\', () => {}); setInterval(() => {}, 1000)"',
+      { type: 'background' },
+      owner
+    );
+
+    await backgroundProcesses.stop(started.id);
+    assert.strictEqual(backgroundProcesses.isRunning('stubborn'), false);
+  });
+
+  test('reports the exit code of a process that ends on its own', async () => {
+    const exited = new Promise(resolve => backgroundProcesses.onDidExit(resolve));
+    await backgroundProcesses.start('node -e "process.exit(3)"', { type: 'background' }, { commandId: 'failing', label: 'Failing' });
+    const exit = await exited;
+
+    assert.strictEqual(exit.stopped, false);
+    assert.strictEqual(exit.exitCode, 3);
+  });
+
+  test('drops a restart that is still waiting out its backoff when cancelled', async () => {
+    const terminalManager = TerminalManager.getInstance();
+    const owner = { commandId: 'flaky', label: 'Flaky', restart: { mode: 'on-failure', backoffSeconds: 1 } };
+    const exited = new Promise(resolve => backgroundProcesses.onDidExit(resolve));
+    await backgroundProcesses.start('node -e "process.exit(1)"', { type: 'background' }, owner);
+    await exited;
+
+    terminalManager.cancelPendingRestarts('flaky');
+    await new Promise(resolve => setTimeout(resolve, 1500));
+
+    assert.strictEqual(backgroundProcesses.isRunning('flaky'), false);
+  });
+});
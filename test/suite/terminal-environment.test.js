@@ -0,0 +1,75 @@
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const {
+  parseEnvFile,
+  loadConfiguredEnvironment,
+  applyCwdToCommand,
+  applyEnvironmentToCommand,
+  detectShellKind
+} = require('../../src/execution/environment');
+
+suite('Terminal environment', () => {
+  test('parses .env files with comments, quotes and export prefixes', () => {
+    const env = parseEnvFile([
+      '# comment',
+      'PLAIN=value # trailing comment',
+      'export EXPORTED=yes',
+      'SINGLE=\'keep $literal\'',
+      'DOUBLE="line one\\nline two"',
+      'MULTI="first',
+      'second"',
+      'EMPTY=',
+      'not a variable'
+    ].join('\n'));
+
+    assert.deepStrictEqual(env, {
+      PLAIN: 'value',
+      EXPORTED: 'yes',
+      SINGLE: 'keep $literal',
+      DOUBLE: 'line one\nline two',
+      MULTI: 'first\nsecond',
+      EMPTY: ''
+    });
+  });
+
+  test('inline env values override the env file', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cmd-manager-env-'));
+    fs.writeFileSync(path.join(directory, '.env'), 'API_URL=http://file\nTOKEN=abc\n', 'utf8');
+
+    const env = loadConfiguredEnvironment(
+      { type: 'vscode-new', envFile: '.env', env: { API_URL: 'http://inline' } },
+      directory
+    );
+
+    assert.deepStrictEqual(env, { API_URL: 'http://inline', TOKEN: 'abc' });
+  });
+
+  test('reports a missing env file', () => {
+    assert.throws(
+      () => loadConfiguredEnvironment({ type: 'vscode-new', envFile: '/does/not/exist/.env' }),
+      /Environment file not found/
+    );
+  });
+
+  test('scopes variables to the command for each shell', () => {
+    const env = { NAME: "it's" };
+
+    assert.strictEqual(detectShellKind('/bin/zsh'), 'posix');
+    assert.strictEqual(detectShellKind('C:\\Program Files\\PowerShell\\7\\pwsh.exe'), 'powershell');
+    assert.strictEqual(detectShellKind('C:\\Windows\\System32\\cmd.exe'), 'cmd');
+
+    assert.strictEqual(applyEnvironmentToCommand('run', env, 'posix'), "(export NAME='it'\\''s'; run)");
+    assert.strictEqual(applyEnvironmentToCommand('run', env, 'powershell'), "& { $env:NAME='it''s'; run }");
+    assert.strictEqual(applyEnvironmentToCommand('run', {}, 'posix'), 'run');
+  });
+
+  test('changes directory in the same command line for each shell', () => {
+    assert.strictEqual(applyCwdToCommand('run', "/srv/it's", 'posix'), "cd '/srv/it'\\''s' && run");
+    assert.strictEqual(applyCwdToCommand('run', 'C:\\My App', 'cmd'), 'cd /d "C:\\My App" && run');
+    assert.strictEqual(applyCwdToCommand('run', "C:\\it's", 'powershell'), "Set-Location -LiteralPath 'C:\\it''s' -ErrorAction Stop; run");
+    assert.strictEqual(applyCwdToCommand('run', '/srv/app', 'fish'), "cd '/srv/app'; and run");
+  });
+});
@@ -0,0 +1,37 @@
+const assert = require('assert');
+
+const {
+  validateNumberInput,
+  validatePatternInput,
+  getBooleanValues,
+  joinSelectedOptions
+} = require('../../src/variables/validation');
+
+suite('Typed variable validation', () => {
+  test('accepts numbers within the configured range', () => {
+    assert.strictEqual(validateNumberInput('8080'), undefined);
+    assert.strictEqual(validateNumberInput(' -1.5 ', -2, 0), undefined);
+    assert.strictEqual(validateNumberInput('abc'), 'Enter a number');
+    assert.strictEqual(validateNumberInput(''), 'Enter a number');
+    assert.strictEqual(validateNumberInput('0', 1), 'Enter a number of at least 1');
+    assert.strictEqual(validateNumberInput('70000', 1, 65535), 'Enter a number no greater than 65535');
+  });
+
+  test('requires the pattern to match the whole value', () => {
+    assert.strictEqual(validatePatternInput('anything'), undefined);
+    assert.strictEqual(validatePatternInput('feature-42', '[a-z]+-\\d+'), undefined);
+    assert.strictEqual(validatePatternInput('feature-42x', '[a-z]+-\\d+'), 'Value must match [a-z]+-\\d+');
+    assert.strictEqual(validatePatternInput('b', 'a|b'), undefined);
+  });
+
+  test('maps yes/no to the configured literals', () => {
+    assert.deepStrictEqual(getBooleanValues({}), { on: 'true', off: 'false' });
+    assert.deepStrictEqual(getBooleanValues({ trueValue: '--verbose', falseValue: '' }), { on: '--verbose', off: '' });
+  });
+
+  test('joins selected options with the separator', () => {
+    assert.strictEqual(joinSelectedOptions(['api', 'web']), 'api,web');
+    assert.strictEqual(joinSelectedOptions(['api', 'web'], ' '), 'api web');
+    assert.strictEqual(joinSelectedOptions([]), '');
+  });
+});
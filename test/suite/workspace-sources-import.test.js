@@ -0,0 +1,117 @@
+const assert = require('assert');
+
+const { convertPackageJsonScripts, detectPackageManager } = require('../../apps/tasks/import/packageScriptsImporter');
+const { convertMakefile } = require('../../apps/tasks/import/makefileImporter');
+const { convertJustfile } = require('../../apps/tasks/import/justfileImporter');
+const { convertTaskfile } = require('../../apps/tasks/import/taskfileImporter');
+const { convertPyproject, detectPythonRunner } = require('../../apps/tasks/import/pyprojectImporter');
+
+suite('Workspace source importers', () => {
+  test('package scripts run through the package manager of the lockfile', () => {
+    assert.strictEqual(detectPackageManager(['package.json', 'pnpm-lock.yaml']), 'pnpm');
+    assert.strictEqual(detectPackageManager(['yarn.lock']), 'yarn');
+    assert.strictEqual(detectPackageManager(['package.json']), 'npm');
+
+    const commands = convertPackageJsonScripts(JSON.stringify({
+      scripts: { build: 'tsc -p .', 'test:unit': 'mocha', broken: 42 }
+    }), 'pnpm', '/workspace');
+
+    assert.deepStrictEqual(commands.map(command => command.command), ['pnpm run build', 'pnpm run test:unit']);
+    assert.strictEqual(commands[0].id, 'npm-build');
+    assert.strictEqual(commands[0].description, 'tsc -p .');
+    assert.strictEqual(commands[0].terminal.cwd, '/workspace');
+    assert.strictEqual(commands[0].readOnly, true);
+    assert.strictEqual(commands[0].source, 'npm');
+    assert.deepStrictEqual(convertPackageJsonScripts('{ not json', 'npm'), []);
+  });
+
+  test('Makefile targets take their ## help comments as descriptions', () => {
+    const commands = convertMakefile([
+      '.PHONY: build test',
+      'CC := gcc',
+      'build: deps ## Compile everything',
+      '\tgcc -o app main.c',
+      '## Run the test suite',
+      'test:',
+      '\t./run-tests',
+      '%.o: %.c',
+      '\t$(CC) -c $<',
+      'clean lint:'
+    ].join('\n'));
+
+    assert.deepStrictEqual(commands.map(command => command.label), ['build', 'test', 'clean', 'lint']);
+    assert.strictEqual(commands[0].command, 'make build');
+    assert.strictEqual(commands[0].description, 'Compile everything');
+    assert.strictEqual(commands[1].description, 'Run the test suite');
+    assert.strictEqual(commands[2].description, undefined);
+  });
+
+  test('justfile recipes ask for their parameters and skip private ones', () => {
+    const commands = convertJustfile([
+      'set shell := ["bash", "-c"]',
+      'version := "1.0"',
+      '',
+      '# Build the project',
+      'build target="debug" *flags:',
+      '    cargo build --profile {{target}} {{flags}}',
+      '',
+      '_helper:',
+      '    echo hidden',
+      '',
+      '[private]',
+      'secret:',
+      '    echo hidden',
+      '',
+      '@deploy: build',
+      '    ./deploy.sh'
+    ].join('\n'));
+
+    assert.deepStrictEqual(commands.map(command => command.label), ['build', 'deploy']);
+    assert.strictEqual(commands[0].description, 'Build the project');
+    assert.strictEqual(commands[0].command, 'just build "${target}" "${flags}"');
+    assert.deepStrictEqual(commands[0].variables.map(variable => [variable.key, variable.value]), [['target', 'debug'], ['flags', '']]);
+    assert.strictEqual(commands[1].command, 'just deploy');
+    assert.strictEqual(commands[1].variables, undefined);
+  });
+
+  test('Taskfile tasks leave out internal ones', () => {
+    const commands = convertTaskfile([
+      'version: "3"',
+      'tasks:',
+      '  build:',
+      '    desc: Build the binary',
+      '    cmds: [go build ./...]',
+      '  setup:',
+      '    internal: true',
+      '    cmds: [go mod download]',
+      '  lint:',
+      '    - golangci-lint run'
+    ].join('\n'));
+
+    assert.deepStrictEqual(commands.map(command => command.command), ['task build', 'task lint']);
+    assert.strictEqual(commands[0].description, 'Build the binary');
+    assert.strictEqual(commands[0].source, 'taskfile');
+  });
+
+  test('pyproject scripts run through the detected tool', () => {
+    assert.strictEqual(detectPythonRunner(['pyproject.toml', 'uv.lock']), 'uv');
+    assert.strictEqual(detectPythonRunner(['pyproject.toml']), undefined);
+
+    const content = [
+      '[project]',
+      'name = "app"',
+      '',
+      '[project.scripts]',
+      'serve = "app.server:main"  # entry point',
+      '',
+      '[tool.pdm.scripts]',
+      'lint = { cmd = "ruff check ." }',
+      '"start-dev" = "flask run"'
+    ].join('\n');
+
+    const withUv = convertPyproject(content, 'uv');
+    assert.deepStrictEqual(withUv.map(command => command.command), ['uv run serve', 'pdm run lint', 'pdm run start-dev']);
+    assert.deepStrictEqual(withUv.map(command => command.description), ['app.server:main', 'ruff check .', 'flask run']);
+    assert.strictEqual(convertPyproject(content, undefined)[0].command, 'serve');
+  });
+});